@@ -2,7 +2,7 @@ import { Pool } from 'pg';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { eq } from 'drizzle-orm';
 import * as schema from '@repo/database/schema';
-import { posts, hashtags, postsHashtags, users } from '@repo/database/schema';
+import { posts, hashtags, postsHashtags, users, outbox, processedMessages } from '@repo/database/schema';
 
 let pool: Pool | null = null;
 let db: any = null;
@@ -31,6 +31,8 @@ export async function connectToDockerDB() {
  * Note: We DON'T delete users (they come from seeds)
  */
 export async function cleanTestData(db: any) {
+  await db.delete(outbox);
+  await db.delete(processedMessages);
   await db.delete(postsHashtags);
   await db.delete(hashtags);
   await db.delete(posts);
@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
+import { createSQSPublisherConfig } from '@repo/sqs-publisher';
 
 // Load .env files based on environment
 dotenv.config();
@@ -18,8 +19,17 @@ const envSchema = z.object({
   AWS_ACCESS_KEY_ID: z.string().optional(),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
 
-  // SQS Queue URL
-  SQS_POSTS_STREAM_QUEUE_URL: z.string().url(),
+  // Outbox relay - publishes events written with the posts to SQS
+  OUTBOX_BATCH_SIZE: z.coerce.number().int().positive().default(10),
+  OUTBOX_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(1000),
+
+  // Logging - format defaults to 'pretty' in development, 'json' otherwise
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  LOG_FORMAT: z.enum(['json', 'pretty']).optional(),
+
+  // Tracing - 'otlp' to a collector (e.g. Jaeger), 'console' to stdout
+  OTEL_TRACES_EXPORTER: z.enum(['otlp', 'console', 'none']).default('none'),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: z.string().url().optional(), // Default: http://localhost:4318/v1/traces
 });
 
 // Type inference from schema
@@ -50,6 +60,9 @@ export const isProd = () => env.NODE_ENV === 'production';
 export const isDev = () => env.NODE_ENV === 'development';
 export const isTestEnv = () => env.NODE_ENV === 'test';
 
+// SQS publisher configuration (SQS_POSTS_STREAM_QUEUE_URL, _FIFO, _PUBLISH_*) using the shared validator
+export const postsStreamPublisherConfig = createSQSPublisherConfig(process.env, 'SQS_POSTS_STREAM');
+
 // Export the validated environment
 export { env };
 export default env;
@@ -1,11 +1,14 @@
 import { Request, Response } from 'express';
+import { createLogger, Logger } from '@repo/logger';
 import { PostsService } from '../services/posts.service';
 
 export class PostsController {
   private service: PostsService;
+  private logger: Logger;
 
-  constructor(service: PostsService) {
+  constructor(service: PostsService, logger: Logger = createLogger({ name: 'PostsController' })) {
     this.service = service;
+    this.logger = logger;
   }
 
   async createPost(req: Request, res: Response): Promise<void> {
@@ -41,6 +44,7 @@ export class PostsController {
         return;
       }
 
+      this.logger.error('Failed to create post', { userId, error });
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'An unexpected error occurred',
@@ -81,6 +85,7 @@ export class PostsController {
         return;
       }
 
+      this.logger.error('Failed to get post', { postId, error });
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'An unexpected error occurred',
@@ -123,6 +128,7 @@ export class PostsController {
         return;
       }
 
+      this.logger.error('Failed to get posts of user', { userId, error });
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'An unexpected error occurred',
@@ -142,6 +148,7 @@ export class PostsController {
         }))
       );
     } catch (error) {
+      this.logger.error('Failed to get users', { error });
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'An unexpected error occurred',
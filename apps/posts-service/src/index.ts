@@ -1,19 +1,68 @@
+import { tracing } from './tracing';
 import express from 'express';
+import { createMetricsRegistry, httpMetrics, metricsHandler } from '@repo/metrics';
+import { requestLogging } from '@repo/logger';
+import { SQSPublisher } from '@repo/sqs-publisher';
+import { PostCreatedEvent } from '@repo/types';
+import { env, postsStreamPublisherConfig } from './config/env';
+import { logger } from './logger';
 import postsRoutes from './routes/posts.routes';
+import { OutboxRepository } from './repositories/outbox.repository';
+import { OutboxRelay } from './services/outbox-relay';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const metricsRegistry = createMetricsRegistry('posts-service');
 
 app.use(express.json());
+app.use(requestLogging(logger));
+app.use(httpMetrics(metricsRegistry));
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.status(200).json({ status: 'ok' });
 });
 
+// Prometheus scrape endpoint
+app.get('/metrics', metricsHandler(metricsRegistry, logger.child({ component: 'Metrics' })));
+
 app.use('/api', postsRoutes);
 
+// Publishes the events written to the outbox with each post
+const outboxRelay = new OutboxRelay(
+  new OutboxRepository(),
+  new SQSPublisher<PostCreatedEvent>(postsStreamPublisherConfig, {
+    sqsClientConfig: {
+      region: env.AWS_REGION,
+      endpoint: env.AWS_ENDPOINT,
+      credentials:
+        env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: env.AWS_ACCESS_KEY_ID,
+              secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    },
+    // FIFO: each outbox row carries its message group (one per user, see outboxMessage)
+    logger: logger.child({ component: 'SQSPublisher' }),
+  }),
+  {
+    batchSize: env.OUTBOX_BATCH_SIZE,
+    pollIntervalMs: env.OUTBOX_POLL_INTERVAL_MS,
+    logger: logger.child({ component: 'OutboxRelay' }),
+  }
+);
+
 app.listen(PORT, () => {
-  console.log(`Posts service listening on port ${PORT}`);
+  logger.info('Posts service listening', { port: PORT });
+  outboxRelay.start();
+});
+
+// Finish the batch being published and flush pending spans before exiting
+process.on('SIGTERM', () => {
+  void outboxRelay
+    .stop()
+    .then(() => tracing.shutdown())
+    .finally(() => process.exit(0));
 });
 
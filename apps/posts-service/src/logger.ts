@@ -0,0 +1,9 @@
+import { createLogger } from '@repo/logger';
+import { env, isDev } from './config/env';
+
+// Service logger - components log through children, e.g. logger.child({ component: 'PostsService' })
+export const logger = createLogger({
+  name: 'posts-service',
+  level: env.LOG_LEVEL,
+  format: env.LOG_FORMAT ?? (isDev() ? 'pretty' : 'json'),
+});
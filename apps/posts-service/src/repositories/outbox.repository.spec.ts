@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { Database } from '@repo/database';
+import { outbox } from '@repo/database/schema';
+import { setupPgliteTestDb } from '@repo/database/test-utils/pglite';
+import { OutboxRepository } from './outbox.repository';
+
+describe('OutboxRepository', () => {
+  let testDb: Awaited<ReturnType<typeof setupPgliteTestDb>>;
+  let db: Database;
+  let repository: OutboxRepository;
+
+  const past = new Date(Date.now() - 60_000);
+  const future = new Date(Date.now() + 60_000);
+
+  const insert = (id: string, messageGroupId: string | null, nextAttemptAt = past) =>
+    db.insert(outbox).values({ id, eventType: 'post.created', payload: {}, messageGroupId, nextAttemptAt });
+
+  // PGlite returns bigint ids as numbers
+  const claimedIds = async (limit = 10) =>
+    (await repository.claimDue(limit, 30_000)).map(({ id }) => String(id));
+
+  beforeAll(async () => {
+    testDb = await setupPgliteTestDb();
+    db = testDb.db as unknown as Database;
+  }, 30000);
+
+  afterAll(async () => {
+    await testDb.client.close();
+  });
+
+  beforeEach(async () => {
+    await db.delete(outbox);
+    repository = new OutboxRepository(db);
+  });
+
+  describe('claimDue', () => {
+    it('should claim due messages oldest first and lease them', async () => {
+      await insert('2', null);
+      await insert('1', null);
+      await insert('3', null, future);
+
+      expect(await claimedIds()).toEqual(['1', '2']);
+      expect(await claimedIds()).toEqual([]);
+    });
+
+    it('should not claim a message while an earlier message of its group backs off', async () => {
+      await insert('1', 'user-1', future);
+      await insert('2', 'user-1');
+      await insert('3', 'user-2');
+
+      expect(await claimedIds()).toEqual(['3']);
+    });
+
+    it('should claim the messages of a group together, in order', async () => {
+      await insert('1', 'user-1');
+      await insert('2', 'user-1');
+
+      expect(await claimedIds()).toEqual(['1', '2']);
+    });
+
+    it('should hold back a group while an earlier message of it is leased to another relay', async () => {
+      await insert('1', 'user-1');
+      await insert('3', 'user-1');
+      expect(await claimedIds(1)).toEqual(['1']);
+
+      await insert('2', 'user-2');
+
+      expect(await claimedIds()).toEqual(['2']);
+    });
+
+    it('should claim the next message of a group once the earlier one is sent', async () => {
+      await insert('1', 'user-1');
+      await insert('2', 'user-1');
+      await claimedIds(1);
+      await repository.markSent(['1']);
+
+      expect(await claimedIds()).toEqual(['2']);
+    });
+  });
+
+  describe('markParked', () => {
+    it('should never claim a parked message again or let it hold back its group', async () => {
+      await insert('1', 'user-1');
+      await insert('2', 'user-1');
+      await repository.markParked('1', 'Invalid payload');
+
+      expect(await claimedIds()).toEqual(['2']);
+
+      const [parked] = await db.select().from(outbox).where(eq(outbox.id, '1'));
+      expect(parked).toMatchObject({ attempts: 1, lastError: 'Invalid payload', failedAt: expect.any(Date) });
+    });
+  });
+});
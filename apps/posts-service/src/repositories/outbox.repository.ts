@@ -0,0 +1,173 @@
+import { db as defaultDb, outbox } from '@repo/database';
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lt, lte, notExists, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { context, propagation } from '@opentelemetry/api';
+import { PostCreatedEvent } from '@repo/types';
+
+export type OutboxMessage = typeof outbox.$inferSelect;
+export type NewOutboxMessage = typeof outbox.$inferInsert;
+type DbTransaction = Parameters<Parameters<typeof defaultDb.transaction>[0]>[0];
+
+/**
+ * Outbox row for an event, carrying the trace context of the active span
+ * so the relay can continue the request's trace when it publishes the event later
+ * The events of a user share a message group, so they are published in order.
+ */
+export function outboxMessage(event: PostCreatedEvent): NewOutboxMessage {
+  const traceContext: Record<string, string> = {};
+  propagation.inject(context.active(), traceContext);
+
+  return {
+    eventType: event.eventType,
+    payload: event,
+    messageGroupId: event.payload.userId,
+    traceContext: Object.keys(traceContext).length > 0 ? traceContext : null,
+  };
+}
+
+export class OutboxRepository {
+  private db: typeof defaultDb;
+
+  constructor(db: typeof defaultDb = defaultDb) {
+    this.db = db;
+  }
+
+  /**
+   * Claim pending messages that are due, oldest first
+   * Claimed rows get a lease (next_attempt_at pushed by leaseMs) so other relays skip them;
+   * if this relay dies before marking them, they become due again once the lease expires.
+   * A message is only claimed along with every earlier pending message of its group, so a group
+   * never overtakes a message that is backing off or being published by another relay.
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<OutboxMessage[]> {
+    return this.db.transaction(async (tx) => {
+      const now = new Date();
+      const earlier = alias(outbox, 'earlier');
+
+      // SKIP LOCKED: concurrent relays claim disjoint batches instead of waiting on each other
+      const due = await tx
+        .select({ id: outbox.id, messageGroupId: outbox.messageGroupId })
+        .from(outbox)
+        .where(
+          and(
+            isNull(outbox.sentAt),
+            isNull(outbox.failedAt),
+            lte(outbox.nextAttemptAt, now),
+            // Groups held back by an earlier message that isn't due yet would only fill the batch
+            notExists(
+              tx
+                .select({ id: earlier.id })
+                .from(earlier)
+                .where(
+                  and(
+                    eq(earlier.messageGroupId, outbox.messageGroupId),
+                    lt(earlier.id, outbox.id),
+                    isNull(earlier.sentAt),
+                    isNull(earlier.failedAt),
+                    gt(earlier.nextAttemptAt, now)
+                  )
+                )
+            )
+          )
+        )
+        .orderBy(asc(outbox.id))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      const claimable = await this.withoutHeldBackGroups(tx, due);
+      if (claimable.length === 0) {
+        return [];
+      }
+
+      const claimed = await tx
+        .update(outbox)
+        .set({ nextAttemptAt: new Date(now.getTime() + leaseMs) })
+        .where(inArray(outbox.id, claimable))
+        .returning();
+
+      // RETURNING has no order - publish in insertion (snowflake) order
+      return claimed.sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+    });
+  }
+
+  async markSent(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.db.update(outbox).set({ sentAt: new Date(), lastError: null }).where(inArray(outbox.id, ids));
+  }
+
+  async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    await this.db
+      .update(outbox)
+      .set({ attempts: sql`${outbox.attempts} + 1`, lastError: error, nextAttemptAt })
+      .where(eq(outbox.id, id));
+  }
+
+  /**
+   * Park a message that can never be published - it is no longer claimed and no longer holds back its group
+   */
+  async markParked(id: string, error: string): Promise<void> {
+    await this.db
+      .update(outbox)
+      .set({ attempts: sql`${outbox.attempts} + 1`, lastError: error, failedAt: new Date() })
+      .where(eq(outbox.id, id));
+  }
+
+  /**
+   * Drop the due rows whose group has an earlier pending row outside of them, e.g. one that another
+   * relay locked (SKIP LOCKED hid it) but hasn't leased yet
+   * @returns Ids of the rows that can be claimed
+   */
+  private async withoutHeldBackGroups(
+    tx: DbTransaction,
+    due: { id: string; messageGroupId: string | null }[]
+  ): Promise<string[]> {
+    const groups = Array.from(new Set(due.flatMap(({ messageGroupId }) => (messageGroupId === null ? [] : [messageGroupId]))));
+    if (groups.length === 0) {
+      return due.map(({ id }) => id);
+    }
+
+    const dueIds = new Set(due.map(({ id }) => id));
+    const pending = await tx
+      .select({ id: outbox.id, messageGroupId: outbox.messageGroupId })
+      .from(outbox)
+      .where(
+        and(
+          inArray(outbox.messageGroupId, groups),
+          isNull(outbox.sentAt),
+          isNull(outbox.failedAt),
+          lt(outbox.id, due[due.length - 1]!.id)
+        )
+      );
+
+    // First pending row of each group that is not in this claim - it and everything after it waits
+    const firstMissing = new Map<string, bigint>();
+    for (const { id, messageGroupId } of pending) {
+      const current = firstMissing.get(messageGroupId!);
+      if (!dueIds.has(id) && (current === undefined || BigInt(id) < current)) {
+        firstMissing.set(messageGroupId!, BigInt(id));
+      }
+    }
+
+    return due
+      .filter(({ id, messageGroupId }) => {
+        const blockedFrom = messageGroupId === null ? undefined : firstMissing.get(messageGroupId);
+        return blockedFrom === undefined || BigInt(id) < blockedFrom;
+      })
+      .map(({ id }) => id);
+  }
+
+  /**
+   * Delete messages sent before a date
+   * @returns Number of rows deleted
+   */
+  async deleteSentBefore(date: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(outbox)
+      .where(and(isNotNull(outbox.sentAt), lt(outbox.sentAt, date)))
+      .returning({ id: outbox.id });
+
+    return deleted.length;
+  }
+}
@@ -1,6 +1,8 @@
-import { db as defaultDb, users, posts } from '@repo/database';
+import { db as defaultDb, users, posts, outbox } from '@repo/database';
 import { eq, and, isNull } from 'drizzle-orm';
+import { PostCreatedEvent } from '@repo/types';
 import { CreatePostData, PostResponse, User } from '../types/posts.types';
+import { outboxMessage } from './outbox.repository';
 
 export class PostsRepository {
   private db: typeof defaultDb;
@@ -24,21 +26,29 @@ export class PostsRepository {
     return user || null;
   }
 
-  async createPost(data: CreatePostData): Promise<PostResponse> {
-    const [post] = await this.db
-      .insert(posts)
-      .values({
-        id: data.id,
-        userId: data.userId,
-        caption: data.caption,
-      })
-      .returning();
+  /**
+   * Insert a post and its POST_CREATED event into the outbox in one transaction
+   * The event is published by the OutboxRelay once the transaction commits.
+   */
+  async createPost(data: CreatePostData, event: PostCreatedEvent): Promise<PostResponse> {
+    return this.db.transaction(async (tx) => {
+      const [post] = await tx
+        .insert(posts)
+        .values({
+          id: data.id,
+          userId: data.userId,
+          caption: data.caption,
+        })
+        .returning();
 
-    if (!post) {
-      throw new Error('Failed to create post');
-    }
+      if (!post) {
+        throw new Error('Failed to create post');
+      }
 
-    return post;
+      await tx.insert(outbox).values(outboxMessage(event));
+
+      return post;
+    });
   }
 
   async findPostById(postId: string): Promise<PostResponse | null> {
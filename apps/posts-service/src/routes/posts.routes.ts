@@ -2,15 +2,13 @@ import { Router } from 'express';
 import { PostsController } from '../controllers/posts.controller';
 import { PostsService } from '../services/posts.service';
 import { PostsRepository } from '../repositories/posts.repository';
-import { PostsSQSPublisher } from '../services/sqs-publisher';
-import { env } from '../config/env';
+import { logger } from '../logger';
 
 const router = Router();
 
 const repository = new PostsRepository();
-const sqsPublisher = new PostsSQSPublisher(env.SQS_POSTS_STREAM_QUEUE_URL);
-const service = new PostsService(repository, sqsPublisher);
-const controller = new PostsController(service);
+const service = new PostsService(repository, logger.child({ component: 'PostsService' }));
+const controller = new PostsController(service, logger.child({ component: 'PostsController' }));
 
 router.get('/users', controller.getUsers.bind(controller));
 router.post('/posts', controller.createPost.bind(controller));
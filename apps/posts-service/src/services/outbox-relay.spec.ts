@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { propagation, trace } from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { createLogger } from '@repo/logger';
+import { PublishEntry, PublishException, SQSPublisher } from '@repo/sqs-publisher';
+import { PostCreatedEvent } from '@repo/types';
+import { OutboxRelay } from './outbox-relay';
+import { OutboxMessage, OutboxRepository } from '../repositories/outbox.repository';
+
+const outboxMessage = (id: string, overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id,
+  eventType: 'POST_CREATED',
+  payload: {
+    eventId: `evt-${id}`,
+    eventType: 'POST_CREATED',
+    schemaVersion: 2,
+    occurredAt: '2026-01-01T00:00:00.000Z',
+    producer: 'posts-service',
+    payload: { postId: `post-${id}`, userId: 'user-1' },
+  },
+  messageGroupId: 'user-1',
+  traceContext: null,
+  attempts: 0,
+  nextAttemptAt: new Date(),
+  lastError: null,
+  createdAt: new Date(),
+  sentAt: null,
+  failedAt: null,
+  ...overrides,
+});
+
+describe('OutboxRelay', () => {
+  let mockRepository: {
+    claimDue: ReturnType<typeof vi.fn>;
+    markSent: ReturnType<typeof vi.fn>;
+    markFailed: ReturnType<typeof vi.fn>;
+    markParked: ReturnType<typeof vi.fn>;
+    deleteSentBefore: ReturnType<typeof vi.fn>;
+  };
+  let mockPublisher: {
+    publishBatch: ReturnType<typeof vi.fn>;
+  };
+  let writeLog: ReturnType<typeof vi.fn>;
+
+  const createRelay = (options = {}) =>
+    new OutboxRelay(
+      mockRepository as unknown as OutboxRepository,
+      mockPublisher as unknown as SQSPublisher<PostCreatedEvent>,
+      { logger: createLogger({ format: 'json', write: writeLog }), ...options }
+    );
+
+  beforeEach(() => {
+    mockRepository = {
+      claimDue: vi.fn().mockResolvedValue([]),
+      markSent: vi.fn().mockResolvedValue(undefined),
+      markFailed: vi.fn().mockResolvedValue(undefined),
+      markParked: vi.fn().mockResolvedValue(undefined),
+      deleteSentBefore: vi.fn().mockResolvedValue(0),
+    };
+    mockPublisher = {
+      publishBatch: vi.fn().mockImplementation(async (entries: PublishEntry<PostCreatedEvent>[]) => ({
+        successful: entries.map(({ event }) => ({ eventId: event.eventId, messageId: `msg-${event.eventId}` })),
+        failed: [],
+      })),
+    };
+    writeLog = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should publish the claimed messages in order and mark them sent', async () => {
+    mockRepository.claimDue.mockResolvedValue([outboxMessage('1'), outboxMessage('2')]);
+    const relay = createRelay({ batchSize: 5, leaseMs: 10000 });
+
+    const claimed = await relay.relayBatch();
+
+    expect(claimed).toBe(2);
+    expect(mockRepository.claimDue).toHaveBeenCalledWith(5, 10000);
+    expect(mockPublisher.publishBatch).toHaveBeenCalledTimes(1);
+    expect(mockPublisher.publishBatch.mock.calls[0]![0]).toEqual([
+      expect.objectContaining({
+        event: expect.objectContaining({ eventId: 'evt-1', payload: { postId: 'post-1', userId: 'user-1' } }),
+        messageGroupId: 'user-1',
+      }),
+      expect.objectContaining({
+        event: expect.objectContaining({ eventId: 'evt-2', payload: { postId: 'post-2', userId: 'user-1' } }),
+        messageGroupId: 'user-1',
+      }),
+    ]);
+    expect(mockRepository.markSent).toHaveBeenCalledWith(['1', '2']);
+    expect(mockRepository.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('should schedule a retry with exponential backoff when publishing fails', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    mockRepository.claimDue.mockResolvedValue([outboxMessage('1', { attempts: 3 }), outboxMessage('2')]);
+    mockPublisher.publishBatch.mockResolvedValueOnce({
+      successful: [{ eventId: 'evt-2', messageId: 'msg-2' }],
+      failed: [{ event: {}, eventId: 'evt-1', error: new PublishException('SQS service unavailable') }],
+    });
+    const relay = createRelay({ baseRetryDelayMs: 1000, maxRetryDelayMs: 60000 });
+
+    await relay.relayBatch();
+
+    expect(mockRepository.markFailed).toHaveBeenCalledWith('1', 'SQS service unavailable', new Date(1_000_000 + 8000));
+    expect(mockRepository.markSent).toHaveBeenCalledWith(['2']);
+    expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({
+      level: 'warn',
+      msg: 'Failed to publish outbox message, will retry',
+      outboxId: '1',
+      attempts: 4,
+      retryDelayMs: 8000,
+    });
+  });
+
+  it('should cap the retry delay', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    mockRepository.claimDue.mockResolvedValue([outboxMessage('1', { attempts: 20 })]);
+    mockPublisher.publishBatch.mockResolvedValueOnce({
+      successful: [],
+      failed: [{ event: {}, eventId: 'evt-1', error: new PublishException('SQS service unavailable') }],
+    });
+    const relay = createRelay({ baseRetryDelayMs: 1000, maxRetryDelayMs: 60000 });
+
+    await relay.relayBatch();
+
+    expect(mockRepository.markFailed).toHaveBeenCalledWith('1', 'SQS service unavailable', new Date(1_000_000 + 60000));
+  });
+
+  it('should park messages with an invalid payload instead of retrying them', async () => {
+    mockRepository.claimDue.mockResolvedValue([outboxMessage('1', { payload: { postId: 'post-1' } }), outboxMessage('2')]);
+
+    await createRelay().relayBatch();
+
+    expect(mockRepository.markParked).toHaveBeenCalledWith('1', expect.stringContaining('Invalid POST_CREATED payload'));
+    expect(mockRepository.markFailed).not.toHaveBeenCalled();
+    expect(mockRepository.markSent).toHaveBeenCalledWith(['2']);
+    expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({
+      level: 'error',
+      msg: 'Outbox message can never be published, parked',
+      outboxId: '1',
+    });
+  });
+
+  it('should publish messages written with an older event version in the latest one', async () => {
+    const v1Payload = { eventType: 'POST_CREATED', postId: 'post-1', userId: 'user-1', timestamp: '2026-01-01T00:00:00.000Z' };
+    mockRepository.claimDue.mockResolvedValue([outboxMessage('1', { payload: v1Payload })]);
+
+    await createRelay().relayBatch();
+
+    const [entry] = mockPublisher.publishBatch.mock.calls[0]![0];
+    expect(entry.event).toMatchObject({
+      eventId: 'POST_CREATED:post-1',
+      schemaVersion: 2,
+      payload: { postId: 'post-1', userId: 'user-1' },
+    });
+    expect(mockRepository.markSent).toHaveBeenCalledWith(['1']);
+  });
+
+  it('should delete messages sent before the retention period', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    mockRepository.deleteSentBefore.mockResolvedValue(3);
+    const relay = createRelay({ retentionMs: 60000 });
+
+    const deleted = await relay.cleanupSent();
+
+    expect(deleted).toBe(3);
+    expect(mockRepository.deleteSentBefore).toHaveBeenCalledWith(new Date(1_000_000 - 60000));
+  });
+
+  it('should keep polling after errors until stopped', async () => {
+    mockRepository.claimDue
+      .mockRejectedValueOnce(new Error('Connection terminated'))
+      .mockResolvedValueOnce([outboxMessage('1')])
+      .mockResolvedValue([]);
+    const relay = createRelay({ pollIntervalMs: 10 });
+
+    relay.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await relay.stop();
+
+    expect(mockRepository.markSent).toHaveBeenCalledWith(['1']);
+    expect(writeLog.mock.calls.map(([line]) => JSON.parse(line).msg)).toContain('Outbox poll failed');
+
+    const pollsAfterStop = mockRepository.claimDue.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(mockRepository.claimDue).toHaveBeenCalledTimes(pollsAfterStop);
+  });
+
+  describe('with tracing', () => {
+    beforeAll(() => {
+      propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    });
+
+    afterAll(() => {
+      propagation.disable();
+    });
+
+    it('should publish in the trace context of the request that created the event', async () => {
+      const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+      mockRepository.claimDue.mockResolvedValue([outboxMessage('1', { traceContext: { traceparent } })]);
+
+      await createRelay().relayBatch();
+
+      const [entry] = mockPublisher.publishBatch.mock.calls[0]![0];
+      expect(trace.getSpanContext(entry.traceContext)).toMatchObject({
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        spanId: 'b7ad6b7169203331',
+      });
+    });
+  });
+});
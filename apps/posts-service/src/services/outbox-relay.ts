@@ -0,0 +1,181 @@
+import { propagation, ROOT_CONTEXT } from '@opentelemetry/api';
+import { createLogger, Logger } from '@repo/logger';
+import { PublishEntry, SQSPublisher } from '@repo/sqs-publisher';
+import { eventUpcasters, PostCreatedEvent, postCreatedEventSchema } from '@repo/types';
+import { OutboxMessage, OutboxRepository } from '../repositories/outbox.repository';
+
+// Rows written before an upgrade hold older versions of the event - they are published in the latest one
+const outboxEventSchema = eventUpcasters.schemaFor(postCreatedEventSchema);
+
+export interface OutboxRelayOptions {
+  batchSize?: number; // Messages claimed per poll. Default: 10
+  pollIntervalMs?: number; // Wait between polls once the outbox is drained. Default: 1000
+  leaseMs?: number; // A claimed message is retried after this if the relay dies before marking it. Default: 30000
+  baseRetryDelayMs?: number; // First retry delay after a failed publish, doubled per attempt. Default: 1000
+  maxRetryDelayMs?: number; // Upper bound for the retry delay. Default: 300000 (5 minutes)
+  retentionMs?: number; // How long sent messages are kept before cleanup. Default: 86400000 (24 hours)
+  cleanupIntervalMs?: number; // Time between cleanups of sent messages. Default: 60000
+  logger?: Logger; // Default: JSON logger named 'OutboxRelay'
+}
+
+/**
+ * Publishes events from the outbox table to SQS
+ *
+ * Polls for pending messages, publishes each claimed batch in order (one SendMessageBatch call) and
+ * marks the published messages sent. A message that fails to publish is retried with exponential
+ * backoff until it succeeds, so every committed event is eventually delivered; the later messages of
+ * its group wait for it (see OutboxRepository.claimDue). A payload that doesn't match the event schema
+ * can never be published and is parked instead. Delivery is at-least-once (a crash between publishing and marking a message sent
+ * publishes it again) - consumers deduplicate with their idempotency store.
+ *
+ * Several relays can run side by side: each poll claims a disjoint batch (see OutboxRepository.claimDue).
+ */
+export class OutboxRelay {
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly baseRetryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly retentionMs: number;
+  private readonly cleanupIntervalMs: number;
+  private readonly logger: Logger;
+
+  private running = false;
+  private pollTimer?: NodeJS.Timeout;
+  private cleanupTimer?: NodeJS.Timeout;
+  private currentPoll?: Promise<void>;
+
+  constructor(
+    private readonly repository: OutboxRepository,
+    private readonly publisher: SQSPublisher<PostCreatedEvent>,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 10;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.leaseMs = options.leaseMs ?? 30000;
+    this.baseRetryDelayMs = options.baseRetryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 300000;
+    this.retentionMs = options.retentionMs ?? 86400000;
+    this.cleanupIntervalMs = options.cleanupIntervalMs ?? 60000;
+    this.logger = options.logger ?? createLogger({ name: 'OutboxRelay' });
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.logger.info('Outbox relay started', { batchSize: this.batchSize, pollIntervalMs: this.pollIntervalMs });
+
+    this.schedulePoll(0);
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupSent()
+        .then((deleted) => {
+          if (deleted > 0) {
+            this.logger.info('Deleted sent outbox messages', { deleted });
+          }
+        })
+        .catch((error) => {
+          this.logger.error('Outbox cleanup failed', { error });
+        });
+    }, this.cleanupIntervalMs);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Stop polling and wait for the batch being published, if any
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.pollTimer);
+    clearInterval(this.cleanupTimer);
+    await this.currentPoll;
+    this.logger.info('Outbox relay stopped');
+  }
+
+  /**
+   * Claim and publish one batch of due messages
+   * @returns Number of messages claimed
+   */
+  async relayBatch(): Promise<number> {
+    const messages = await this.repository.claimDue(this.batchSize, this.leaseMs);
+    if (messages.length === 0) {
+      return 0;
+    }
+
+    const byEventId = new Map<string, OutboxMessage>();
+    const entries: PublishEntry<PostCreatedEvent>[] = [];
+    for (const message of messages) {
+      const parsed = outboxEventSchema.safeParse(message.payload);
+      if (!parsed.success) {
+        await this.park(message, new Error(`Invalid ${message.eventType} payload: ${parsed.error.message}`));
+        continue;
+      }
+      // The eventId of the envelope is the same for every publish of the message, so consumers can drop duplicates
+      byEventId.set(parsed.data.eventId, message);
+      entries.push({
+        event: parsed.data,
+        messageGroupId: message.messageGroupId ?? undefined,
+        // Continue the trace of the request that created the event
+        traceContext: propagation.extract(ROOT_CONTEXT, message.traceContext ?? {}),
+      });
+    }
+
+    const { successful, failed } = await this.publisher.publishBatch(entries);
+    await this.repository.markSent(successful.map(({ eventId }) => byEventId.get(eventId)!.id));
+    for (const failure of failed) {
+      await this.retryLater(byEventId.get(failure.eventId)!, failure.error);
+    }
+
+    return messages.length;
+  }
+
+  /**
+   * Delete messages sent longer ago than the retention period
+   * @returns Number of messages deleted
+   */
+  async cleanupSent(): Promise<number> {
+    return this.repository.deleteSentBefore(new Date(Date.now() - this.retentionMs));
+  }
+
+  private schedulePoll(delayMs: number): void {
+    this.pollTimer = setTimeout(() => {
+      this.currentPoll = this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let claimed = 0;
+    try {
+      claimed = await this.relayBatch();
+    } catch (error) {
+      this.logger.error('Outbox poll failed', { error });
+    }
+
+    if (this.running) {
+      // A full batch means more may be waiting - poll again right away
+      this.schedulePoll(claimed === this.batchSize ? 0 : this.pollIntervalMs);
+    }
+  }
+
+  private async park(message: OutboxMessage, error: Error): Promise<void> {
+    await this.repository.markParked(message.id, error.message);
+    this.logger.error('Outbox message can never be published, parked', {
+      outboxId: message.id,
+      eventType: message.eventType,
+      error,
+    });
+  }
+
+  private async retryLater(message: OutboxMessage, error: Error): Promise<void> {
+    const retryDelayMs = Math.min(this.baseRetryDelayMs * Math.pow(2, message.attempts), this.maxRetryDelayMs);
+    await this.repository.markFailed(message.id, error.message, new Date(Date.now() + retryDelayMs));
+    this.logger.warn('Failed to publish outbox message, will retry', {
+      outboxId: message.id,
+      eventType: message.eventType,
+      attempts: message.attempts + 1,
+      retryDelayMs,
+      error,
+    });
+  }
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLogger, withLogContext } from '@repo/logger';
 import { PostsService } from './posts.service';
 import { PostsRepository } from '../repositories/posts.repository';
-import { PostsSQSPublisher } from './sqs-publisher';
 import { User, PostResponse } from '../types/posts.types';
 
 describe('PostsService', () => {
@@ -12,9 +12,7 @@ describe('PostsService', () => {
     findPostById: ReturnType<typeof vi.fn>;
     findPostsByUserId: ReturnType<typeof vi.fn>;
   };
-  let mockSQSPublisher: {
-    publishPostCreated: ReturnType<typeof vi.fn>;
-  };
+  let writeLog: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     mockRepository = {
@@ -24,18 +22,15 @@ describe('PostsService', () => {
       findPostsByUserId: vi.fn(),
     };
 
-    mockSQSPublisher = {
-      publishPostCreated: vi.fn(),
-    };
-
+    writeLog = vi.fn();
     service = new PostsService(
       mockRepository as unknown as PostsRepository,
-      mockSQSPublisher as unknown as PostsSQSPublisher
+      createLogger({ format: 'json', write: writeLog })
     );
   });
 
   describe('createPost', () => {
-    it('should create post and publish SQS message when user exists', async () => {
+    it('should create post with its POST_CREATED event when user exists', async () => {
       const userId = '274137326815285248';
       const caption = 'My first post!';
 
@@ -60,20 +55,24 @@ describe('PostsService', () => {
 
       mockRepository.findUserById.mockResolvedValue(mockUser);
       mockRepository.createPost.mockResolvedValue(mockPost);
-      mockSQSPublisher.publishPostCreated.mockResolvedValue('mock-message-id-123');
 
       const result = await service.createPost(userId, caption);
 
       expect(mockRepository.findUserById).toHaveBeenCalledWith(userId);
-      expect(mockRepository.createPost).toHaveBeenCalledWith({
+      const [data, event] = mockRepository.createPost.mock.calls[0]!;
+      expect(data).toEqual({
         id: expect.any(String),
         userId,
         caption,
       });
-      expect(mockSQSPublisher.publishPostCreated).toHaveBeenCalledWith(
-        expect.any(String),
-        userId
-      );
+      expect(event).toEqual({
+        eventId: expect.any(String),
+        eventType: 'POST_CREATED',
+        schemaVersion: 2,
+        occurredAt: expect.any(String),
+        producer: 'posts-service',
+        payload: { postId: data.id, userId },
+      });
       expect(result).toEqual(mockPost);
     });
 
@@ -89,52 +88,26 @@ describe('PostsService', () => {
 
       expect(mockRepository.findUserById).toHaveBeenCalledWith(userId);
       expect(mockRepository.createPost).not.toHaveBeenCalled();
-      expect(mockSQSPublisher.publishPostCreated).not.toHaveBeenCalled();
     });
 
-    it('should create post successfully even if SQS publish fails', async () => {
+    it('should correlate the event with the request that created the post', async () => {
       const userId = '274137326815285248';
-      const caption = 'My first post!';
-
-      const mockUser: User = {
-        id: userId,
-        username: 'johndoe',
-        email: 'john@example.com',
-        fullName: 'John Doe',
-        isVerified: true,
-      };
 
-      const mockPost: PostResponse = {
-        id: '274137326815285249',
-        userId,
-        caption,
-        likesCount: 0,
-        commentsCount: 0,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        deletedAt: null,
-      };
+      mockRepository.findUserById.mockResolvedValue({ id: userId } as User);
 
-      mockRepository.findUserById.mockResolvedValue(mockUser);
-      mockRepository.createPost.mockResolvedValue(mockPost);
-      mockSQSPublisher.publishPostCreated.mockRejectedValue(
-        new Error('SQS service unavailable')
-      );
+      await withLogContext({ requestId: 'req-1' }, () => service.createPost(userId, 'My first post!'));
 
-      // Spy on console.error to verify error logging
-      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const [, event] = mockRepository.createPost.mock.calls[0]!;
+      expect(event.correlationId).toBe('req-1');
+    });
 
-      const result = await service.createPost(userId, caption);
+    it('should fail when the post and its event cannot be written', async () => {
+      const userId = '274137326815285248';
 
-      expect(mockRepository.createPost).toHaveBeenCalled();
-      expect(mockSQSPublisher.publishPostCreated).toHaveBeenCalled();
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Failed to publish POST_CREATED event to SQS:',
-        expect.any(Error)
-      );
-      expect(result).toEqual(mockPost);
+      mockRepository.findUserById.mockResolvedValue({ id: userId } as User);
+      mockRepository.createPost.mockRejectedValue(new Error('Connection terminated'));
 
-      consoleErrorSpy.mockRestore();
+      await expect(service.createPost(userId, 'My first post!')).rejects.toThrow('Connection terminated');
     });
   });
 
@@ -1,15 +1,16 @@
 import { generateSnowflakeId } from '@repo/database';
+import { createLogger, getLogContext, Logger } from '@repo/logger';
+import { createEventEnvelope, PostCreatedEvent, POST_CREATED_SCHEMA_VERSION } from '@repo/types';
 import { PostsRepository } from '../repositories/posts.repository';
 import { PostResponse } from '../types/posts.types';
-import { PostsSQSPublisher } from './sqs-publisher';
 
 export class PostsService {
   private repository: PostsRepository;
-  private sqsPublisher: PostsSQSPublisher;
+  private logger: Logger;
 
-  constructor(repository: PostsRepository, sqsPublisher: PostsSQSPublisher) {
+  constructor(repository: PostsRepository, logger: Logger = createLogger({ name: 'PostsService' })) {
     this.repository = repository;
-    this.sqsPublisher = sqsPublisher;
+    this.logger = logger;
   }
 
   async createPost(userId: string, caption: string): Promise<PostResponse> {
@@ -25,23 +26,20 @@ export class PostsService {
 
     const postId = generateSnowflakeId();
 
-    const post = await this.repository.createPost({
-      id: postId,
-      userId,
-      caption,
+    const { requestId } = getLogContext();
+    const event: PostCreatedEvent = createEventEnvelope({
+      eventType: 'POST_CREATED',
+      schemaVersion: POST_CREATED_SCHEMA_VERSION,
+      producer: 'posts-service',
+      // Captured now - the relay publishes the event outside of the request
+      correlationId: typeof requestId === 'string' ? requestId : undefined,
+      payload: { postId, userId },
     });
 
-    // Publish POST_CREATED event to SQS
-    // CAVEAT: Using best-effort delivery - if SQS publish fails, we log the error
-    // but still return success. The post is created in the database regardless.
-    // This prevents SQS failures from blocking post creation, but means some
-    // events might be lost if SQS is unavailable.
-    try {
-      await this.sqsPublisher.publishPostCreated(postId, userId);
-    } catch (error) {
-      console.error('Failed to publish POST_CREATED event to SQS:', error);
-      // Continue execution - post creation succeeded even if event publish failed
-    }
+    // The event is written to the outbox in the post's transaction and published to SQS by the
+    // OutboxRelay, so it is delivered (at least once) even if SQS is down when the post is created
+    const post = await this.repository.createPost({ id: postId, userId, caption }, event);
+    this.logger.info('Post created', { postId, userId });
 
     return post;
   }
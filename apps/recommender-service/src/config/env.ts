@@ -28,6 +28,17 @@ const envSchema = z.object({
   AWS_ENDPOINT: z.string().optional(),
   AWS_ACCESS_KEY_ID: z.string().optional(),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
+
+  // Redis - shares the posts-stream rate limit across replicas (per replica if not set)
+  REDIS_URL: z.string().url().optional(),
+
+  // Logging - format defaults to 'pretty' in development, 'json' otherwise
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  LOG_FORMAT: z.enum(['json', 'pretty']).optional(),
+
+  // Tracing - 'otlp' to a collector (e.g. Jaeger), 'console' to stdout
+  OTEL_TRACES_EXPORTER: z.enum(['otlp', 'console', 'none']).default('none'),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: z.string().url().optional(), // Default: http://localhost:4318/v1/traces
 });
 
 // Type inference from schema
@@ -1,11 +1,14 @@
 import { Request, Response } from 'express';
+import { createLogger, Logger } from '@repo/logger';
 import { HashtagService } from '../services/hashtag.service';
 
 export class HashtagsController {
   private service: HashtagService;
+  private logger: Logger;
 
-  constructor(service: HashtagService) {
+  constructor(service: HashtagService, logger: Logger = createLogger({ name: 'HashtagsController' })) {
     this.service = service;
+    this.logger = logger;
   }
 
   async getTopHashtags(req: Request, res: Response): Promise<void> {
@@ -27,7 +30,7 @@ export class HashtagsController {
         count: topHashtags.length,
       });
     } catch (error) {
-      console.error('[HashtagsController] Error getting top hashtags:', error);
+      this.logger.error('Failed to get top hashtags', { error });
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'An unexpected error occurred',
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLogger } from '@repo/logger';
+import type { EventContext, PostgresIdempotencyStore } from '@repo/sqs-consumer';
+import { createEventEnvelope, PostCreatedEvent } from '@repo/types';
+import { PostCreatedHandler } from './post-created.handler';
+import { HashtagService } from '../services/hashtag.service';
+
+const postCreated = (postId: string): PostCreatedEvent =>
+  createEventEnvelope({
+    eventType: 'POST_CREATED',
+    schemaVersion: 2,
+    producer: 'posts-service',
+    payload: { postId, userId: 'user-1' },
+  });
+
+const eventContext = (id: string): EventContext =>
+  ({
+    message: { MessageId: `msg-${id}` },
+    metadata: {
+      idempotencyKey: `recommender:evt-${id}`,
+      signal: new AbortController().signal,
+      logger: createLogger({ format: 'json', write: () => {} }),
+    },
+  }) as unknown as EventContext;
+
+describe('PostCreatedHandler', () => {
+  const tx = { transaction: true };
+  let mockService: {
+    processPostHashtags: ReturnType<typeof vi.fn>;
+    processPostsHashtags: ReturnType<typeof vi.fn>;
+    withTransaction: ReturnType<typeof vi.fn>;
+  };
+  let txService: typeof mockService;
+  let mockStore: { processBatchInTransaction: ReturnType<typeof vi.fn> };
+  let handler: PostCreatedHandler;
+
+  // The store claims the given keys and runs the work in a transaction
+  const claimKeys = (claimed: string[]) =>
+    mockStore.processBatchInTransaction.mockImplementationOnce(async (_keys, _ttl, work) =>
+      claimed.length === 0 ? { claimed } : { claimed, result: await work(tx, claimed) }
+    );
+
+  beforeEach(() => {
+    txService = {
+      processPostHashtags: vi.fn().mockResolvedValue(undefined),
+      processPostsHashtags: vi.fn().mockResolvedValue({ missingPostIds: [] }),
+      withTransaction: vi.fn(),
+    };
+    mockService = {
+      processPostHashtags: vi.fn().mockResolvedValue(undefined),
+      processPostsHashtags: vi.fn().mockResolvedValue({ missingPostIds: [] }),
+      withTransaction: vi.fn().mockReturnValue(txService),
+    };
+    mockStore = { processBatchInTransaction: vi.fn() };
+    handler = new PostCreatedHandler(
+      mockService as unknown as HashtagService,
+      createLogger({ format: 'json', write: () => {} }),
+      mockStore as unknown as PostgresIdempotencyStore,
+      3600
+    );
+  });
+
+  describe('handle', () => {
+    it('should count the hashtags in the transaction that records the event', async () => {
+      claimKeys(['recommender:evt-1']);
+
+      const result = await handler.handle(postCreated('post-1'), eventContext('1'));
+
+      expect(result).toEqual({ status: 'success' });
+      expect(mockStore.processBatchInTransaction).toHaveBeenCalledWith(['recommender:evt-1'], 3600, expect.any(Function));
+      expect(mockService.withTransaction).toHaveBeenCalledWith(tx);
+      expect(txService.processPostHashtags).toHaveBeenCalledWith('post-1', expect.any(AbortSignal));
+      expect(mockService.processPostHashtags).not.toHaveBeenCalled();
+    });
+
+    it('should skip an event that was already processed', async () => {
+      claimKeys([]);
+
+      const result = await handler.handle(postCreated('post-1'), eventContext('1'));
+
+      expect(result).toEqual({ status: 'success' });
+      expect(txService.processPostHashtags).not.toHaveBeenCalled();
+    });
+
+    it('should fail the event of a missing post', async () => {
+      claimKeys(['recommender:evt-1']);
+      txService.processPostHashtags.mockRejectedValue(new Error('Post not found: post-1'));
+
+      const result = await handler.handle(postCreated('post-1'), eventContext('1'));
+
+      expect(result).toEqual({ status: 'fail', reason: 'Post not found: post-1' });
+    });
+  });
+
+  describe('handleBatch', () => {
+    it('should count the hashtags of the posts whose events were not processed yet', async () => {
+      claimKeys(['recommender:evt-1', 'recommender:evt-3']);
+      txService.processPostsHashtags.mockResolvedValue({ missingPostIds: ['post-3'] });
+
+      const results = await handler.handleBatch(
+        ['1', '2', '3'].map((id) => ({ event: postCreated(`post-${id}`), ctx: eventContext(id) }))
+      );
+
+      expect(mockStore.processBatchInTransaction).toHaveBeenCalledWith(
+        ['recommender:evt-1', 'recommender:evt-2', 'recommender:evt-3'],
+        3600,
+        expect.any(Function)
+      );
+      expect(txService.processPostsHashtags).toHaveBeenCalledWith(['post-1', 'post-3'], expect.any(AbortSignal));
+      expect(results).toEqual(new Map([['msg-3', { status: 'fail', reason: 'Post not found: post-3' }]]));
+    });
+
+    it('should retry the whole batch when the transaction fails', async () => {
+      mockStore.processBatchInTransaction.mockRejectedValue(new Error('Connection terminated'));
+
+      const results = await handler.handleBatch(
+        ['1', '2'].map((id) => ({ event: postCreated(`post-${id}`), ctx: eventContext(id) }))
+      );
+
+      expect(results).toEqual(
+        new Map([
+          ['msg-1', { status: 'retry', reason: 'Connection terminated' }],
+          ['msg-2', { status: 'retry', reason: 'Connection terminated' }],
+        ])
+      );
+    });
+
+    it('should count every post outside of a transaction without an idempotency store', async () => {
+      handler = new PostCreatedHandler(mockService as unknown as HashtagService, createLogger({ format: 'json', write: () => {} }));
+
+      await handler.handleBatch(['1', '2'].map((id) => ({ event: postCreated(`post-${id}`), ctx: eventContext(id) })));
+
+      expect(mockService.processPostsHashtags).toHaveBeenCalledWith(['post-1', 'post-2'], expect.any(AbortSignal));
+      expect(mockService.withTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
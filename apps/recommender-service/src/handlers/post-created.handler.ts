@@ -1,45 +1,62 @@
-import type { Message, MessageHandler, MessageMetadata, MessageResult } from '@repo/sqs-consumer';
+import type {
+  BatchMessageResults,
+  BatchTransactionalProcessResult,
+  EventBatchItem,
+  EventContext,
+  EventHandler,
+  MessageResult,
+  PostgresIdempotencyStore,
+} from '@repo/sqs-consumer';
+import { createLogger, Logger } from '@repo/logger';
 import { PostCreatedEvent } from '@repo/types';
 import { HashtagService } from '../services/hashtag.service';
 import { HashtagsRepository } from '../repositories/hashtags.repository';
 
-export class PostCreatedHandler implements MessageHandler {
+/**
+ * Counts the hashtags of created posts
+ *
+ * With an idempotency store, the hashtag writes and the "processed" records of the events commit in one
+ * transaction, so an event is counted exactly once even if it is delivered or published again.
+ */
+export class PostCreatedHandler implements EventHandler<PostCreatedEvent> {
   private hashtagService: HashtagService;
+  private logger: Logger;
+  private idempotencyStore?: PostgresIdempotencyStore;
+  private idempotencyTtlSeconds: number;
 
-  constructor() {
-    const hashtagRepository = new HashtagsRepository();
-    this.hashtagService = new HashtagService(hashtagRepository);
+  constructor(
+    hashtagService: HashtagService = new HashtagService(new HashtagsRepository()),
+    logger: Logger = createLogger({ name: 'PostCreatedHandler' }),
+    idempotencyStore?: PostgresIdempotencyStore,
+    idempotencyTtlSeconds: number = 86400
+  ) {
+    this.hashtagService = hashtagService;
+    this.logger = logger;
+    this.idempotencyStore = idempotencyStore;
+    this.idempotencyTtlSeconds = idempotencyTtlSeconds;
   }
 
-  async handle(message: Message, metadata: MessageMetadata): Promise<MessageResult> {
-    if (!message.Body) {
-      return { status: 'fail', reason: 'Message body is empty' };
-    }
-
-    let event: PostCreatedEvent;
+  async handle(event: PostCreatedEvent, ctx: EventContext): Promise<MessageResult> {
+    const { postId } = event.payload;
+    const log = ctx.metadata.logger.child({ postId, eventId: event.eventId });
 
     try {
-      event = JSON.parse(message.Body);
-    } catch (error) {
-      return { status: 'fail', reason: 'Invalid JSON in message body' };
-    }
-
-    try {
-      console.log(`[PostCreatedHandler] Processing POST_CREATED event`);
-      console.log(`  Post ID: ${event.postId}`);
-      console.log(`  User ID: ${event.userId}`);
-      console.log(`  Timestamp: ${event.timestamp}`);
-      console.log(`  Retry Count: ${metadata.retryCount}`);
-      console.log(`  Is Last Attempt: ${metadata.isLastAttempt}`);
+      log.debug('Processing POST_CREATED event');
 
       // Process hashtags immediately and persist to database
-      await this.hashtagService.processPostHashtags(event.postId);
+      const { claimed } = await this.processOnce([ctx.metadata.idempotencyKey], (service) =>
+        service.processPostHashtags(postId, ctx.metadata.signal)
+      );
 
-      console.log(`[PostCreatedHandler] ✅ Successfully processed hashtags for post ${event.postId}`);
+      if (claimed.length === 0) {
+        log.info('Skipped already processed event');
+      } else {
+        log.info('Processed hashtags for post');
+      }
 
       return { status: 'success' };
     } catch (error) {
-      console.error(`[PostCreatedHandler] Failed to process hashtags for post ${event.postId}:`, error);
+      log.error('Failed to process hashtags for post', { error });
 
       if (error instanceof Error && error.message.includes('Post not found')) {
         return { status: 'fail', reason: error.message };
@@ -48,5 +65,72 @@ export class PostCreatedHandler implements MessageHandler {
       return { status: 'retry', reason: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
-}
 
+  async handleBatch(batch: EventBatchItem<PostCreatedEvent>[]): Promise<BatchMessageResults> {
+    const results: BatchMessageResults = new Map();
+    const messageIdsByPostId = new Map<string, string[]>();
+    const postIdByKey = new Map<string, string>();
+
+    for (const { event, ctx } of batch) {
+      const { postId } = event.payload;
+      const messageIds = messageIdsByPostId.get(postId) || [];
+      messageIds.push(ctx.message.MessageId || '');
+      messageIdsByPostId.set(postId, messageIds);
+      postIdByKey.set(ctx.metadata.idempotencyKey, postId);
+    }
+
+    const postIds = Array.from(messageIdsByPostId.keys());
+
+    try {
+      this.logger.debug('Processing POST_CREATED events', { posts: postIds.length });
+
+      // Upsert hashtags for every post in the batch at once, skipping events that were already processed.
+      // Missing posts are recorded as processed too: they are dead-lettered, and a redrive has nothing to count.
+      const signal = AbortSignal.any(batch.map(({ ctx }) => ctx.metadata.signal));
+      const { claimed, result } = await this.processOnce(Array.from(postIdByKey.keys()), (service, claimedKeys) =>
+        service.processPostsHashtags(Array.from(new Set(claimedKeys.map((key) => postIdByKey.get(key)!))), signal)
+      );
+      const missingPostIds = result?.missingPostIds ?? [];
+
+      for (const postId of missingPostIds) {
+        for (const messageId of messageIdsByPostId.get(postId) || []) {
+          results.set(messageId, { status: 'fail', reason: `Post not found: ${postId}` });
+        }
+      }
+
+      this.logger.info('Processed hashtags for posts', {
+        posts: new Set(claimed.map((key) => postIdByKey.get(key))).size - missingPostIds.length,
+        duplicates: postIdByKey.size - claimed.length,
+        missingPostIds,
+      });
+    } catch (error) {
+      this.logger.error('Failed to process hashtags for posts', { postIds, error });
+
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      for (const messageIds of messageIdsByPostId.values()) {
+        for (const messageId of messageIds) {
+          results.set(messageId, { status: 'retry', reason });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run work for the idempotency keys not processed yet, in one transaction with their processed records
+   * Without an idempotency store, work runs for every key outside of a transaction.
+   */
+  private async processOnce<T>(
+    keys: string[],
+    work: (service: HashtagService, claimedKeys: string[]) => Promise<T>
+  ): Promise<BatchTransactionalProcessResult<T>> {
+    if (!this.idempotencyStore) {
+      return { claimed: keys, result: await work(this.hashtagService, keys) };
+    }
+
+    return this.idempotencyStore.processBatchInTransaction(keys, this.idempotencyTtlSeconds, (tx, claimedKeys) =>
+      work(this.hashtagService.withTransaction(tx), claimedKeys)
+    );
+  }
+}
@@ -1,73 +1,137 @@
+import { tracing } from './tracing';
 import express from 'express';
-import { SQSConsumer } from '@repo/sqs-consumer';
+import { Redis } from 'ioredis';
+import { createMetricsRegistry, httpMetrics, metricsHandler } from '@repo/metrics';
+import { db } from '@repo/database';
+import { requestLogging } from '@repo/logger';
+import {
+  SQSConsumer,
+  MessageRouter,
+  PostgresIdempotencyStore,
+  RedisRateLimitStore,
+  bodyFieldsKey,
+  collectConsumerMetrics,
+  mapErrors,
+  structuredLogging,
+} from '@repo/sqs-consumer';
+import { eventUpcasters, postCreatedEventSchema } from '@repo/types';
 import { env, postsStreamQueueConfig } from './config/env';
+import { logger } from './logger';
 import { PostCreatedHandler } from './handlers/post-created.handler';
 import { HashtagsController } from './controllers/hashtags.controller';
 import { HashtagService } from './services/hashtag.service';
 import { HashtagsRepository } from './repositories/hashtags.repository';
 
 async function main() {
-  console.log('[Recommender Service] Starting...');
-  console.log(`[Recommender Service] Environment: ${env.NODE_ENV}`);
-  console.log(`[Recommender Service] Port: ${env.PORT}`);
+  logger.info('Starting', { environment: env.NODE_ENV, port: env.PORT });
 
   // Initialize Express app
   const app = express();
+  const metricsRegistry = createMetricsRegistry('recommender-service');
   app.use(express.json());
+  app.use(requestLogging(logger));
+  app.use(httpMetrics(metricsRegistry));
 
   // Initialize dependencies
   const hashtagRepository = new HashtagsRepository();
-  const hashtagService = new HashtagService(hashtagRepository);
-  const hashtagsController = new HashtagsController(hashtagService);
+  const hashtagService = new HashtagService(hashtagRepository, logger.child({ component: 'HashtagService' }));
+  const hashtagsController = new HashtagsController(hashtagService, logger.child({ component: 'HashtagsController' }));
+
+  // Processed events are recorded next to the hashtags, so counting a post and recording its event commit together
+  const idempotencyStore = new PostgresIdempotencyStore(db, logger.child({ component: 'PostgresIdempotencyStore' }));
+  const idempotencyTtlSeconds = postsStreamQueueConfig.idempotency?.ttlSeconds ?? 86400;
+  const stopIdempotencyCleanup = idempotencyStore.startCleanup();
 
   // Routes
   app.get('/api/hashtags/top', hashtagsController.getTopHashtags.bind(hashtagsController));
 
-  // Health check endpoint
+  // Route posts-stream events by eventType; other services' events on the stream are not ours to handle
+  const router = new MessageRouter(
+    {
+      POST_CREATED: {
+        // Messages published with an older schemaVersion are upcast, so the handler only sees the latest shape
+        schema: eventUpcasters.schemaFor(postCreatedEventSchema),
+        handler: new PostCreatedHandler(
+          hashtagService,
+          logger.child({ component: 'PostCreatedHandler' }),
+          idempotencyStore,
+          idempotencyTtlSeconds
+        ),
+      },
+    },
+    { unknownEventPolicy: 'skip', logger: logger.child({ component: 'MessageRouter' }) }
+  );
+
+  // One posts-stream rate limit for all replicas, so a backlog replay can't overload Postgres
+  const rateLimitStore = env.REDIS_URL ? new RedisRateLimitStore(new Redis(env.REDIS_URL)) : undefined;
+
+  // Create SQS Consumer for posts-stream queue (processing mode, retry, idempotency, DLQ and rate limit come from env)
+  // Each received batch is handled in one call so hashtags for all its posts are upserted together
+  const consumer = SQSConsumer.fromQueueConfig(postsStreamQueueConfig, router.asBatchHandler(), {
+    sqsClientConfig: {
+      region: env.AWS_REGION,
+      endpoint: env.AWS_ENDPOINT,
+      credentials:
+        env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: env.AWS_ACCESS_KEY_ID,
+              secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    },
+    pollIntervalMs: 1000,
+    // Deduplicate re-published events, not just redeliveries of the same SQS message. Messages from before
+    // the envelope have no eventId - their key is the eventId they are upcast to ('POST_CREATED:<postId>')
+    idempotencyKey: (message) => bodyFieldsKey('eventId')(message) ?? bodyFieldsKey('eventType', 'postId')(message),
+    idempotencyNamespace: 'recommender',
+    idempotencyStore, // Used by the consumer when SQS_POSTS_STREAM_IDEMPOTENCY_ENABLED=true
+    // One JSON log line per message (retry metadata, result, duration); Retry/FailureException mapped per message
+    middlewares: [structuredLogging(), mapErrors()],
+    rateLimitStore,
+    logger: logger.child({ component: 'SQSConsumer' }),
+  });
+  collectConsumerMetrics(consumer, { registry: metricsRegistry, queue: 'posts-stream' });
+
+  // Health check endpoint - reports 'degraded' while the circuit breaker has stopped consumption
   app.get('/health', (req, res) => {
-    res.status(200).json({ status: 'ok' });
+    const circuitBreaker = consumer.getCircuitBreaker()?.getStatus();
+    res.status(200).json({
+      status: circuitBreaker && circuitBreaker.state !== 'closed' ? 'degraded' : 'ok',
+      consumer: { paused: consumer.isPaused(), circuitBreaker: circuitBreaker ?? null },
+    });
   });
 
+  // Prometheus scrape endpoint - HTTP and posts-stream consumer metrics
+  app.get('/metrics', metricsHandler(metricsRegistry, logger.child({ component: 'Metrics' })));
+
   // Start HTTP server
   const server = app.listen(env.PORT, () => {
-    console.log(`[Recommender Service] HTTP server listening on port ${env.PORT}`);
+    logger.info('HTTP server listening', { port: env.PORT });
   });
 
-  // Create SQS Consumer for posts-stream queue
-  const consumer = new SQSConsumer(
-    {
-      sqsConfig: postsStreamQueueConfig,
-      sqsClientConfig: {
-        region: env.AWS_REGION,
-        endpoint: env.AWS_ENDPOINT,
-        credentials:
-          env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY
-            ? {
-                accessKeyId: env.AWS_ACCESS_KEY_ID,
-                secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
-              }
-            : undefined,
-      },
-      pollIntervalMs: 1000,
-      processInParallel: postsStreamQueueConfig.processingMode === 'parallel',
-    },
-    new PostCreatedHandler()
-  );
-
   // Start consuming messages
   await consumer.start();
 
   // Graceful shutdown
+  let isShuttingDown = false;
   const shutdown = async () => {
-    console.log('[Recommender Service] Shutting down gracefully...');
+    if (isShuttingDown) {
+      return;
+    }
+    isShuttingDown = true;
+
+    logger.info('Shutting down gracefully');
 
     // Stop HTTP server
     server.close(() => {
-      console.log('[Recommender Service] HTTP server closed');
+      logger.info('HTTP server closed');
     });
 
-    // Stop SQS consumer
+    // Stop SQS consumer - resolves once the in-flight batch is settled (or released after the drain timeout)
     await consumer.stop();
+    stopIdempotencyCleanup();
+    await rateLimitStore?.disconnect();
+    await tracing.shutdown();
 
     process.exit(0);
   };
@@ -75,11 +139,11 @@ async function main() {
   process.on('SIGTERM', shutdown);
   process.on('SIGINT', shutdown);
 
-  console.log('[Recommender Service] Ready to process messages!');
+  logger.info('Ready to process messages');
 }
 
 main().catch((error) => {
-  console.error('[Recommender Service] Fatal error:', error);
+  logger.error('Fatal error', { error });
   process.exit(1);
 });
 
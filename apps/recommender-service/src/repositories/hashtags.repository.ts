@@ -1,5 +1,10 @@
 import { db as defaultDb, posts, hashtags, postsHashtags, generateSnowflakeId } from '@repo/database';
-import { eq, and, isNull, sql, desc } from 'drizzle-orm';
+import { eq, and, isNull, sql, desc, inArray } from 'drizzle-orm';
+
+/**
+ * Transaction of the default database, e.g. from PostgresIdempotencyStore.processInTransaction
+ */
+export type DbTransaction = Parameters<Parameters<typeof defaultDb.transaction>[0]>[0];
 
 export interface HashtagData {
   name: string;
@@ -7,12 +12,19 @@ export interface HashtagData {
 }
 
 export class HashtagsRepository {
-  private db: typeof defaultDb;
+  private db: typeof defaultDb | DbTransaction;
 
-  constructor(db: typeof defaultDb = defaultDb) {
+  constructor(db: typeof defaultDb | DbTransaction = defaultDb) {
     this.db = db;
   }
 
+  /**
+   * Repository whose queries run in the given transaction
+   */
+  withTransaction(tx: DbTransaction): HashtagsRepository {
+    return new HashtagsRepository(tx);
+  }
+
   async getPostById(postId: string): Promise<{ id: string; caption: string } | null> {
     const post = await this.db.query.posts.findFirst({
       where: and(eq(posts.id, postId), isNull(posts.deletedAt)),
@@ -25,6 +37,20 @@ export class HashtagsRepository {
     return post || null;
   }
 
+  async getPostsByIds(postIds: string[]): Promise<Array<{ id: string; caption: string }>> {
+    if (postIds.length === 0) {
+      return [];
+    }
+
+    return this.db.query.posts.findMany({
+      where: and(inArray(posts.id, postIds), isNull(posts.deletedAt)),
+      columns: {
+        id: true,
+        caption: true,
+      },
+    });
+  }
+
   async findHashtagByName(name: string): Promise<{ id: string; name: string; usageCount: number } | null> {
     const hashtag = await this.db.query.hashtags.findFirst({
       where: eq(hashtags.name, name),
@@ -43,33 +69,28 @@ export class HashtagsRepository {
       return new Map();
     }
 
-    const hashtagMap = new Map<string, string>();
-
-    await this.db.transaction(async (tx) => {
-      for (const [name, count] of hashtagCounts.entries()) {
-        const [upsertedHashtag] = await tx
-          .insert(hashtags)
-          .values({
-            id: generateSnowflakeId(),
-            name,
-            usageCount: count,
-          })
-          .onConflictDoUpdate({
-            target: hashtags.name,
-            set: {
-              usageCount: sql`${hashtags.usageCount} + ${count}`,
-              updatedAt: new Date(),
-            },
-          })
-          .returning({ id: hashtags.id, name: hashtags.name });
-
-        if (upsertedHashtag) {
-          hashtagMap.set(upsertedHashtag.name, upsertedHashtag.id);
-        }
-      }
-    });
+    // One multi-row upsert for the whole batch; sorted so concurrent batches lock rows in the same order
+    const values = Array.from(hashtagCounts.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, count]) => ({
+        id: generateSnowflakeId(),
+        name,
+        usageCount: count,
+      }));
+
+    const upsertedHashtags = await this.db
+      .insert(hashtags)
+      .values(values)
+      .onConflictDoUpdate({
+        target: hashtags.name,
+        set: {
+          usageCount: sql`${hashtags.usageCount} + excluded.usage_count`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: hashtags.id, name: hashtags.name });
 
-    return hashtagMap;
+    return new Map(upsertedHashtags.map((hashtag) => [hashtag.name, hashtag.id]));
   }
 
   async createPostHashtag(postId: string, hashtagId: string): Promise<void> {
@@ -6,6 +6,7 @@ describe('HashtagService', () => {
   let service: HashtagService;
   let mockRepository: {
     getPostById: ReturnType<typeof vi.fn>;
+    getPostsByIds: ReturnType<typeof vi.fn>;
     findHashtagByName: ReturnType<typeof vi.fn>;
     batchUpsertHashtags: ReturnType<typeof vi.fn>;
     createPostHashtag: ReturnType<typeof vi.fn>;
@@ -16,6 +17,7 @@ describe('HashtagService', () => {
   beforeEach(() => {
     mockRepository = {
       getPostById: vi.fn(),
+      getPostsByIds: vi.fn(),
       findHashtagByName: vi.fn(),
       batchUpsertHashtags: vi.fn(),
       createPostHashtag: vi.fn(),
@@ -148,6 +150,74 @@ describe('HashtagService', () => {
     });
   });
 
+  describe('processPostsHashtags', () => {
+    it('should process hashtags of all posts in one batch', async () => {
+      mockRepository.getPostsByIds.mockResolvedValue([
+        { id: '274137326815285249', caption: 'Learning #nodejs and #typescript' },
+        { id: '274137326815285250', caption: 'More #nodejs' },
+      ]);
+      mockRepository.batchUpsertHashtags.mockResolvedValue(
+        new Map([
+          ['nodejs', '274137326815285251'],
+          ['typescript', '274137326815285252'],
+        ])
+      );
+      mockRepository.batchCreatePostHashtags.mockResolvedValue(undefined);
+
+      const result = await service.processPostsHashtags(['274137326815285249', '274137326815285250']);
+
+      expect(result).toEqual({ missingPostIds: [] });
+      expect(mockRepository.batchUpsertHashtags).toHaveBeenCalledTimes(1);
+      expect(mockRepository.batchUpsertHashtags).toHaveBeenCalledWith(
+        new Map([
+          ['nodejs', 2],
+          ['typescript', 1],
+        ])
+      );
+      expect(mockRepository.batchCreatePostHashtags).toHaveBeenCalledWith([
+        { postId: '274137326815285249', hashtagId: '274137326815285251' },
+        { postId: '274137326815285250', hashtagId: '274137326815285251' },
+        { postId: '274137326815285249', hashtagId: '274137326815285252' },
+      ]);
+    });
+
+    it('should report posts that were not found', async () => {
+      mockRepository.getPostsByIds.mockResolvedValue([
+        { id: '274137326815285249', caption: 'Hello #world' },
+      ]);
+      mockRepository.batchUpsertHashtags.mockResolvedValue(new Map([['world', '274137326815285251']]));
+      mockRepository.batchCreatePostHashtags.mockResolvedValue(undefined);
+
+      const result = await service.processPostsHashtags(['274137326815285249', '999']);
+
+      expect(result).toEqual({ missingPostIds: ['999'] });
+    });
+
+    it('should not write anything once the signal is aborted', async () => {
+      mockRepository.getPostsByIds.mockResolvedValue([
+        { id: '274137326815285249', caption: 'Hello #world' },
+      ]);
+      const abortController = new AbortController();
+      abortController.abort(new Error('Handler timed out after 5000ms'));
+
+      await expect(service.processPostsHashtags(['274137326815285249'], abortController.signal)).rejects.toThrow(
+        'Handler timed out after 5000ms'
+      );
+      expect(mockRepository.batchUpsertHashtags).not.toHaveBeenCalled();
+    });
+
+    it('should not write anything when no post has hashtags', async () => {
+      mockRepository.getPostsByIds.mockResolvedValue([
+        { id: '274137326815285249', caption: 'No hashtags here' },
+      ]);
+
+      await service.processPostsHashtags(['274137326815285249']);
+
+      expect(mockRepository.batchUpsertHashtags).not.toHaveBeenCalled();
+      expect(mockRepository.batchCreatePostHashtags).not.toHaveBeenCalled();
+    });
+  });
+
   describe('batchProcessHashtags', () => {
     it('should process multiple hashtags from multiple posts', async () => {
       const hashtagDataMap = new Map<string, HashtagData[]>([
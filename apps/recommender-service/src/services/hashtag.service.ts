@@ -1,7 +1,18 @@
-import { HashtagsRepository, HashtagData } from '../repositories/hashtags.repository';
+import { createLogger, Logger } from '@repo/logger';
+import { DbTransaction, HashtagsRepository, HashtagData } from '../repositories/hashtags.repository';
 
 export class HashtagService {
-  constructor(private hashtagRepository: HashtagsRepository) {}
+  constructor(
+    private hashtagRepository: HashtagsRepository,
+    private logger: Logger = createLogger({ name: 'HashtagService' })
+  ) {}
+
+  /**
+   * Service whose writes run in the given transaction
+   */
+  withTransaction(tx: DbTransaction): HashtagService {
+    return new HashtagService(this.hashtagRepository.withTransaction(tx), this.logger);
+  }
 
   extractHashtags(caption: string): string[] {
     const regex = /#(\w+)/g;
@@ -11,17 +22,20 @@ export class HashtagService {
     return Array.from(new Set(hashtags));
   }
 
-  async processPostHashtags(postId: string): Promise<void> {
+  async processPostHashtags(postId: string, signal?: AbortSignal): Promise<void> {
     const post = await this.hashtagRepository.getPostById(postId);
     
     if (!post) {
       throw new Error(`Post not found: ${postId}`);
     }
 
+    // Handler timed out while reading - don't start writing
+    signal?.throwIfAborted();
+
     const hashtagNames = this.extractHashtags(post.caption);
 
     if (hashtagNames.length === 0) {
-      console.log(`[HashtagService] No hashtags found in post ${postId}`);
+      this.logger.debug('No hashtags found', { postId });
       return;
     }
 
@@ -36,7 +50,7 @@ export class HashtagService {
       .map((name) => {
         const hashtagId = hashtagMap.get(name);
         if (!hashtagId) {
-          console.error(`[HashtagService] Failed to get hashtag ID for: ${name}`);
+          this.logger.error('Failed to get hashtag ID', { postId, hashtag: name });
           return null;
         }
         return { postId, hashtagId };
@@ -45,7 +59,30 @@ export class HashtagService {
 
     await this.hashtagRepository.batchCreatePostHashtags(postHashtagPairs);
 
-    console.log(`[HashtagService] Processed ${hashtagNames.length} hashtags for post ${postId}`);
+    this.logger.info('Processed hashtags', { postId, hashtags: hashtagNames.length });
+  }
+
+  async processPostsHashtags(postIds: string[], signal?: AbortSignal): Promise<{ missingPostIds: string[] }> {
+    const posts = await this.hashtagRepository.getPostsByIds(postIds);
+    signal?.throwIfAborted();
+
+    const foundPostIds = new Set(posts.map((post) => post.id));
+    const missingPostIds = postIds.filter((postId) => !foundPostIds.has(postId));
+
+    const hashtagDataMap = new Map<string, HashtagData[]>();
+    for (const post of posts) {
+      for (const name of this.extractHashtags(post.caption)) {
+        const dataArray = hashtagDataMap.get(name) || [];
+        dataArray.push({ name, postId: post.id });
+        hashtagDataMap.set(name, dataArray);
+      }
+    }
+
+    if (hashtagDataMap.size > 0) {
+      await this.batchProcessHashtags(hashtagDataMap);
+    }
+
+    return { missingPostIds };
   }
 
   async batchProcessHashtags(hashtagDataMap: Map<string, HashtagData[]>): Promise<void> {
@@ -69,7 +106,7 @@ export class HashtagService {
       .map((mapping) => {
         const hashtagId = hashtagMap.get(mapping.hashtagName);
         if (!hashtagId) {
-          console.error(`[HashtagService] Failed to get hashtag ID for: ${mapping.hashtagName}`);
+          this.logger.error('Failed to get hashtag ID', { postId: mapping.postId, hashtag: mapping.hashtagName });
           return null;
         }
         return { postId: mapping.postId, hashtagId };
@@ -78,7 +115,10 @@ export class HashtagService {
 
     await this.hashtagRepository.batchCreatePostHashtags(postHashtagPairs);
 
-    console.log(`[HashtagService] Batch processed ${hashtagCounts.size} unique hashtags from ${postHashtagMapping.length} post-hashtag relationships`);
+    this.logger.info('Batch processed hashtags', {
+      uniqueHashtags: hashtagCounts.size,
+      postHashtags: postHashtagMapping.length,
+    });
   }
 
   async getTopHashtags(limit: number = 5): Promise<Array<{ id: string; name: string; usageCount: number }>> {
@@ -0,0 +1,11 @@
+import { startTracing } from '@repo/tracing';
+import { env } from './config/env';
+import { logger } from './logger';
+
+// Imported first by index.ts - HTTP and Express are only instrumented if they are loaded after the SDK starts
+export const tracing = startTracing({
+  serviceName: 'recommender-service',
+  exporter: env.OTEL_TRACES_EXPORTER,
+  otlpEndpoint: env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+  logger: logger.child({ component: 'Tracing' }),
+});
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "processed_messages" (
+	"key" varchar(512) PRIMARY KEY NOT NULL,
+	"status" text NOT NULL,
+	"owner_id" varchar(64),
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "processed_messages_expires_at_idx" ON "processed_messages" USING btree ("expires_at");
\ No newline at end of file
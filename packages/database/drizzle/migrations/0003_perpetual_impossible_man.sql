@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "outbox" (
+	"id" bigint PRIMARY KEY NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"trace_context" jsonb,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"sent_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "outbox_pending_idx" ON "outbox" USING btree ("sent_at","next_attempt_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "outbox" ADD COLUMN "message_group_id" varchar(128);--> statement-breakpoint
+ALTER TABLE "outbox" ADD COLUMN "failed_at" timestamp;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "outbox_group_idx" ON "outbox" USING btree ("message_group_id","id");--> statement-breakpoint
+-- Pending rows predate message_group_id: group them by user, as the relay published them (v2 envelope, else v1 event)
+UPDATE "outbox" SET "message_group_id" = COALESCE("payload"->'payload'->>'userId', "payload"->>'userId') WHERE "sent_at" IS NULL;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from './schema';
+import { traceQueries } from './tracing';
 
 /**
  * Database configuration
@@ -35,6 +36,9 @@ const client = postgres(connectionString, {
   connect_timeout: parseInt(process.env.DB_CONNECT_TIMEOUT || '10'), // Connection timeout in seconds
 });
 
+// Query spans for distributed tracing
+traceQueries();
+
 // Create drizzle instance
 export const db = drizzle(client, { schema });
 
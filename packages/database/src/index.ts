@@ -8,6 +8,8 @@ export { hashtags } from './schema/hashtags';
 export { postsHashtags } from './schema/posts-hashtags';
 export { comments } from './schema/comments';
 export { likes } from './schema/likes';
+export { processedMessages } from './schema/processed-messages';
+export { outbox } from './schema/outbox';
 
 // Export Snowflake ID utilities
 export {
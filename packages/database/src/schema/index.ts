@@ -4,4 +4,5 @@ export * from './hashtags';
 export * from './posts-hashtags';
 export * from './comments';
 export * from './likes';
-
+export * from './processed-messages';
+export * from './outbox';
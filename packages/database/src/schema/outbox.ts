@@ -0,0 +1,42 @@
+import { pgTable, varchar, text, integer, jsonb, timestamp, index } from 'drizzle-orm/pg-core';
+import { snowflakeId } from '../utils/snowflake-column';
+import { generateSnowflakeId } from '../utils/snowflake';
+
+/**
+ * Transactional outbox for domain events (see OutboxRelay in posts-service)
+ *
+ * Services insert the event in the same transaction as the business write, so an event exists
+ * if and only if the write committed. The relay publishes pending rows to SQS, retrying with
+ * backoff until it succeeds, and deletes sent rows after a retention period.
+ *
+ * Rows of the same message_group_id are published in id order: a row waits while an earlier row of its
+ * group is pending, so a failed row holds back the rest of its group until it is sent.
+ *
+ * Row states:
+ * - pending  sent_at and failed_at are null, published once next_attempt_at has passed
+ * - sent     sent_at set, kept for debugging until cleanup
+ * - failed   failed_at set, the payload can never be published (e.g. it fails validation) - kept for
+ *            inspection, and no longer holds back its group
+ */
+export const outbox = pgTable(
+  'outbox',
+  {
+    id: snowflakeId('id')
+      .primaryKey()
+      .$defaultFn(() => generateSnowflakeId()),
+    eventType: varchar('event_type', { length: 100 }).notNull(),
+    payload: jsonb('payload').notNull(), // Event body as published
+    messageGroupId: varchar('message_group_id', { length: 128 }), // FIFO message group, null for unordered events
+    traceContext: jsonb('trace_context').$type<Record<string, string>>(), // W3C trace context of the writing request
+    attempts: integer('attempts').default(0).notNull(), // Failed publish attempts
+    nextAttemptAt: timestamp('next_attempt_at').defaultNow().notNull(), // Backoff after failures, lease while publishing
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    sentAt: timestamp('sent_at'),
+    failedAt: timestamp('failed_at'),
+  },
+  (table) => ({
+    pendingIdx: index('outbox_pending_idx').on(table.sentAt, table.nextAttemptAt),
+    groupIdx: index('outbox_group_idx').on(table.messageGroupId, table.id),
+  })
+);
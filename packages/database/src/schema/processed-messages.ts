@@ -0,0 +1,22 @@
+import { pgTable, varchar, text, timestamp, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Idempotency records for SQS message handlers (see PostgresIdempotencyStore in @repo/sqs-consumer)
+ *
+ * Lives in the same database as the business tables so a handler can commit its writes
+ * and the "processed" record in one transaction.
+ */
+export const processedMessages = pgTable(
+  'processed_messages',
+  {
+    key: varchar('key', { length: 512 }).primaryKey(), // Namespaced idempotency key
+    status: text('status', { enum: ['in_progress', 'processed'] }).notNull(),
+    ownerId: varchar('owner_id', { length: 64 }), // Store instance holding the in-progress lock
+    expiresAt: timestamp('expires_at').notNull(), // Lock lease or processed TTL
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    expiresAtIdx: index('processed_messages_expires_at_idx').on(table.expiresAt),
+  })
+);
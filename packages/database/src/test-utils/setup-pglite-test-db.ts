@@ -0,0 +1,43 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle, PgliteDatabase } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { join } from 'path';
+import * as schema from '../schema';
+
+/**
+ * Setup an in-process PostgreSQL database for testing using PGlite
+ *
+ * Unlike pg-mem (see setupTestDb), PGlite is PostgreSQL compiled to WASM, so conditional
+ * upserts (ON CONFLICT DO UPDATE ... WHERE), RETURNING and transaction rollbacks behave
+ * exactly as in production. Use it for code that relies on those semantics.
+ *
+ * This function:
+ * 1. Starts a new in-memory PGlite instance
+ * 2. Runs all migrations from the migrations folder
+ * 3. Returns a configured Drizzle db instance
+ *
+ * @returns Object containing the Drizzle db instance and the PGlite client (close it after the tests)
+ *
+ * @example
+ * ```typescript
+ * import { setupPgliteTestDb } from '@repo/database/test-utils/pglite';
+ *
+ * let testDb: Awaited<ReturnType<typeof setupPgliteTestDb>>;
+ *
+ * beforeEach(async () => {
+ *   testDb = await setupPgliteTestDb();
+ * });
+ *
+ * afterEach(async () => {
+ *   await testDb.client.close();
+ * });
+ * ```
+ */
+export async function setupPgliteTestDb(): Promise<{ db: PgliteDatabase<typeof schema>; client: PGlite }> {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  await migrate(db, { migrationsFolder: join(__dirname, '../../drizzle/migrations') });
+
+  return { db, client };
+}
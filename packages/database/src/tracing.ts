@@ -0,0 +1,47 @@
+import { SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import type { PreparedQueryConfig } from 'drizzle-orm/pg-core';
+import { PostgresJsPreparedQuery } from 'drizzle-orm/postgres-js';
+
+// Drizzle 0.36 ships a tracing hook that is never enabled, so queries are wrapped here instead.
+const tracer = trace.getTracer('@repo/database');
+
+let instrumented = false;
+
+/**
+ * Record a span for every query Drizzle runs through postgres.js (including inside transactions)
+ * The span is a child of the active span, e.g. the HTTP request or the SQS message being handled.
+ * Only the SQL text is recorded - parameters may contain user data.
+ */
+export function traceQueries(): void {
+  if (instrumented) {
+    return;
+  }
+  instrumented = true;
+
+  for (const method of ['execute', 'all'] as const) {
+    const original = PostgresJsPreparedQuery.prototype[method];
+    PostgresJsPreparedQuery.prototype[method] = function (this: PostgresJsPreparedQuery<PreparedQueryConfig>, ...args) {
+      const statement = this.getQuery().sql;
+      const operation = statement.trimStart().split(/\s/, 1)[0]?.toLowerCase() || 'query';
+
+      return tracer.startActiveSpan(
+        `drizzle.${operation}`,
+        {
+          kind: SpanKind.CLIENT,
+          attributes: { 'db.system': 'postgresql', 'db.operation.name': operation, 'db.query.text': statement },
+        },
+        async (span) => {
+          try {
+            return await original.apply(this, args);
+          } catch (error) {
+            span.recordException(error instanceof Error ? error : String(error));
+            span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : undefined });
+            throw error;
+          } finally {
+            span.end();
+          }
+        }
+      );
+    };
+  }
+}
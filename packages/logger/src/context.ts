@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { LogFields } from './logger';
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with fields added to every line logged while it runs (including after awaits)
+ * Lets services log with the requestId / messageId being handled without passing a logger down.
+ * Nested contexts add to the outer one.
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Fields of the current log context
+ */
+export function getLogContext(): LogFields {
+  return logContext.getStore() ?? {};
+}
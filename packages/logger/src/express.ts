@@ -0,0 +1,38 @@
+import { randomUUID } from 'node:crypto';
+import { trace } from '@opentelemetry/api';
+import type { RequestHandler } from 'express';
+import { withLogContext } from './context';
+import type { Logger } from './logger';
+
+/**
+ * Express middleware giving each request a requestId and logging it once it completes
+ * The requestId is taken from the `x-request-id` header when a proxy set one, and echoed in the response.
+ * Lines logged while the request is handled (controllers, services) carry it through the log context.
+ *
+ * Register after the body parser, so the rest of the chain runs inside the request's context.
+ */
+export function requestLogging(logger: Logger): RequestHandler {
+  return (req, res, next) => {
+    const requestId = req.get('x-request-id') || randomUUID();
+    const startedAt = Date.now();
+    res.setHeader('x-request-id', requestId);
+
+    // The response finishes outside the request's async context - keep its trace for the completion line
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    const traceId = spanContext && trace.isSpanContextValid(spanContext) ? spanContext.traceId : undefined;
+
+    res.on('finish', () => {
+      const level = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+      logger[level]('Request completed', {
+        requestId,
+        ...(traceId && { traceId }),
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+
+    withLogContext({ requestId }, next);
+  };
+}
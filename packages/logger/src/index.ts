@@ -0,0 +1,10 @@
+/**
+ * @repo/logger
+ *
+ * Leveled, structured JSON logging with child loggers, request / message log context and a pretty mode for local dev
+ */
+
+export { createLogger } from './logger';
+export type { Logger, LoggerOptions, LogLevel, LogFormat, LogFields } from './logger';
+export { withLogContext, getLogContext } from './context';
+export { requestLogging } from './express';
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterAll, beforeAll } from 'vitest';
+import { context, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider } from '@opentelemetry/sdk-trace-base';
+import express from 'express';
+import request from 'supertest';
+import { createLogger, type LoggerOptions } from './logger';
+import { withLogContext } from './context';
+import { requestLogging } from './express';
+
+describe('createLogger', () => {
+  const createTestLogger = (options: LoggerOptions = {}) => {
+    const write = vi.fn();
+    const logger = createLogger({ level: 'debug', format: 'json', ...options, write });
+    const lines = () => write.mock.calls.map(([line]) => JSON.parse(line));
+    return { logger, write, lines };
+  };
+
+  it('should write one JSON object per line with the level, name, message and fields', () => {
+    const { logger, lines } = createTestLogger({ name: 'SQSConsumer' });
+
+    logger.info('Message processed', { messageId: 'msg-1', durationMs: 12 });
+
+    expect(lines()).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        name: 'SQSConsumer',
+        msg: 'Message processed',
+        messageId: 'msg-1',
+        durationMs: 12,
+      },
+    ]);
+  });
+
+  it('should drop lines below the configured level', () => {
+    const { logger, lines } = createTestLogger({ level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines().map(({ level }) => level)).toEqual(['warn', 'error']);
+  });
+
+  it('should add the bindings of child loggers to every line', () => {
+    const { logger, lines } = createTestLogger();
+
+    const messageLogger = logger.child({ messageId: 'msg-1' });
+    messageLogger.child({ postId: 'post-1' }).info('Hashtags processed', { count: 3 });
+    messageLogger.info('Done');
+
+    expect(lines()[0]).toMatchObject({ messageId: 'msg-1', postId: 'post-1', count: 3 });
+    expect(lines()[1]).toMatchObject({ messageId: 'msg-1' });
+    expect(lines()[1]).not.toHaveProperty('postId');
+  });
+
+  it('should serialize errors with their name, message and stack', () => {
+    const { logger, lines } = createTestLogger();
+
+    logger.error('Failed to publish event', { error: new TypeError('Queue does not exist') });
+
+    expect(lines()[0].error).toEqual({
+      name: 'TypeError',
+      message: 'Queue does not exist',
+      stack: expect.stringContaining('TypeError: Queue does not exist'),
+    });
+  });
+
+  it('should add the fields of the log context, including after awaits', async () => {
+    const { logger, lines } = createTestLogger();
+
+    await withLogContext({ requestId: 'req-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      withLogContext({ postId: 'post-1' }, () => logger.info('Post created'));
+    });
+    logger.info('Outside');
+
+    expect(lines()[0]).toMatchObject({ requestId: 'req-1', postId: 'post-1' });
+    expect(lines()[1]).not.toHaveProperty('requestId');
+  });
+
+  it('should write a readable line in pretty mode', () => {
+    const { logger, write } = createTestLogger({ name: 'posts-service', format: 'pretty' });
+
+    logger.warn('Publish failed', { postId: 'post-1' });
+
+    const line = write.mock.calls[0]![0].replace(/\x1b\[\d+m/g, '');
+    expect(line).toMatch(/^\d{2}:\d{2}:\d{2}\.\d{3} WARN  posts-service: Publish failed postId=post-1$/);
+  });
+
+  describe('with tracing', () => {
+    const contextManager = new AsyncLocalStorageContextManager();
+
+    beforeAll(() => {
+      context.setGlobalContextManager(contextManager.enable());
+      trace.setGlobalTracerProvider(new BasicTracerProvider());
+    });
+
+    afterAll(() => {
+      trace.disable();
+      context.disable();
+    });
+
+    it('should add the traceId and spanId of the active span', () => {
+      const { logger, lines } = createTestLogger();
+
+      const span = trace.getTracer('test').startSpan('POST /api/posts');
+      context.with(trace.setSpan(context.active(), span), () => logger.info('Post created'));
+      span.end();
+
+      expect(lines()[0]).toMatchObject({ traceId: span.spanContext().traceId, spanId: span.spanContext().spanId });
+    });
+  });
+});
+
+describe('requestLogging', () => {
+  const createApp = () => {
+    const write = vi.fn();
+    const logger = createLogger({ format: 'json', write });
+    const app = express();
+    app.use(requestLogging(logger));
+    app.get('/posts/:postId', async (req, res) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      logger.info('Loading post', { postId: req.params.postId });
+      res.status(req.params.postId === 'missing' ? 404 : 200).json({});
+    });
+    const lines = () => write.mock.calls.map(([line]) => JSON.parse(line));
+    return { app, lines };
+  };
+
+  it('should log the request with a generated requestId and echo it in the response', async () => {
+    const { app, lines } = createApp();
+
+    const response = await request(app).get('/posts/post-1');
+
+    const requestId = response.headers['x-request-id'];
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(lines()).toEqual([
+      expect.objectContaining({ msg: 'Loading post', requestId, postId: 'post-1' }),
+      expect.objectContaining({
+        level: 'info',
+        msg: 'Request completed',
+        requestId,
+        method: 'GET',
+        path: '/posts/post-1',
+        status: 200,
+        durationMs: expect.any(Number),
+      }),
+    ]);
+  });
+
+  it('should reuse the x-request-id header and warn on client errors', async () => {
+    const { app, lines } = createApp();
+
+    const response = await request(app).get('/posts/missing').set('x-request-id', 'req-from-proxy');
+
+    expect(response.headers['x-request-id']).toBe('req-from-proxy');
+    expect(lines()[1]).toMatchObject({ level: 'warn', requestId: 'req-from-proxy', status: 404 });
+  });
+});
@@ -0,0 +1,152 @@
+import { trace } from '@opentelemetry/api';
+import { getLogContext } from './context';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /**
+   * Logger that adds `bindings` to every line, e.g. `logger.child({ postId })`
+   */
+  child(bindings: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  name?: string; // Service or component, e.g. 'posts-service' or 'SQSConsumer'
+  level?: LogLevel; // Lines below this level are dropped. Default: LOG_LEVEL env var, else 'info'
+  format?: LogFormat; // 'json' (one object per line) or 'pretty' (for local dev). Default: LOG_FORMAT env var, else 'json'
+  bindings?: LogFields; // Fields added to every line
+  write?: (line: string) => void; // Output for formatted lines. Default: process.stdout
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const COLORS: Record<LogLevel, string> = { debug: '\x1b[90m', info: '\x1b[32m', warn: '\x1b[33m', error: '\x1b[31m' };
+const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+
+/**
+ * Create a logger writing structured lines
+ * Every line carries the fields of the current log context (e.g. requestId, see withLogContext)
+ * and the traceId / spanId of the active OpenTelemetry span, if any.
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const level = options.level ?? parseLevel(process.env.LOG_LEVEL) ?? 'info';
+  const format = options.format ?? (process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json');
+  const write = options.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+
+  return new StructuredLogger({
+    name: options.name,
+    minLevel: LEVELS[level],
+    format,
+    bindings: options.bindings ?? {},
+    write,
+  });
+}
+
+interface StructuredLoggerConfig {
+  name: string | undefined;
+  minLevel: number;
+  format: LogFormat;
+  bindings: LogFields;
+  write: (line: string) => void;
+}
+
+class StructuredLogger implements Logger {
+  constructor(private readonly config: StructuredLoggerConfig) {}
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  child(bindings: LogFields): Logger {
+    return new StructuredLogger({ ...this.config, bindings: { ...this.config.bindings, ...bindings } });
+  }
+
+  private log(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < this.config.minLevel) {
+      return;
+    }
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      ...(this.config.name && { name: this.config.name }),
+      msg,
+      ...traceFields(),
+      ...getLogContext(),
+      ...this.config.bindings,
+      ...serializeErrors(fields),
+    };
+
+    this.config.write(this.config.format === 'pretty' ? formatPretty(level, entry) : JSON.stringify(entry));
+  }
+}
+
+/**
+ * traceId / spanId of the active span, so log lines can be joined with traces
+ */
+function traceFields(): LogFields {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (!spanContext || !trace.isSpanContextValid(spanContext)) {
+    return {};
+  }
+  return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+}
+
+// Errors stringify to {} - keep their name, message and stack
+function serializeErrors(fields: LogFields): LogFields {
+  const serialized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    serialized[key] =
+      value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+  }
+  return serialized;
+}
+
+// 12:00:00.123 INFO  SQSConsumer: Message processed messageId=abc
+function formatPretty(level: LogLevel, entry: LogFields): string {
+  const { time, level: _level, name, msg, ...fields } = entry;
+  const clock = String(time).slice(11, 23);
+  const label = `${COLORS[level]}${level.toUpperCase().padEnd(5)}${RESET}`;
+  const details = Object.entries(fields)
+    .filter(([key, value]) => value !== undefined && key !== 'spanId')
+    .map(([key, value]) => `${DIM}${key}=${RESET}${formatValue(value)}`)
+    .join(' ');
+  const stack = fields.error && typeof fields.error === 'object' && 'stack' in fields.error ? fields.error.stack : undefined;
+
+  return [`${DIM}${clock}${RESET} ${label} ${name ? `${name}: ` : ''}${msg}`, details, stack ? `\n${stack}` : '']
+    .filter(Boolean)
+    .join(' ');
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object' && 'message' in value) {
+    return JSON.stringify(value.message);
+  }
+  return JSON.stringify(value);
+}
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  return value && value in LEVELS ? (value as LogLevel) : undefined;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express, { Router } from 'express';
+import request from 'supertest';
+import type { Registry } from 'prom-client';
+import { createLogger } from '@repo/logger';
+import { createMetricsRegistry, metricsHandler } from './registry';
+import { httpMetrics } from './http-metrics';
+
+describe('httpMetrics', () => {
+  let registry: Registry;
+  let app: express.Express;
+
+  beforeEach(() => {
+    registry = createMetricsRegistry('test-service');
+
+    const router = Router();
+    router.get('/posts/:postId', (req, res) => {
+      res.status(req.params.postId === 'missing' ? 404 : 200).json({});
+    });
+
+    app = express();
+    app.use(httpMetrics(registry));
+    app.use('/api', router);
+    app.get('/metrics', metricsHandler(registry));
+  });
+
+  const sampleValue = async (metricName: string, labels: Record<string, string>) => {
+    const metric = registry.getSingleMetric(metricName.replace(/_count$/, ''));
+    const { values } = (await metric?.get()) ?? { values: [] };
+    return values.find(
+      (value) =>
+        ('metricName' in value ? value.metricName : metricName) === metricName &&
+        Object.entries(labels).every(([name, labelValue]) => value.labels[name] === labelValue)
+    )?.value;
+  };
+
+  it('should count requests by route pattern and status', async () => {
+    await request(app).get('/api/posts/1');
+    await request(app).get('/api/posts/2');
+    await request(app).get('/api/posts/missing');
+
+    const route = '/api/posts/:postId';
+    expect(await sampleValue('http_requests_total', { route, status: '200' })).toBe(2);
+    expect(await sampleValue('http_requests_total', { route, status: '404' })).toBe(1);
+    expect(await sampleValue('http_request_duration_seconds_count', { route, status: '200' })).toBe(2);
+  });
+
+  it('should label requests that match no route as unmatched', async () => {
+    await request(app).get('/api/unknown/123');
+
+    expect(await sampleValue('http_requests_total', { route: 'unmatched', status: '404' })).toBe(1);
+  });
+
+  it('should serve the registry in the Prometheus text format', async () => {
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toContain('# TYPE http_requests_total counter');
+    expect(response.text).toContain('process_cpu_seconds_total');
+  });
+
+  it('should answer 500 and log the error when collecting fails', async () => {
+    const writeLog = vi.fn();
+    vi.spyOn(registry, 'metrics').mockRejectedValue(new Error('Collector failed'));
+    app.get('/broken-metrics', metricsHandler(registry, createLogger({ format: 'json', write: writeLog })));
+
+    const response = await request(app).get('/broken-metrics');
+
+    expect(response.status).toBe(500);
+    expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({
+      level: 'error',
+      msg: 'Failed to collect metrics',
+      error: { message: 'Collector failed' },
+    });
+  });
+});
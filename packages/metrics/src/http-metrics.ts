@@ -0,0 +1,51 @@
+import { Counter, Histogram, Registry } from 'prom-client';
+import type { Request, RequestHandler } from 'express';
+
+// Requests that match no route share one label instead of one series per URL
+const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * Express middleware counting requests and timing them by method, route and status
+ * Register it before the routers; routes are labelled by their pattern (e.g. /api/posts/:postId),
+ * not the requested URL.
+ *
+ * Metrics:
+ * - http_requests_total{method, route, status}
+ * - http_request_duration_seconds{method, route, status}
+ */
+export function httpMetrics(registry: Registry): RequestHandler {
+  const requests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests handled',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [registry],
+  });
+
+  const duration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency',
+    labelNames: ['method', 'route', 'status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [registry],
+  });
+
+  return (req, res, next) => {
+    const startedAt = process.hrtime.bigint();
+
+    res.on('finish', () => {
+      const labels = { method: req.method, route: routeOf(req), status: String(res.statusCode) };
+      requests.inc(labels);
+      duration.observe(labels, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    });
+
+    next();
+  };
+}
+
+/**
+ * Route pattern the request was matched against, including the router's mount path
+ */
+function routeOf(req: Request): string {
+  const path: unknown = req.route?.path;
+  return typeof path === 'string' ? `${req.baseUrl}${path}` : UNMATCHED_ROUTE;
+}
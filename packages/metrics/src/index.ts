@@ -0,0 +1,11 @@
+/**
+ * @repo/metrics
+ *
+ * Prometheus registry, /metrics endpoint and HTTP request metrics for the Express services
+ */
+
+export { createMetricsRegistry, metricsHandler } from './registry';
+export { httpMetrics } from './http-metrics';
+
+// Re-export prom-client types that services might need
+export type { Registry } from 'prom-client';
@@ -0,0 +1,31 @@
+import { collectDefaultMetrics, Registry } from 'prom-client';
+import type { RequestHandler } from 'express';
+import { createLogger, Logger } from '@repo/logger';
+
+/**
+ * Create a Prometheus registry for a service
+ * Every metric gets a `service` label; Node.js process metrics (CPU, memory, event loop lag, GC) are included.
+ * @param service - Service name, e.g. 'posts-service'
+ */
+export function createMetricsRegistry(service: string): Registry {
+  const registry = new Registry();
+  registry.setDefaultLabels({ service });
+  collectDefaultMetrics({ register: registry });
+  return registry;
+}
+
+/**
+ * Express handler serving the registry in the Prometheus text format (mount on GET /metrics)
+ * @param logger - Logs collection failures. Default: JSON logger named 'Metrics'
+ */
+export function metricsHandler(registry: Registry, logger: Logger = createLogger({ name: 'Metrics' })): RequestHandler {
+  return async (req, res) => {
+    try {
+      res.set('Content-Type', registry.contentType);
+      res.end(await registry.metrics());
+    } catch (error) {
+      logger.error('Failed to collect metrics', { error });
+      res.status(500).end();
+    }
+  };
+}
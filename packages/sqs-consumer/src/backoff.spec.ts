@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBackoffDelay } from './backoff';
+
+describe('calculateBackoffDelay', () => {
+  it('should return the exact strategy delay without jitter', () => {
+    expect(calculateBackoffDelay({ baseDelayMs: 1000, retryCount: 3, strategy: 'exponential' })).toBe(8000);
+    expect(calculateBackoffDelay({ baseDelayMs: 1000, retryCount: 3, strategy: 'fixed' })).toBe(1000);
+  });
+
+  it('should pick a delay between 0 and the strategy delay with full jitter', () => {
+    const input = { baseDelayMs: 1000, retryCount: 3, strategy: 'exponential' as const, jitter: 'full' as const };
+
+    expect(calculateBackoffDelay({ ...input, random: () => 0 })).toBe(0);
+    expect(calculateBackoffDelay({ ...input, random: () => 0.5 })).toBe(4000);
+  });
+
+  it('should keep at least half the strategy delay with equal jitter', () => {
+    const input = { baseDelayMs: 1000, retryCount: 3, strategy: 'exponential' as const, jitter: 'equal' as const };
+
+    expect(calculateBackoffDelay({ ...input, random: () => 0 })).toBe(4000);
+    expect(calculateBackoffDelay({ ...input, random: () => 0.5 })).toBe(6000);
+  });
+
+  it('should pick a delay between base and 3x the previous delay with decorrelated jitter', () => {
+    const input = {
+      baseDelayMs: 1000,
+      retryCount: 3,
+      strategy: 'exponential' as const,
+      jitter: 'decorrelated' as const,
+      previousDelayMs: 2000,
+    };
+
+    expect(calculateBackoffDelay({ ...input, random: () => 0 })).toBe(1000);
+    expect(calculateBackoffDelay({ ...input, random: () => 1 })).toBe(6000);
+  });
+
+  it('should never exceed maxDelayMs', () => {
+    expect(calculateBackoffDelay({
+      baseDelayMs: 1000,
+      retryCount: 20,
+      strategy: 'exponential',
+      jitter: 'decorrelated',
+      previousDelayMs: 1_000_000,
+      maxDelayMs: 30_000,
+      random: () => 1,
+    })).toBe(30_000);
+  });
+});
@@ -0,0 +1,55 @@
+import type { RetryStrategy } from './interfaces/backoff-store';
+
+/**
+ * Jitter applied on top of the retry strategy so retries don't come back in lockstep
+ * - none:         exact strategy delay
+ * - full:         random between 0 and the strategy delay
+ * - equal:        half the strategy delay plus a random half
+ * - decorrelated: random between baseDelay and 3x the previous delay (ignores the strategy)
+ *
+ * See https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
+export interface BackoffDelayInput {
+  baseDelayMs: number;
+  retryCount: number; // Exponent for the exponential strategy
+  strategy: RetryStrategy;
+  jitter?: JitterStrategy; // Default: 'none'
+  previousDelayMs?: number; // Used by decorrelated jitter (default: baseDelayMs)
+  maxDelayMs?: number; // Upper bound for the returned delay
+  random?: () => number; // Default: Math.random (injectable for tests)
+}
+
+/**
+ * Calculate a backoff delay in milliseconds
+ */
+export function calculateBackoffDelay(input: BackoffDelayInput): number {
+  const {
+    baseDelayMs,
+    retryCount,
+    strategy,
+    jitter = 'none',
+    previousDelayMs = baseDelayMs,
+    maxDelayMs = Number.POSITIVE_INFINITY,
+    random = Math.random,
+  } = input;
+
+  const strategyDelayMs = Math.min(
+    strategy === 'fixed' ? baseDelayMs : baseDelayMs * Math.pow(2, retryCount),
+    maxDelayMs
+  );
+
+  switch (jitter) {
+    case 'none':
+      return strategyDelayMs;
+    case 'full':
+      return random() * strategyDelayMs;
+    case 'equal':
+      return strategyDelayMs / 2 + random() * (strategyDelayMs / 2);
+    case 'decorrelated': {
+      const upperMs = Math.max(baseDelayMs, previousDelayMs * 3);
+      return Math.min(baseDelayMs + random() * (upperMs - baseDelayMs), maxDelayMs);
+    }
+  }
+}
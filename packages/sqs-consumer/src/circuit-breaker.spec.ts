@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, type CircuitStateChange } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const record = (breaker: CircuitBreaker, failures: number, successes: number = 0) => {
+    for (let i = 0; i < successes; i++) {
+      breaker.recordSuccess();
+    }
+    for (let i = 0; i < failures; i++) {
+      breaker.recordFailure();
+    }
+  };
+
+  it('should stay closed until the window holds minimumRequests results', () => {
+    const breaker = new CircuitBreaker({ failureRateThreshold: 0.5, minimumRequests: 4 });
+
+    record(breaker, 3);
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe('allowed');
+
+    record(breaker, 1);
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should stay closed while the failure rate is below the threshold', () => {
+    const breaker = new CircuitBreaker({ failureRateThreshold: 0.5, minimumRequests: 4 });
+
+    record(breaker, 3, 4);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', requests: 7 });
+  });
+
+  it('should forget results that fall out of the sliding window', () => {
+    const breaker = new CircuitBreaker({ failureRateThreshold: 0.5, minimumRequests: 4, windowMs: 1000 });
+
+    record(breaker, 3);
+    vi.advanceTimersByTime(1001);
+    record(breaker, 1);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStatus().requests).toBe(1);
+  });
+
+  it('should emit state_change and an event per state on every transition', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 1000 });
+    const changes: CircuitStateChange[] = [];
+    const onOpen = vi.fn();
+    breaker.on('state_change', (change) => changes.push(change));
+    breaker.on('open', onOpen);
+
+    record(breaker, 2);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe('probe');
+    breaker.recordSuccess();
+
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'closed->open',
+      'open->half_open',
+      'half_open->closed',
+    ]);
+    expect(onOpen).toHaveBeenCalledWith(expect.objectContaining({ from: 'closed', to: 'open', failureRate: 1 }));
+  });
+
+  it('should reject while open and let a single probe through once half-open', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 1000 });
+    record(breaker, 2);
+
+    expect(breaker.tryAcquire()).toBe('rejected');
+    expect(breaker.getRemainingOpenMs()).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe('probe');
+    expect(breaker.tryAcquire()).toBe('rejected');
+  });
+
+  it('should re-open when the probe fails', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 1000 });
+    record(breaker, 2);
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRemainingOpenMs()).toBe(1000);
+  });
+
+  it('should close and start a fresh window when the probe succeeds', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 1000 });
+    record(breaker, 2);
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', requests: 0, failureRate: 0 });
+  });
+
+  it('should free the probe slot on releaseProbe or once the probe is overdue', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 1000 });
+    record(breaker, 2);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.tryAcquire()).toBe('probe');
+    breaker.releaseProbe();
+    expect(breaker.tryAcquire()).toBe('probe');
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe('probe');
+  });
+
+  it('should report when the next probe is due while open', () => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 30000 });
+    record(breaker, 2);
+
+    expect(breaker.getStatus()).toEqual({
+      state: 'open',
+      failureRate: 1,
+      requests: 2,
+      openedAt: '2024-01-01T00:00:00.000Z',
+      probeAt: '2024-01-01T00:00:30.000Z',
+    });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new CircuitBreaker({ failureRateThreshold: 0 })).toThrow('failureRateThreshold');
+    expect(() => new CircuitBreaker({ failureRateThreshold: 1.5 })).toThrow('failureRateThreshold');
+    expect(() => new CircuitBreaker({ minimumRequests: 0 })).toThrow('minimumRequests');
+    expect(() => new CircuitBreaker({ openDurationMs: 0 })).toThrow('openDurationMs');
+  });
+});
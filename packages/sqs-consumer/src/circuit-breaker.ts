@@ -0,0 +1,216 @@
+import { EventEmitter } from 'node:events';
+import { createLogger, Logger } from '@repo/logger';
+
+/**
+ * - closed:    normal operation, results are tracked in the sliding window
+ * - open:      too many failures, nothing is let through until openDurationMs has passed
+ * - half_open: a single probe is let through; its result closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Answer to tryAcquire()
+ * - allowed:  circuit is closed
+ * - probe:    circuit is half-open and this caller holds the single probe slot
+ * - rejected: circuit is open, or a probe is already in flight
+ */
+export type CircuitPermit = 'allowed' | 'probe' | 'rejected';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold?: number; // Trip once this share of the results in the window are failures (0-1). Default: 0.5
+  minimumRequests?: number; // Don't trip before the window holds this many results. Default: 10
+  windowMs?: number; // Sliding window of results the failure rate is calculated over. Default: 60000
+  openDurationMs?: number; // Time to stay open before letting a probe through. Default: 30000
+  logger?: Logger; // Default: JSON logger named 'CircuitBreaker'
+}
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  failureRate: number; // Failure rate of the window at the time of the transition
+  at: Date;
+}
+
+/**
+ * Snapshot of the breaker for health checks
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failureRate: number;
+  requests: number; // Results in the current window
+  openedAt?: string; // ISO timestamp, while open or half-open
+  probeAt?: string; // ISO timestamp of the next probe, while open
+}
+
+export interface CircuitBreakerEvents {
+  state_change: [change: CircuitStateChange];
+  open: [change: CircuitStateChange];
+  half_open: [change: CircuitStateChange];
+  closed: [change: CircuitStateChange];
+}
+
+interface WindowResult {
+  at: number;
+  failed: boolean;
+}
+
+/**
+ * Failure-rate circuit breaker over a sliding time window
+ * Emits 'state_change' on every transition, plus an event named after the new state.
+ *
+ * @example
+ * const breaker = new CircuitBreaker({ failureRateThreshold: 0.5, openDurationMs: 30000 });
+ * breaker.on('open', ({ failureRate }) => alert(`Downstream failing (${failureRate})`));
+ */
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEvents> {
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly openDurationMs: number;
+  private readonly logger: Logger;
+  private state: CircuitState = 'closed';
+  private results: WindowResult[] = [];
+  private openedAt?: number;
+  private probeStartedAt?: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowMs = options.windowMs ?? 60000;
+    this.openDurationMs = options.openDurationMs ?? 30000;
+    this.logger = options.logger ?? createLogger({ name: 'CircuitBreaker' });
+
+    if (!(this.failureRateThreshold > 0 && this.failureRateThreshold <= 1)) {
+      throw new Error(`[CircuitBreaker] failureRateThreshold must be between 0 and 1, got ${this.failureRateThreshold}`);
+    }
+    if (!Number.isInteger(this.minimumRequests) || this.minimumRequests < 1) {
+      throw new Error(`[CircuitBreaker] minimumRequests must be a positive integer, got ${this.minimumRequests}`);
+    }
+    if (!(this.windowMs > 0) || !(this.openDurationMs > 0)) {
+      throw new Error('[CircuitBreaker] windowMs and openDurationMs must be positive');
+    }
+  }
+
+  /**
+   * Current state (an open circuit whose open duration has passed becomes half-open)
+   */
+  getState(): CircuitState {
+    this.refresh();
+    return this.state;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const state = this.getState();
+    const { failureRate, requests } = this.windowStats();
+
+    return {
+      state,
+      failureRate,
+      requests,
+      openedAt: this.openedAt === undefined ? undefined : new Date(this.openedAt).toISOString(),
+      probeAt: state === 'open' ? new Date(this.openedAt! + this.openDurationMs).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Ask to let work through
+   * A probe that never reports back (no recordSuccess / recordFailure / releaseProbe)
+   * frees its slot after openDurationMs.
+   */
+  tryAcquire(): CircuitPermit {
+    const state = this.getState();
+
+    if (state === 'closed') {
+      return 'allowed';
+    }
+    if (state === 'open') {
+      return 'rejected';
+    }
+
+    if (this.probeStartedAt !== undefined && Date.now() - this.probeStartedAt < this.openDurationMs) {
+      return 'rejected';
+    }
+    this.probeStartedAt = Date.now();
+    return 'probe';
+  }
+
+  /**
+   * Give the probe slot back without a result (e.g. there was nothing to process)
+   */
+  releaseProbe(): void {
+    this.probeStartedAt = undefined;
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a probe through (0 unless open)
+   */
+  getRemainingOpenMs(): number {
+    if (this.getState() !== 'open') {
+      return 0;
+    }
+    return Math.max(0, this.openedAt! + this.openDurationMs - Date.now());
+  }
+
+  recordSuccess(): void {
+    this.record(false);
+  }
+
+  recordFailure(): void {
+    this.record(true);
+  }
+
+  private record(failed: boolean): void {
+    const state = this.getState();
+    this.results.push({ at: Date.now(), failed });
+
+    if (state === 'half_open') {
+      // The first result while half-open decides
+      this.probeStartedAt = undefined;
+      this.transition(failed ? 'open' : 'closed');
+      return;
+    }
+
+    if (state === 'closed' && failed) {
+      const { failureRate, requests } = this.windowStats();
+      if (requests >= this.minimumRequests && failureRate >= this.failureRateThreshold) {
+        this.transition('open');
+      }
+    }
+  }
+
+  private refresh(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.openDurationMs) {
+      this.transition('half_open');
+    }
+  }
+
+  private windowStats(): { failureRate: number; requests: number } {
+    const windowStart = Date.now() - this.windowMs;
+    this.results = this.results.filter((result) => result.at > windowStart);
+
+    const requests = this.results.length;
+    const failures = this.results.filter((result) => result.failed).length;
+    return { failureRate: requests > 0 ? failures / requests : 0, requests };
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    const change: CircuitStateChange = { from, to, failureRate: this.windowStats().failureRate, at: new Date() };
+
+    this.state = to;
+    if (to === 'open') {
+      this.openedAt = Date.now();
+      this.logger.warn('Circuit opened', { failureRate: change.failureRate, openDurationMs: this.openDurationMs });
+    } else if (to === 'half_open') {
+      this.logger.info('Circuit half-open, letting a probe through');
+    } else {
+      this.openedAt = undefined;
+      this.results = [];
+      this.logger.info('Circuit closed');
+    }
+
+    this.emit('state_change', change);
+    this.emit(to, change);
+  }
+}
@@ -1,8 +1,20 @@
 import { z } from 'zod';
 
+// Accepts real booleans as well as env var strings ('true' / 'false' / '1' / '0' ...)
+const envBoolean = z.union([z.boolean(), z.stringbool()]);
+
+export const doubleBufferConfigSchema = z.object({
+  enabled: envBoolean.default(false),
+  maxSize: z.coerce.number().int().min(1).default(100), // Process the buffer once this many messages are buffered
+  flushIntervalMs: z.coerce.number().positive().default(1000), // ...or once the oldest has waited this long
+});
+
+export type DoubleBufferConfigType = z.infer<typeof doubleBufferConfigSchema>;
+
 export const retryConfigSchema = z.object({
-  enabled: z.boolean().default(true),
+  enabled: envBoolean.default(true),
   strategy: z.enum(['exponential', 'fixed']).default('exponential'),
+  jitter: z.enum(['none', 'full', 'equal', 'decorrelated']).default('none'),
   maxRetries: z.coerce.number().min(0).default(3),
   baseDelay: z.coerce.number().positive().default(1),
   baseDelayUnit: z.enum(['ms', 'sec', 'min', 'hour']).default('sec'),
@@ -11,34 +23,68 @@ export const retryConfigSchema = z.object({
 export type RetryConfigType = z.infer<typeof retryConfigSchema>;
 
 export const idempotencyConfigSchema = z.object({
-  enabled: z.boolean().default(false),
+  enabled: envBoolean.default(false),
   ttlSeconds: z.coerce.number().positive().default(86400), // 24 hours
 });
 
 export type IdempotencyConfigType = z.infer<typeof idempotencyConfigSchema>;
 
 
-export const deadLetterQueueConfigSchema = z.object({
-  enabled: z.boolean().default(false),
-  queueUrl: z.string().optional(),
-});
+export const deadLetterQueueConfigSchema = z
+  .object({
+    enabled: envBoolean.default(false),
+    queueUrl: z.string().optional(),
+  })
+  .refine((config) => !config.enabled || !!config.queueUrl, {
+    message: 'queueUrl is required when the dead letter queue is enabled',
+    path: ['queueUrl'],
+  });
 
 export type DeadLetterQueueConfigType = z.infer<typeof deadLetterQueueConfigSchema>;
 
+export const circuitBreakerConfigSchema = z.object({
+  enabled: envBoolean.default(false),
+  failureRateThreshold: z.coerce.number().gt(0).max(1).default(0.5), // Share of retries in the window that trips the circuit
+  minimumRequests: z.coerce.number().int().min(1).default(10), // Results needed in the window before it can trip
+  windowMs: z.coerce.number().positive().default(60000),
+  openDurationMs: z.coerce.number().positive().default(30000), // Time without receiving before a probe message
+});
+
+export type CircuitBreakerConfigType = z.infer<typeof circuitBreakerConfigSchema>;
+
+export const rateLimitConfigSchema = z
+  .object({
+    enabled: envBoolean.default(false),
+    messagesPerSecond: z.coerce.number().positive().optional(),
+    burst: z.coerce.number().int().min(1).optional(), // Default: messagesPerSecond
+  })
+  .refine((config) => !config.enabled || config.messagesPerSecond !== undefined, {
+    message: 'messagesPerSecond is required when rate limiting is enabled',
+    path: ['messagesPerSecond'],
+  });
+
+export type RateLimitConfigType = z.infer<typeof rateLimitConfigSchema>;
+
 export const sqsQueueConfigSchema = z.object({
   // Basic SQS settings
   queueUrl: z.string().url(),
   maxNumberOfMessages: z.coerce.number().min(1).max(10).default(10),
   waitTimeSeconds: z.coerce.number().min(0).max(20).default(20),
   visibilityTimeout: z.coerce.number().min(0).default(30),
+  fifo: envBoolean.optional(), // Default: queueUrl ends with .fifo
 
   // Processing settings
-  processingMode: z.enum(['parallel', 'serial']).default('serial'),
+  processingMode: z.enum(['parallel', 'serial', 'concurrent']).default('serial'),
+  concurrency: z.coerce.number().int().min(1).default(10), // Used when processingMode is 'concurrent'
+  handlerTimeoutMs: z.coerce.number().positive().optional(), // Abort and retry handlers running longer than this
 
   // Optional feature configurations
+  doubleBuffer: doubleBufferConfigSchema.optional(),
   retry: retryConfigSchema.optional(),
   idempotency: idempotencyConfigSchema.optional(),
   deadLetterQueue: deadLetterQueueConfigSchema.optional(),
+  circuitBreaker: circuitBreakerConfigSchema.optional(),
+  rateLimit: rateLimitConfigSchema.optional(),
 });
 
 export type SQSQueueConfig = z.infer<typeof sqsQueueConfigSchema>;
@@ -59,12 +105,23 @@ export function createSQSQueueConfig(
     maxNumberOfMessages: getEnvVar('MAX_MESSAGES'),
     waitTimeSeconds: getEnvVar('WAIT_TIME_SECONDS'),
     visibilityTimeout: getEnvVar('VISIBILITY_TIMEOUT'),
+    fifo: getEnvVar('FIFO'),
     processingMode: getEnvVar('PROCESSING_MODE'),
+    concurrency: getEnvVar('CONCURRENCY'),
+    handlerTimeoutMs: getEnvVar('HANDLER_TIMEOUT_MS'),
+
+    // Double buffer config
+    doubleBuffer: getEnvVar('DOUBLE_BUFFER_ENABLED') ? {
+      enabled: getEnvVar('DOUBLE_BUFFER_ENABLED'),
+      maxSize: getEnvVar('DOUBLE_BUFFER_MAX_SIZE'),
+      flushIntervalMs: getEnvVar('DOUBLE_BUFFER_FLUSH_INTERVAL_MS'),
+    } : undefined,
 
     // Retry config
     retry: getEnvVar('RETRY_ENABLED') ? {
       enabled: getEnvVar('RETRY_ENABLED'),
       strategy: getEnvVar('RETRY_STRATEGY'),
+      jitter: getEnvVar('RETRY_JITTER'),
       maxRetries: getEnvVar('RETRY_MAX_RETRIES'),
       baseDelay: getEnvVar('RETRY_BASE_DELAY'),
       baseDelayUnit: getEnvVar('RETRY_BASE_DELAY_UNIT'),
@@ -81,6 +138,22 @@ export function createSQSQueueConfig(
       enabled: getEnvVar('DLQ_ENABLED'),
       queueUrl: getEnvVar('DLQ_QUEUE_URL'),
     } : undefined,
+
+    // Circuit breaker config
+    circuitBreaker: getEnvVar('CIRCUIT_BREAKER_ENABLED') ? {
+      enabled: getEnvVar('CIRCUIT_BREAKER_ENABLED'),
+      failureRateThreshold: getEnvVar('CIRCUIT_BREAKER_FAILURE_RATE_THRESHOLD'),
+      minimumRequests: getEnvVar('CIRCUIT_BREAKER_MINIMUM_REQUESTS'),
+      windowMs: getEnvVar('CIRCUIT_BREAKER_WINDOW_MS'),
+      openDurationMs: getEnvVar('CIRCUIT_BREAKER_OPEN_DURATION_MS'),
+    } : undefined,
+
+    // Rate limit config
+    rateLimit: getEnvVar('RATE_LIMIT_ENABLED') ? {
+      enabled: getEnvVar('RATE_LIMIT_ENABLED'),
+      messagesPerSecond: getEnvVar('RATE_LIMIT_MESSAGES_PER_SECOND'),
+      burst: getEnvVar('RATE_LIMIT_BURST'),
+    } : undefined,
   };
 
   
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { bodyFieldsKey, contentHashKey, messageAttributeKey, messageIdKey } from './idempotency-keys';
+
+describe('Idempotency key extractors', () => {
+  const message = {
+    MessageId: 'msg-1',
+    Body: JSON.stringify({ eventType: 'POST_CREATED', postId: '123', userId: '42' }),
+    MessageAttributes: {
+      eventId: { DataType: 'String', StringValue: 'evt-1' },
+    },
+  };
+
+  it('should key on the MessageId', () => {
+    expect(messageIdKey()(message)).toBe('msg-1');
+  });
+
+  it('should key on body fields', () => {
+    expect(bodyFieldsKey('eventType', 'postId')(message)).toBe('POST_CREATED:123');
+  });
+
+  it('should fall back when the body is not JSON or a field is missing', () => {
+    expect(bodyFieldsKey('postId')({ ...message, Body: 'not json' })).toBeUndefined();
+    expect(bodyFieldsKey('commentId')(message)).toBeUndefined();
+  });
+
+  it('should key on a message attribute', () => {
+    expect(messageAttributeKey('eventId')(message)).toBe('evt-1');
+    expect(messageAttributeKey('missing')(message)).toBeUndefined();
+  });
+
+  it('should give identical bodies the same content hash', () => {
+    const extractor = contentHashKey();
+
+    expect(extractor({ MessageId: 'msg-a', Body: message.Body })).toBe(extractor({ MessageId: 'msg-b', Body: message.Body }));
+    expect(extractor({ MessageId: 'msg-c', Body: '{}' })).not.toBe(extractor(message));
+  });
+});
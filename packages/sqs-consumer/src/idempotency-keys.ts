@@ -0,0 +1,50 @@
+import { createHash } from 'node:crypto';
+import type { Message } from '@aws-sdk/client-sqs';
+
+/**
+ * Derives the idempotency key for a message
+ * Return undefined to fall back to the SQS MessageId
+ */
+export type IdempotencyKeyExtractor = (message: Message) => string | undefined;
+
+/**
+ * Key on the SQS MessageId (default)
+ * Only deduplicates redeliveries of the same message, not re-publishes of the same event
+ */
+export const messageIdKey = (): IdempotencyKeyExtractor => (message) => message.MessageId;
+
+/**
+ * Key on fields of the JSON body, e.g. bodyFieldsKey('eventType', 'postId') -> 'POST_CREATED:123'
+ * Falls back to the MessageId if the body is not JSON or a field is missing
+ */
+export const bodyFieldsKey = (...fields: string[]): IdempotencyKeyExtractor => (message) => {
+  if (!message.Body) {
+    return undefined;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(message.Body);
+  } catch {
+    return undefined;
+  }
+
+  const values = fields.map((field) => body?.[field]);
+  if (values.some((value) => value === undefined || value === null)) {
+    return undefined;
+  }
+
+  return values.map(String).join(':');
+};
+
+/**
+ * Key on a string message attribute set by the publisher (e.g. 'eventId')
+ */
+export const messageAttributeKey = (name: string): IdempotencyKeyExtractor => (message) =>
+  message.MessageAttributes?.[name]?.StringValue;
+
+/**
+ * Key on a hash of the message body - identical payloads are processed once
+ */
+export const contentHashKey = (algorithm: string = 'sha256'): IdempotencyKeyExtractor => (message) =>
+  message.Body === undefined ? undefined : createHash(algorithm).update(message.Body).digest('hex');
@@ -6,26 +6,75 @@
 
 // Export SQS Consumer
 export { SQSConsumer } from './sqs-consumer';
-export type { SQSConsumerConfig, SQSConsumerOptions, SQSConfig, MessageHandler, MessageMetadata, MessageResult } from './sqs-consumer';
+export type { SQSConsumerConfig, SQSConsumerOptions, SQSConsumerDependencies, SQSConsumerEvents, BatchSummary, ConsumerMetrics, RateLimitOptions, SQSConfig, MessageHandler, BatchMessageHandler, BatchItem, BatchMessageResults, MessageMetadata, MessageResult, DeadLetterEnvelope } from './sqs-consumer';
+export type { MessageHeartbeat } from './visibility-heartbeat';
+
+// Export Tracing
+export { extractTraceContext } from './tracing';
+
+// Export Prometheus Metrics
+export { collectConsumerMetrics } from './prometheus';
+export type { ConsumerPrometheusOptions } from './prometheus';
+
+// Export Middleware
+export { composeMiddleware, jsonBody, validateBody, timeout, structuredLogging, mapErrors } from './middleware';
+export type { Middleware, MessageContext, NextFunction } from './middleware';
+
+// Export Circuit Breaker
+export { CircuitBreaker } from './circuit-breaker';
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  CircuitBreakerEvents,
+  CircuitState,
+  CircuitStateChange,
+  CircuitPermit,
+} from './circuit-breaker';
+
+// Export Message Router
+export { MessageRouter } from './message-router';
+export type {
+  EventHandler,
+  EventContext,
+  EventBatchItem,
+  EventRoute,
+  EventRoutes,
+  MessageRouterOptions,
+  UnknownEventPolicy,
+} from './message-router';
 
 // Export Idempotency
-export type { IdempotencyStore } from './interfaces/idempotency-store';
+export type { IdempotencyStore, IdempotencyAcquireResult } from './interfaces/idempotency-store';
 export { InMemoryIdempotencyStore } from './stores/in-memory-idempotency-store';
 export { RedisIdempotencyStore } from './stores/redis-idempotency-store';
+export { PostgresIdempotencyStore } from './stores/postgres-idempotency-store';
+export type { PostgresTransaction, TransactionalProcessResult, BatchTransactionalProcessResult } from './stores/postgres-idempotency-store';
+export { messageIdKey, bodyFieldsKey, messageAttributeKey, contentHashKey } from './idempotency-keys';
+export type { IdempotencyKeyExtractor } from './idempotency-keys';
 
 // Export Backoff
 export type { BackoffStore, RetryStrategy } from './interfaces/backoff-store';
 export { InMemoryBackoffStore } from './stores/in-memory-backoff-store';
 export { RedisBackoffStore } from './stores/redis-backoff-store';
 export type { TimeUnit } from './stores/in-memory-backoff-store';
+export { calculateBackoffDelay } from './backoff';
+export type { JitterStrategy, BackoffDelayInput } from './backoff';
+
+// Export Rate Limiting
+export type { RateLimitStore, RateLimitGrant, TokenBucket } from './interfaces/rate-limit-store';
+export { InMemoryRateLimitStore } from './stores/in-memory-rate-limit-store';
+export { RedisRateLimitStore } from './stores/redis-rate-limit-store';
 
 // Export Config and Validator
 export { createSQSQueueConfig } from './config';
 export type {
   SQSQueueConfig,
+  DoubleBufferConfigType,
   RetryConfigType,
   IdempotencyConfigType,
   DeadLetterQueueConfigType,
+  CircuitBreakerConfigType,
+  RateLimitConfigType,
 } from './config';
 
 // Export Exceptions
@@ -1,13 +1,23 @@
+import type { JitterStrategy } from '../backoff';
+
 export type RetryStrategy = 'exponential' | 'fixed';
 
 export interface BackoffStore {
 
   canProcess(messageId: string): Promise<boolean>;
 
-  recordFailure(messageId: string, baseDelayMs?: number, strategy?: RetryStrategy): Promise<number>;
+  /**
+   * Record a failed attempt and schedule the next one
+   * @returns Timestamp (ms) after which the message may be retried
+   */
+  recordFailure(
+    messageId: string,
+    baseDelayMs?: number,
+    strategy?: RetryStrategy,
+    jitter?: JitterStrategy
+  ): Promise<number>;
 
   getRetryCount(messageId: string): Promise<number>;
 
   clear(messageId: string): Promise<void>;
 }
-
@@ -1,3 +1,11 @@
+/**
+ * Outcome of trying to acquire the processing lock for a message
+ * - acquired:    caller now owns the lock and must complete() or release() it
+ * - in_progress: another consumer holds the lock
+ * - processed:   the message was already processed
+ */
+export type IdempotencyAcquireResult = 'acquired' | 'in_progress' | 'processed';
+
 /**
  * Interface for idempotency store
  * Prevents duplicate message processing
@@ -23,5 +31,33 @@ export interface IdempotencyStore {
    * @param messageId - Unique message identifier
    */
   remove(messageId: string): Promise<void>;
-}
 
+  /**
+   * Atomically take the in-progress lock for a message unless it is locked or processed
+   * @param messageId - Unique message identifier
+   * @param leaseSeconds - How long the lock is held if never completed/released (e.g. consumer crash)
+   */
+  acquire(messageId: string, leaseSeconds: number): Promise<IdempotencyAcquireResult>;
+
+  /**
+   * Extend a held lock while the message is still being handled (called on each visibility heartbeat)
+   * Does nothing if the lock is no longer held by this store
+   * @param messageId - Unique message identifier
+   * @param leaseSeconds - New lease, counted from now
+   */
+  renew(messageId: string, leaseSeconds: number): Promise<void>;
+
+  /**
+   * Turn a held lock into a processed record
+   * @param messageId - Unique message identifier
+   * @param ttlSeconds - Time to live in seconds (how long to remember this message)
+   */
+  complete(messageId: string, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Drop a held lock so the message can be processed again (e.g. on retry)
+   * Does nothing if the lock is no longer held by this store
+   * @param messageId - Unique message identifier
+   */
+  release(messageId: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+/**
+ * Size and refill rate of a token bucket
+ */
+export interface TokenBucket {
+  capacity: number; // Max tokens the bucket holds (burst size)
+  refillPerSecond: number;
+}
+
+export interface RateLimitGrant {
+  granted: number; // Tokens taken, between 0 and the requested amount
+  retryAfterMs: number; // When fewer tokens than requested were granted: time until the next token (0 otherwise)
+}
+
+/**
+ * Keeps token bucket state for rate limiting
+ * Buckets are created full on first use; stores shared by several consumers give them one budget.
+ */
+export interface RateLimitStore {
+  /**
+   * Take up to `requested` tokens from the bucket
+   * @param key - Bucket name
+   * @param requested - Tokens wanted (one per message)
+   * @param bucket - Capacity and refill rate of the bucket
+   */
+  take(key: string, requested: number, bucket: TokenBucket): Promise<RateLimitGrant>;
+
+  /**
+   * Put back tokens that were taken but not used (e.g. a receive returned fewer messages)
+   * The bucket never grows past its capacity.
+   * @param key - Bucket name
+   * @param tokens - Tokens to return
+   * @param bucket - Capacity and refill rate of the bucket
+   */
+  refund(key: string, tokens: number, bucket: TokenBucket): Promise<void>;
+}
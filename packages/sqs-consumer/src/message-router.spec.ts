@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { createLogger } from '@repo/logger';
+import { FailureException, RetryException } from './exceptions';
+import { MessageRouter, type EventHandler } from './message-router';
+import type { MessageMetadata } from './sqs-consumer';
+
+interface PostCreated {
+  eventType: 'POST_CREATED';
+  postId: string;
+}
+
+interface PostDeleted {
+  eventType: 'POST_DELETED';
+  postId: string;
+}
+
+const postCreatedSchema = z.object({ eventType: z.literal('POST_CREATED'), postId: z.string() });
+const postDeletedSchema = z.object({ eventType: z.literal('POST_DELETED'), postId: z.string() });
+
+describe('MessageRouter', () => {
+  const metadata = { retryCount: 1, isLastAttempt: false, idempotencyKey: 'key' } as MessageMetadata;
+
+  const message = (id: string, body: unknown) => ({
+    MessageId: id,
+    Body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+  const createRouter = (options?: ConstructorParameters<typeof MessageRouter>[1]) => {
+    const created: EventHandler<PostCreated> = { handle: vi.fn().mockResolvedValue({ status: 'success' }) };
+    const deleted: EventHandler<PostDeleted> = { handle: vi.fn().mockResolvedValue({ status: 'success' }) };
+    const router = new MessageRouter(
+      {
+        POST_CREATED: { schema: postCreatedSchema, handler: created },
+        POST_DELETED: { schema: postDeletedSchema, handler: deleted },
+      },
+      options
+    );
+    return { router, created, deleted };
+  };
+
+  it('should dispatch the validated event to the handler for its eventType', async () => {
+    const { router, created, deleted } = createRouter();
+    const msg = message('msg-1', { eventType: 'POST_CREATED', postId: '123', extra: 'dropped' });
+
+    const result = await router.handle(msg, metadata);
+
+    expect(result).toEqual({ status: 'success' });
+    expect(created.handle).toHaveBeenCalledWith(
+      { eventType: 'POST_CREATED', postId: '123' },
+      { message: msg, metadata }
+    );
+    expect(deleted.handle).not.toHaveBeenCalled();
+  });
+
+  it('should fail messages that are not JSON or do not match the schema', async () => {
+    const { router, created } = createRouter();
+
+    expect(await router.handle(message('msg-1', 'not json'), metadata)).toEqual({
+      status: 'fail',
+      reason: 'Invalid JSON in message body',
+    });
+    expect(await router.handle(message('msg-2', { postId: '123' }), metadata)).toEqual({
+      status: 'fail',
+      reason: 'Missing eventType in message body',
+    });
+    expect(await router.handle(message('msg-3', { eventType: 'POST_CREATED', postId: 123 }), metadata)).toMatchObject({
+      status: 'fail',
+      reason: expect.stringContaining('Invalid POST_CREATED event: postId'),
+    });
+    expect(created.handle).not.toHaveBeenCalled();
+  });
+
+  it('should apply the unknown event policy', async () => {
+    const unknown = message('msg-1', { eventType: 'COMMENT_CREATED' });
+
+    expect(await createRouter().router.handle(unknown, metadata)).toEqual({
+      status: 'fail',
+      reason: 'No handler for event type COMMENT_CREATED',
+      deadLetter: false,
+    });
+    expect(await createRouter({ unknownEventPolicy: 'dlq' }).router.handle(unknown, metadata)).toEqual({
+      status: 'fail',
+      reason: 'No handler for event type COMMENT_CREATED',
+    });
+    expect(await createRouter({ unknownEventPolicy: 'skip' }).router.handle(unknown, metadata)).toEqual({
+      status: 'success',
+    });
+  });
+
+  it('should not treat inherited object properties as routes', async () => {
+    const { router } = createRouter();
+
+    expect(await router.handle(message('msg-1', { eventType: 'toString' }), metadata)).toMatchObject({
+      status: 'fail',
+      reason: 'No handler for event type toString',
+    });
+  });
+
+  it('should group a batch by eventType and use handleBatch where the handler has it', async () => {
+    const { router, created, deleted } = createRouter();
+    created.handleBatch = vi.fn().mockResolvedValue(new Map([['msg-3', { status: 'retry', reason: 'DB busy' }]]));
+    vi.mocked(deleted.handle).mockResolvedValue({ status: 'fail', reason: 'Gone' });
+
+    const results = await router.asBatchHandler().handleBatch([
+      { message: message('msg-1', { eventType: 'POST_CREATED', postId: '1' }), metadata },
+      { message: message('msg-2', { eventType: 'POST_DELETED', postId: '2' }), metadata },
+      { message: message('msg-3', { eventType: 'POST_CREATED', postId: '3' }), metadata },
+      { message: message('msg-4', 'not json'), metadata },
+    ]);
+
+    expect(created.handleBatch).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(created.handleBatch!).mock.calls[0]![0].map(({ event }) => event.postId)).toEqual(['1', '3']);
+    expect(created.handle).not.toHaveBeenCalled();
+    expect(deleted.handle).toHaveBeenCalledTimes(1);
+
+    expect(results).toEqual(new Map([
+      ['msg-4', { status: 'fail', reason: 'Invalid JSON in message body' }],
+      ['msg-3', { status: 'retry', reason: 'DB busy' }],
+      ['msg-2', { status: 'fail', reason: 'Gone' }],
+    ]));
+  });
+
+  it('should turn errors thrown by the handlers of a batch into results', async () => {
+    const writeLog = vi.fn();
+    const { router, created, deleted } = createRouter({ logger: createLogger({ format: 'json', write: writeLog }) });
+    created.handleBatch = vi.fn().mockRejectedValue(new Error('Connection reset'));
+    vi.mocked(deleted.handle)
+      .mockRejectedValueOnce(new RetryException('DB busy'))
+      .mockRejectedValueOnce(new FailureException('Gone'));
+
+    const results = await router.asBatchHandler().handleBatch([
+      { message: message('msg-1', { eventType: 'POST_CREATED', postId: '1' }), metadata },
+      { message: message('msg-2', { eventType: 'POST_DELETED', postId: '2' }), metadata },
+      { message: message('msg-3', { eventType: 'POST_CREATED', postId: '3' }), metadata },
+      { message: message('msg-4', { eventType: 'POST_DELETED', postId: '4' }), metadata },
+    ]);
+
+    expect(results).toEqual(new Map([
+      ['msg-1', expect.objectContaining({ status: 'retry', reason: 'Connection reset' })],
+      ['msg-3', expect.objectContaining({ status: 'retry', reason: 'Connection reset' })],
+      ['msg-2', expect.objectContaining({ status: 'retry', reason: 'DB busy' })],
+      ['msg-4', expect.objectContaining({ status: 'fail', reason: 'Gone' })],
+    ]));
+    expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({
+      level: 'error',
+      msg: 'Error handling event',
+      eventType: 'POST_CREATED',
+    });
+  });
+});
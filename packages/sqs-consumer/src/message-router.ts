@@ -0,0 +1,233 @@
+import type { Message } from '@aws-sdk/client-sqs';
+import type { z } from 'zod';
+import { createLogger, Logger } from '@repo/logger';
+import type {
+  BatchItem,
+  BatchMessageHandler,
+  BatchMessageResults,
+  MessageHandler,
+  MessageMetadata,
+  MessageResult,
+} from './sqs-consumer';
+import { FailureException, RetryException } from './exceptions';
+import { formatZodIssues } from './middleware';
+
+/**
+ * What the router does with a message whose eventType has no route
+ * - fail: permanent failure, deleted without being dead-lettered
+ * - skip: acknowledged and deleted
+ * - dlq:  permanent failure, dead-lettered (if the consumer has a DLQ)
+ */
+export type UnknownEventPolicy = 'fail' | 'skip' | 'dlq';
+
+export interface EventContext {
+  message: Message;
+  metadata: MessageMetadata;
+}
+
+export interface EventBatchItem<E> {
+  event: E;
+  ctx: EventContext;
+}
+
+/**
+ * Handler for one event type
+ * Throwing works the same as in a MessageHandler (RetryException / FailureException / other errors).
+ */
+export interface EventHandler<E> {
+  handle(event: E, ctx: EventContext): Promise<MessageResult>;
+
+  /**
+   * Optional: handle every event of this type in a batch at once (used by MessageRouter.asBatchHandler)
+   * Results are keyed by ctx.message.MessageId; missing entries are treated as successful.
+   */
+  handleBatch?(batch: EventBatchItem<E>[]): Promise<BatchMessageResults>;
+}
+
+export interface EventRoute<E> {
+  schema: z.ZodType<E>; // Validates the parsed body before it reaches the handler
+  handler: EventHandler<E>;
+}
+
+/**
+ * Routes keyed by eventType
+ */
+export type EventRoutes<Events extends Record<string, unknown>> = {
+  [K in keyof Events]: EventRoute<Events[K]>;
+};
+
+export interface MessageRouterOptions {
+  unknownEventPolicy?: UnknownEventPolicy; // Default: 'fail'
+  eventTypeField?: string; // Body field holding the event type. Default: 'eventType'
+  logger?: Logger; // Default: JSON logger named 'MessageRouter'
+}
+
+type DecodedMessage =
+  | { ok: true; eventType: string; event: unknown }
+  | { ok: false; result: MessageResult };
+
+/**
+ * MessageHandler that parses the body once, validates it against the schema of its
+ * eventType and dispatches it to that type's handler
+ *
+ * @example
+ * const router = new MessageRouter({
+ *   POST_CREATED: { schema: postCreatedEventSchema, handler: new PostCreatedHandler() },
+ * });
+ */
+export class MessageRouter<Events extends Record<string, unknown> = Record<string, unknown>>
+  implements MessageHandler
+{
+  private readonly unknownEventPolicy: UnknownEventPolicy;
+  private readonly eventTypeField: string;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly routes: EventRoutes<Events>,
+    options?: MessageRouterOptions
+  ) {
+    this.unknownEventPolicy = options?.unknownEventPolicy ?? 'fail';
+    this.eventTypeField = options?.eventTypeField ?? 'eventType';
+    this.logger = options?.logger ?? createLogger({ name: 'MessageRouter' });
+  }
+
+  async handle(message: Message, metadata: MessageMetadata): Promise<MessageResult> {
+    const decoded = this.decode(message);
+    if (!decoded.ok) {
+      return decoded.result;
+    }
+
+    return this.getRoute(decoded.eventType).handler.handle(decoded.event, { message, metadata });
+  }
+
+  /**
+   * Batch variant of this router for consumers that should hand over whole batches
+   * Messages are grouped by eventType; routes whose handler implements handleBatch get their
+   * group in one call, the others are handled one by one. A handler that throws only sets the
+   * results of its own messages (RetryException: retry, FailureException: fail, other errors: retry).
+   */
+  asBatchHandler(): BatchMessageHandler {
+    return {
+      handleBatch: (batch) => this.handleBatch(batch),
+    };
+  }
+
+  private async handleBatch(batch: BatchItem[]): Promise<BatchMessageResults> {
+    const results: BatchMessageResults = new Map();
+    const groups = new Map<string, EventBatchItem<unknown>[]>();
+
+    for (const { message, metadata } of batch) {
+      const decoded = this.decode(message);
+      if (!decoded.ok) {
+        results.set(message.MessageId || '', decoded.result);
+        continue;
+      }
+
+      const group = groups.get(decoded.eventType) || [];
+      group.push({ event: decoded.event, ctx: { message, metadata } });
+      groups.set(decoded.eventType, group);
+    }
+
+    for (const [eventType, group] of groups) {
+      const handler = this.getRoute(eventType).handler;
+
+      if (handler.handleBatch) {
+        try {
+          for (const [messageId, result] of await handler.handleBatch(group)) {
+            results.set(messageId, result);
+          }
+        } catch (error) {
+          // The route's batch failed as a whole - every message of it gets the same result
+          const result = this.errorToResult(eventType, error);
+          for (const { ctx } of group) {
+            results.set(ctx.message.MessageId || '', result);
+          }
+        }
+        continue;
+      }
+
+      for (const { event, ctx } of group) {
+        try {
+          results.set(ctx.message.MessageId || '', await handler.handle(event, ctx));
+        } catch (error) {
+          results.set(ctx.message.MessageId || '', this.errorToResult(eventType, error, ctx.message.MessageId));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Parse the body and validate it against the schema of its eventType
+   */
+  private decode(message: Message): DecodedMessage {
+    if (!message.Body) {
+      return { ok: false, result: { status: 'fail', reason: 'Message body is empty' } };
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(message.Body);
+    } catch {
+      return { ok: false, result: { status: 'fail', reason: 'Invalid JSON in message body' } };
+    }
+
+    const eventType = (body as Record<string, unknown> | null)?.[this.eventTypeField];
+    if (typeof eventType !== 'string') {
+      return { ok: false, result: { status: 'fail', reason: `Missing ${this.eventTypeField} in message body` } };
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(this.routes, eventType)) {
+      return { ok: false, result: this.unknownEventResult(message, eventType) };
+    }
+
+    const parsed = this.getRoute(eventType).schema.safeParse(body);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        result: { status: 'fail', reason: `Invalid ${eventType} event: ${formatZodIssues(parsed.error)}` },
+      };
+    }
+
+    return { ok: true, eventType, event: parsed.data };
+  }
+
+  /**
+   * Map an error thrown by a handler of a batch to a result, so it doesn't discard the results of the other routes
+   */
+  private errorToResult(eventType: string, error: unknown, messageId?: string): MessageResult {
+    if (error instanceof RetryException) {
+      return { status: 'retry', reason: error.message, error };
+    }
+
+    if (error instanceof FailureException) {
+      return { status: 'fail', reason: error.message, error };
+    }
+
+    this.logger.error('Error handling event', { eventType, messageId, error });
+    return {
+      status: 'retry',
+      reason: error instanceof Error ? error.message : String(error),
+      error: error instanceof Error ? error : undefined,
+    };
+  }
+
+  private unknownEventResult(message: Message, eventType: string): MessageResult {
+    const reason = `No handler for event type ${eventType}`;
+
+    switch (this.unknownEventPolicy) {
+      case 'skip':
+        this.logger.info('Skipping message', { messageId: message.MessageId, reason });
+        return { status: 'success' };
+      case 'dlq':
+        return { status: 'fail', reason };
+      case 'fail':
+        return { status: 'fail', reason, deadLetter: false };
+    }
+  }
+
+  private getRoute(eventType: string): EventRoute<unknown> {
+    return this.routes[eventType] as EventRoute<unknown>;
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  composeMiddleware,
+  jsonBody,
+  validateBody,
+  timeout,
+  structuredLogging,
+  mapErrors,
+  type MessageContext,
+  type Middleware,
+} from './middleware';
+import { createLogger } from '@repo/logger';
+import { RetryException, FailureException } from './exceptions';
+import type { MessageMetadata } from './sqs-consumer';
+
+describe('Middleware', () => {
+  const createContext = (body?: string): MessageContext => ({
+    message: { MessageId: 'msg-1', Body: body },
+    metadata: { retryCount: 2, isLastAttempt: false, idempotencyKey: 'msg-1' } as MessageMetadata,
+  });
+
+  const success = vi.fn().mockResolvedValue({ status: 'success' });
+
+  it('should run middlewares in order around the handler', async () => {
+    const events: string[] = [];
+    const trace = (name: string): Middleware => async (_ctx, next) => {
+      events.push(`before:${name}`);
+      const result = await next();
+      events.push(`after:${name}`);
+      return result;
+    };
+
+    const run = composeMiddleware([trace('a'), trace('b')]);
+    const result = await run(createContext('{}'), async () => {
+      events.push('handler');
+      return { status: 'success' };
+    });
+
+    expect(result).toEqual({ status: 'success' });
+    expect(events).toEqual(['before:a', 'before:b', 'handler', 'after:b', 'after:a']);
+  });
+
+  it('should let a middleware short-circuit the pipeline', async () => {
+    const handler = vi.fn();
+    const run = composeMiddleware([async () => ({ status: 'fail', reason: 'Rejected' })]);
+
+    expect(await run(createContext('{}'), handler)).toEqual({ status: 'fail', reason: 'Rejected' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject calling next() twice', async () => {
+    const run = composeMiddleware([
+      async (_ctx, next) => {
+        await next();
+        return next();
+      },
+    ]);
+
+    await expect(run(createContext('{}'), success)).rejects.toThrow('next() called multiple times');
+  });
+
+  it('should parse the JSON body into metadata.body', async () => {
+    const ctx = createContext(JSON.stringify({ postId: '123' }));
+
+    await composeMiddleware([jsonBody()])(ctx, success);
+    expect(ctx.metadata.body).toEqual({ postId: '123' });
+
+    expect(await composeMiddleware([jsonBody()])(createContext(), success)).toEqual({
+      status: 'fail',
+      reason: 'Message body is empty',
+    });
+    expect(await composeMiddleware([jsonBody()])(createContext('not json'), success)).toEqual({
+      status: 'fail',
+      reason: 'Invalid JSON in message body',
+    });
+  });
+
+  it('should validate the body against a zod schema', async () => {
+    const run = composeMiddleware([jsonBody(), validateBody(z.object({ postId: z.string() }))]);
+
+    const ctx = createContext(JSON.stringify({ postId: '123', extra: true }));
+    expect(await run(ctx, success)).toEqual({ status: 'success' });
+    expect(ctx.metadata.body).toEqual({ postId: '123' });
+
+    expect(await run(createContext(JSON.stringify({ postId: 123 })), success)).toMatchObject({
+      status: 'fail',
+      reason: expect.stringContaining('Invalid message body: postId'),
+    });
+  });
+
+  it('should retry when the handler takes longer than the timeout', async () => {
+    const run = composeMiddleware([timeout(20)]);
+    const slow = () => new Promise<never>(() => undefined);
+
+    expect(await run(createContext('{}'), slow)).toEqual({
+      status: 'retry',
+      reason: 'Handler timed out after 20ms',
+    });
+  });
+
+  it('should log one line per message to the message logger', async () => {
+    const write = vi.fn();
+    const ctx = createContext('{}');
+    ctx.metadata.logger = createLogger({ format: 'json', write }).child({ messageId: 'msg-1' });
+    const run = composeMiddleware([structuredLogging()]);
+
+    await run(ctx, async () => ({ status: 'retry', reason: 'DB busy' }));
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(write.mock.calls[0]![0])).toMatchObject({
+      level: 'warn',
+      msg: 'Message handled',
+      messageId: 'msg-1',
+      retryCount: 2,
+      isLastAttempt: false,
+      status: 'retry',
+      reason: 'DB busy',
+    });
+  });
+
+  it('should log to the given logger with the messageId', async () => {
+    const write = vi.fn();
+    const run = composeMiddleware([structuredLogging(createLogger({ name: 'audit', format: 'json', write }))]);
+
+    await expect(
+      run(createContext('{}'), async () => {
+        throw new Error('Connection reset');
+      })
+    ).rejects.toThrow('Connection reset');
+
+    expect(JSON.parse(write.mock.calls[0]![0])).toMatchObject({
+      level: 'error',
+      name: 'audit',
+      msg: 'Message handler threw',
+      messageId: 'msg-1',
+      error: { message: 'Connection reset' },
+    });
+  });
+
+  it('should map thrown errors to results', async () => {
+    const run = composeMiddleware([
+      mapErrors((error) => (error instanceof SyntaxError ? { status: 'fail', reason: 'Bad payload' } : undefined)),
+    ]);
+    const throwing = (error: Error) => async () => {
+      throw error;
+    };
+
+    expect(await run(createContext('{}'), throwing(new RetryException('Later')))).toMatchObject({ status: 'retry', reason: 'Later' });
+    expect(await run(createContext('{}'), throwing(new FailureException('Never')))).toMatchObject({ status: 'fail', reason: 'Never' });
+    expect(await run(createContext('{}'), throwing(new SyntaxError('x')))).toEqual({ status: 'fail', reason: 'Bad payload' });
+    await expect(run(createContext('{}'), throwing(new Error('Unmapped')))).rejects.toThrow('Unmapped');
+  });
+});
@@ -0,0 +1,154 @@
+import type { Message } from '@aws-sdk/client-sqs';
+import type { z } from 'zod';
+import type { Logger } from '@repo/logger';
+import { RetryException, FailureException } from './exceptions';
+import type { MessageMetadata, MessageResult } from './sqs-consumer';
+
+export interface MessageContext {
+  message: Message;
+  metadata: MessageMetadata; // Passed on to the handler - middlewares can fill in metadata.body
+}
+
+export type NextFunction = () => Promise<MessageResult>;
+
+/**
+ * Koa-style middleware around a message handler
+ * Call next() to continue down the pipeline, or return a result to short-circuit it.
+ */
+export type Middleware = (ctx: MessageContext, next: NextFunction) => Promise<MessageResult>;
+
+/**
+ * Compose middlewares into one function that runs them in order, ending with the handler
+ */
+export function composeMiddleware(
+  middlewares: Middleware[]
+): (ctx: MessageContext, handler: NextFunction) => Promise<MessageResult> {
+  return (ctx, handler) => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<MessageResult> => {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times');
+      }
+      lastIndex = index;
+
+      const middleware = middlewares[index];
+      if (!middleware) {
+        return handler();
+      }
+      return middleware(ctx, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
+
+/**
+ * Format zod issues as 'path: message, ...'
+ */
+export function formatZodIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join(', ');
+}
+
+/**
+ * Parse the JSON body into metadata.body
+ * Empty or malformed bodies are permanent failures.
+ */
+export const jsonBody = (): Middleware => async (ctx, next) => {
+  if (!ctx.message.Body) {
+    return { status: 'fail', reason: 'Message body is empty' };
+  }
+
+  try {
+    ctx.metadata.body = JSON.parse(ctx.message.Body);
+  } catch {
+    return { status: 'fail', reason: 'Invalid JSON in message body' };
+  }
+
+  return next();
+};
+
+/**
+ * Validate metadata.body against a zod schema (use after jsonBody) and replace it with the parsed value
+ * Bodies that don't match are permanent failures.
+ */
+export const validateBody = (schema: z.ZodType): Middleware => async (ctx, next) => {
+  const parsed = schema.safeParse(ctx.metadata.body);
+  if (!parsed.success) {
+    return { status: 'fail', reason: `Invalid message body: ${formatZodIssues(parsed.error)}` };
+  }
+
+  ctx.metadata.body = parsed.data;
+  return next();
+};
+
+/**
+ * Retry the message if the rest of the pipeline takes longer than timeoutMs
+ * The handler is not cancelled - its eventual result is ignored.
+ */
+export const timeout = (timeoutMs: number): Middleware => async (_ctx, next) => {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<MessageResult>((resolve) => {
+    timer = setTimeout(() => resolve({ status: 'retry', reason: `Handler timed out after ${timeoutMs}ms` }), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([next(), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Log one line per message with its retry metadata, result and duration
+ * @param logger - Logger to write to (default: the message's logger from the metadata, bound to its messageId)
+ */
+export const structuredLogging = (logger?: Logger): Middleware => async (ctx, next) => {
+  const log = logger?.child({ messageId: ctx.message.MessageId }) ?? ctx.metadata.logger;
+  const startedAt = Date.now();
+  const fields = {
+    retryCount: ctx.metadata.retryCount,
+    isLastAttempt: ctx.metadata.isLastAttempt,
+  };
+
+  try {
+    const result = await next();
+    const level = result.status === 'success' ? 'info' : result.status === 'retry' ? 'warn' : 'error';
+    log[level]('Message handled', {
+      ...fields,
+      status: result.status,
+      reason: result.reason,
+      durationMs: Date.now() - startedAt,
+    });
+    return result;
+  } catch (error) {
+    log.error('Message handler threw', { ...fields, error, durationMs: Date.now() - startedAt });
+    throw error;
+  }
+};
+
+/**
+ * Turn errors thrown further down the pipeline into results
+ * RetryException -> retry, FailureException -> fail, anything else goes to mapError;
+ * if mapError returns undefined the error is rethrown (and gets the consumer's defaultErrorStatus).
+ */
+export const mapErrors =
+  (mapError?: (error: unknown) => MessageResult | undefined): Middleware =>
+  async (_ctx, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      if (error instanceof RetryException) {
+        return { status: 'retry', reason: error.message, error };
+      }
+      if (error instanceof FailureException) {
+        return { status: 'fail', reason: error.message, error };
+      }
+
+      const result = mapError?.(error);
+      if (result) {
+        return result;
+      }
+      throw error;
+    }
+  };
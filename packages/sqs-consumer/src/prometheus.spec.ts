@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { Registry } from 'prom-client';
+import { SQSConsumer, type MessageHandler } from './sqs-consumer';
+import { InMemoryIdempotencyStore } from './stores/in-memory-idempotency-store';
+import { collectConsumerMetrics } from './prometheus';
+
+describe('collectConsumerMetrics', () => {
+  let mockSend: any;
+  let registry: Registry;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const createMessage = (id: string) => ({
+    MessageId: id,
+    ReceiptHandle: `receipt-${id}`,
+    Body: '{}',
+    Attributes: { ApproximateReceiveCount: '1' },
+  });
+
+  const mockHandler: MessageHandler = {
+    handle: async (message) => {
+      if (message.MessageId === 'msg-retry') {
+        return { status: 'retry' };
+      }
+      if (message.MessageId === 'msg-fail') {
+        return { status: 'fail' };
+      }
+      return { status: 'success' };
+    },
+  };
+
+  const valueOf = async (metricName: string, labels: Record<string, string> = { queue: 'posts-stream' }) => {
+    const metric = registry.getSingleMetric(metricName.replace(/_count$/, ''));
+    const { values } = (await metric?.get()) ?? { values: [] };
+    return values.find(
+      (value) =>
+        ('metricName' in value ? value.metricName : metricName) === metricName &&
+        Object.entries(labels).every(([name, labelValue]) => value.labels[name] === labelValue)
+    )?.value;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new Registry();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should count messages by outcome, idempotency hits and handler latency', async () => {
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return {
+        Messages: ['msg-ok', 'msg-retry', 'msg-fail', 'msg-duplicate'].map(createMessage),
+      };
+    });
+
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    await idempotencyStore.markProcessed('test:msg-duplicate', 60);
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { idempotencyStore, idempotencyNamespace: 'test' });
+    collectConsumerMetrics(consumer, { registry, queue: 'posts-stream' });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(await valueOf('sqs_messages_received_total')).toBe(4);
+    expect(await valueOf('sqs_messages_processed_total')).toBe(1);
+    expect(await valueOf('sqs_messages_retried_total')).toBe(1);
+    expect(await valueOf('sqs_messages_failed_total')).toBe(1);
+    expect(await valueOf('sqs_idempotency_hits_total')).toBe(1);
+    expect(await valueOf('sqs_handler_duration_seconds_count', { queue: 'posts-stream', status: 'retry' })).toBe(1);
+    expect(await valueOf('sqs_messages_in_flight')).toBe(0);
+  });
+
+  it('should count a message that exhausted its retries as failed', async () => {
+    mockSend.mockResolvedValueOnce({
+      Messages: [{ ...createMessage('msg-retry'), Attributes: { ApproximateReceiveCount: '2' } }],
+    });
+    mockSend.mockResolvedValue({ Messages: [], Successful: [{ Id: '0' }], Failed: [] });
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { maxRetries: 1 });
+    const failedEvents = vi.fn();
+    consumer.on('message_failed', failedEvents);
+    collectConsumerMetrics(consumer, { registry, queue: 'posts-stream' });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await consumer.stop();
+
+    expect(await valueOf('sqs_messages_failed_total')).toBe(1);
+    expect(await valueOf('sqs_messages_retried_total')).toBeUndefined();
+    expect(failedEvents).toHaveBeenCalledWith(expect.objectContaining({ MessageId: 'msg-retry' }), { status: 'fail' });
+  });
+
+  it('should count poll errors and report in-flight messages per queue', async () => {
+    mockSend.mockRejectedValue(new Error('Access denied'));
+    const failing = new SQSConsumer({ sqsConfig }, mockHandler);
+    const other = new SQSConsumer({ sqsConfig }, mockHandler);
+    collectConsumerMetrics(failing, { registry, queue: 'posts-stream' });
+    collectConsumerMetrics(other, { registry, queue: 'comments-stream' });
+    vi.spyOn(other, 'getInFlightCount').mockReturnValue(3);
+
+    await failing.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await failing.stop();
+
+    expect(await valueOf('sqs_poll_errors_total')).toBe(1);
+    expect(await valueOf('sqs_poll_errors_total', { queue: 'comments-stream' })).toBeUndefined();
+    expect(await valueOf('sqs_messages_in_flight', { queue: 'comments-stream' })).toBe(3);
+  });
+
+  it('should count handler timeouts and throttled receives', async () => {
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      return { Messages: [createMessage(`msg-${mockSend.mock.calls.length}`)] };
+    });
+    const slowHandler: MessageHandler = {
+      handle: () => new Promise((resolve) => setTimeout(() => resolve({ status: 'success' }), 200)),
+    };
+    const consumer = new SQSConsumer({ sqsConfig, handlerTimeoutMs: 20 }, slowHandler, {
+      rateLimit: { messagesPerSecond: 10, burst: 1 },
+    });
+    collectConsumerMetrics(consumer, { registry, queue: 'posts-stream' });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 80));
+    await consumer.stop();
+
+    expect(await valueOf('sqs_handler_timeouts_total')).toBe(1);
+    expect(await valueOf('sqs_throttled_receives_total')).toBeGreaterThanOrEqual(1);
+    expect(await valueOf('sqs_throttled_receives_total')).toBe(consumer.getMetrics().throttledReceives);
+  });
+});
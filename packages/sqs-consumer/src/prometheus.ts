@@ -0,0 +1,94 @@
+import { Counter, Gauge, Histogram, Metric, Registry } from 'prom-client';
+import type { SQSConsumer } from './sqs-consumer';
+
+const inFlightSourcesByRegistry = new WeakMap<Registry, Map<string, SQSConsumer>>();
+
+export interface ConsumerPrometheusOptions {
+  registry: Registry; // e.g. the service's registry served on /metrics
+  queue: string; // Value of the `queue` label, e.g. 'posts-stream'
+}
+
+/**
+ * Report a consumer's activity as Prometheus metrics, labelled by queue
+ * Several consumers can report to the same registry with different queue labels.
+ *
+ * Metrics:
+ * - sqs_messages_received_total{queue}
+ * - sqs_messages_processed_total{queue}                Handled successfully
+ * - sqs_messages_retried_total{queue}                  Handler asked for a retry
+ * - sqs_messages_failed_total{queue}                   Failed permanently (including exhausted retries)
+ * - sqs_idempotency_hits_total{queue}                  Already processed, skipped
+ * - sqs_poll_errors_total{queue}
+ * - sqs_handler_timeouts_total{queue}                 Handler exceeded handlerTimeoutMs
+ * - sqs_throttled_receives_total{queue}               Receives deferred by the rate limit
+ * - sqs_handler_duration_seconds{queue, status}        Handler latency (including middleware)
+ * - sqs_messages_in_flight{queue}                      Buffered or being processed
+ */
+export function collectConsumerMetrics(consumer: SQSConsumer, options: ConsumerPrometheusOptions): void {
+  const { registry, queue } = options;
+  const labels = { queue };
+
+  const received = counter(registry, 'sqs_messages_received_total', 'Messages received from SQS');
+  const processed = counter(registry, 'sqs_messages_processed_total', 'Messages handled successfully');
+  const retried = counter(registry, 'sqs_messages_retried_total', 'Messages whose handler asked for a retry');
+  const failed = counter(registry, 'sqs_messages_failed_total', 'Messages that failed permanently or exhausted their retries');
+  const idempotencyHits = counter(registry, 'sqs_idempotency_hits_total', 'Already processed messages that were skipped');
+  const pollErrors = counter(registry, 'sqs_poll_errors_total', 'Errors in the poll loop (e.g. failed receives)');
+  const handlerTimeouts = counter(registry, 'sqs_handler_timeouts_total', 'Handlers that exceeded handlerTimeoutMs');
+  const throttledReceives = counter(registry, 'sqs_throttled_receives_total', 'Receives deferred by the rate limit');
+
+  const handlerDuration = getOrRegister(
+    registry,
+    'sqs_handler_duration_seconds',
+    () =>
+      new Histogram({
+        name: 'sqs_handler_duration_seconds',
+        help: 'Message handler latency',
+        labelNames: ['queue', 'status'] as const,
+        buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+        registers: [registry],
+      })
+  );
+
+  // In flight is read at scrape time from every consumer reporting to the registry
+  let inFlightSources = inFlightSourcesByRegistry.get(registry);
+  if (!inFlightSources) {
+    const sources = new Map<string, SQSConsumer>();
+    new Gauge({
+      name: 'sqs_messages_in_flight',
+      help: 'Received messages that are buffered or being processed',
+      labelNames: ['queue'] as const,
+      registers: [registry],
+      collect() {
+        for (const [sourceQueue, source] of sources) {
+          this.set({ queue: sourceQueue }, source.getInFlightCount());
+        }
+      },
+    });
+    inFlightSources = sources;
+    inFlightSourcesByRegistry.set(registry, sources);
+  }
+  inFlightSources.set(queue, consumer);
+
+  consumer.on('message_received', () => received.inc(labels));
+  consumer.on('message_processed', () => processed.inc(labels));
+  consumer.on('message_failed', (_message, result) => (result.status === 'retry' ? retried : failed).inc(labels));
+  consumer.on('message_skipped', () => idempotencyHits.inc(labels));
+  consumer.on('poll_error', () => pollErrors.inc(labels));
+  consumer.on('handler_timeout', () => handlerTimeouts.inc(labels));
+  consumer.on('receive_throttled', () => throttledReceives.inc(labels));
+  consumer.on('handler_completed', (_message, result, durationMs) =>
+    handlerDuration.observe({ queue, status: result.status }, durationMs / 1000)
+  );
+}
+
+function counter(registry: Registry, name: string, help: string): Counter<'queue'> {
+  return getOrRegister(registry, name, () => new Counter({ name, help, labelNames: ['queue'] as const, registers: [registry] }));
+}
+
+/**
+ * Reuse a metric another consumer already registered (registries reject duplicate names)
+ */
+function getOrRegister<T extends Metric>(registry: Registry, name: string, create: () => T): T {
+  return (registry.getSingleMetric(name) as T | undefined) ?? create();
+}
@@ -1,8 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SQSClient } from '@aws-sdk/client-sqs';
-import { SQSConsumer, type MessageHandler } from './sqs-consumer';
+import { SQSConsumer, type MessageHandler, type BatchMessageHandler } from './sqs-consumer';
 import { InMemoryIdempotencyStore } from './stores/in-memory-idempotency-store';
 import { InMemoryBackoffStore } from './stores/in-memory-backoff-store';
+import { RetryException, FailureException } from './exceptions';
+import { createSQSQueueConfig } from './config';
+import { bodyFieldsKey } from './idempotency-keys';
+import { jsonBody } from './middleware';
+import { CircuitBreaker } from './circuit-breaker';
+import { InMemoryRateLimitStore } from './stores/in-memory-rate-limit-store';
+import { createLogger } from '@repo/logger';
 
 describe('SQSConsumer - Basic message handling functionality', () => {
   let mockSend: any;
@@ -602,6 +609,174 @@ describe('SQSConsumer - Idempotency', () => {
     // Assert: Handler SHOULD be called (TTL expired)
     expect(mockHandler.handle).toHaveBeenCalledTimes(1);
   });
+
+  it('should defer a message whose lock is held by another consumer', async () => {
+    const mockMessage = {
+      MessageId: 'msg-locked-1',
+      ReceiptHandle: 'receipt-locked-1',
+      Body: JSON.stringify({ data: 'test' }),
+      Attributes: { ApproximateReceiveCount: '10' },
+    };
+
+    // Another consumer is processing it right now
+    expect(await idempotencyStore.acquire('msg-locked-1', 60)).toBe('acquired');
+
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+      },
+      mockHandler,
+      {
+        idempotencyStore,
+        maxRetries: 3,
+        deadLetterQueueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue-dlq',
+      }
+    );
+
+    mockSend.mockResolvedValueOnce({ Messages: [mockMessage] });
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockHandler.handle).not.toHaveBeenCalled();
+
+    // Deferred for one lease, without counting against maxRetries
+    const commandNames = mockSend.mock.calls.map((call: any) => call[0].constructor.name);
+    expect(commandNames).not.toContain('DeleteMessageBatchCommand');
+    expect(commandNames).not.toContain('SendMessageBatchCommand');
+    const changeVisibilityCall = mockSend.mock.calls.find((call: any) =>
+      call[0].constructor.name === 'ChangeMessageVisibilityCommand'
+    );
+    expect(changeVisibilityCall[0].input.VisibilityTimeout).toBe(30);
+  });
+
+  it('should release the lock when the handler asks for a retry', async () => {
+    mockSend.mockResolvedValueOnce({
+      Messages: [{ MessageId: 'msg-retry-lock', ReceiptHandle: 'receipt-retry-lock', Body: '{}' }],
+    });
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    mockHandler.handle = vi.fn().mockRejectedValue(new RetryException('Database connection failed'));
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // Next delivery can take the lock again
+    expect(await idempotencyStore.acquire('msg-retry-lock', 60)).toBe('acquired');
+  });
+
+  it('should run the handler once when the same message is delivered twice concurrently', async () => {
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+        processInParallel: true,
+      },
+      mockHandler,
+      { idempotencyStore }
+    );
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [
+        { MessageId: 'msg-twice', ReceiptHandle: 'receipt-twice-a', Body: '{}' },
+        { MessageId: 'msg-twice', ReceiptHandle: 'receipt-twice-b', Body: '{}' },
+      ],
+    });
+    mockSend.mockResolvedValue({ Messages: [], Successful: [{ Id: '0' }], Failed: [] });
+
+    mockHandler.handle = vi.fn().mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockHandler.handle).toHaveBeenCalledTimes(1);
+    expect(await idempotencyStore.hasProcessed('msg-twice')).toBe(true);
+  });
+
+  it('should deduplicate the same event published twice using a business key', async () => {
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+      },
+      mockHandler,
+      {
+        idempotencyStore,
+        idempotencyKey: bodyFieldsKey('eventType', 'postId'),
+        idempotencyNamespace: 'post-created',
+      }
+    );
+
+    const body = JSON.stringify({ eventType: 'POST_CREATED', postId: '123', userId: '42' });
+    mockSend.mockResolvedValueOnce({
+      Messages: [
+        { MessageId: 'msg-publish-1', ReceiptHandle: 'receipt-publish-1', Body: body },
+        { MessageId: 'msg-publish-2', ReceiptHandle: 'receipt-publish-2', Body: body },
+      ],
+    });
+    mockSend.mockResolvedValue({ Messages: [], Successful: [{ Id: '0' }, { Id: '1' }], Failed: [] });
+
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'success' });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockHandler.handle).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(mockHandler.handle).mock.calls[0]?.[1].idempotencyKey).toBe('post-created:POST_CREATED:123');
+    expect(await idempotencyStore.hasProcessed('post-created:POST_CREATED:123')).toBe(true);
+  });
+
+  it('should not share idempotency state between handlers with different namespaces', async () => {
+    await idempotencyStore.markProcessed('handler-a:msg-shared', 3600);
+
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+      },
+      mockHandler,
+      { idempotencyStore, idempotencyNamespace: 'handler-b' }
+    );
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [{ MessageId: 'msg-shared', ReceiptHandle: 'receipt-shared', Body: '{}' }],
+    });
+    mockSend.mockResolvedValue({ Messages: [], Successful: [{ Id: '0' }], Failed: [] });
+
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'success' });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockHandler.handle).toHaveBeenCalledTimes(1);
+    expect(await idempotencyStore.hasProcessed('handler-b:msg-shared')).toBe(true);
+  });
 });
 
 describe('SQSConsumer - Visibility Timeout on Retry', () => {
@@ -672,12 +847,12 @@ describe('SQSConsumer - Visibility Timeout on Retry', () => {
     expect(mockHandler.handle).toHaveBeenCalledTimes(1);
 
     // Assert: ChangeMessageVisibility was called with calculated timeout
-    // Retry count = 2, exponential backoff: 5 * 2^2 = 20 seconds
+    // Second failure, exponential backoff: 5 * 2^1 = 10 seconds
     const changeVisibilityCall = mockSend.mock.calls.find((call: any) =>
       call[0].constructor.name === 'ChangeMessageVisibilityCommand'
     );
     expect(changeVisibilityCall).toBeDefined();
-    expect(changeVisibilityCall[0].input.VisibilityTimeout).toBe(20);
+    expect(changeVisibilityCall[0].input.VisibilityTimeout).toBe(10);
 
     // Message should NOT be deleted (retry)
     const deleteCall = mockSend.mock.calls.find((call: any) =>
@@ -685,4 +860,2174 @@ describe('SQSConsumer - Visibility Timeout on Retry', () => {
     );
     expect(deleteCall).toBeUndefined();
   });
-});
\ No newline at end of file
+
+  it('should record failures in the backoff store and use its schedule', async () => {
+    const backoffStore = new InMemoryBackoffStore();
+
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+      },
+      mockHandler,
+      {
+        backoffBaseDelay: 5,
+        backoffBaseDelayUnit: 'sec',
+        retryStrategy: 'exponential',
+        backoffStore,
+      }
+    );
+
+    // Already failed twice on other replicas: next delay is 5 * 2^2 = 20 seconds
+    await backoffStore.recordFailure('msg-retry-2', 5000);
+    await backoffStore.recordFailure('msg-retry-2', 5000);
+
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'retry', reason: 'Temporary error' });
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [{ MessageId: 'msg-retry-2', ReceiptHandle: 'receipt-retry-2', Body: '{}' }],
+    });
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(await backoffStore.getRetryCount('msg-retry-2')).toBe(3);
+
+    const changeVisibilityCall = mockSend.mock.calls.find((call: any) =>
+      call[0].constructor.name === 'ChangeMessageVisibilityCommand'
+    );
+    expect(changeVisibilityCall[0].input.VisibilityTimeout).toBe(20);
+  });
+
+  it('should schedule the same delay with and without a backoff store', async () => {
+    const sqsConfig = {
+      queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+      maxNumberOfMessages: 10,
+      waitTimeSeconds: 20,
+      visibilityTimeout: 30,
+    };
+    const options = { backoffBaseDelay: 5, backoffBaseDelayUnit: 'sec', retryStrategy: 'exponential' } as const;
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'retry', reason: 'Temporary error' });
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    // Visibility timeout set for the nth failure of a message
+    const delayFor = async (failure: number, backoffStore?: InMemoryBackoffStore) => {
+      const messageId = `msg-${failure}-${backoffStore ? 'store' : 'receive-count'}`;
+      for (let earlier = 1; backoffStore && earlier < failure; earlier++) {
+        await backoffStore.recordFailure(messageId, 5000);
+      }
+      mockSend.mockResolvedValueOnce({
+        Messages: [{
+          MessageId: messageId,
+          ReceiptHandle: `receipt-${messageId}`,
+          Body: '{}',
+          Attributes: { ApproximateReceiveCount: String(failure) },
+        }],
+      });
+
+      consumer = new SQSConsumer({ sqsConfig }, mockHandler, { ...options, backoffStore });
+      await consumer.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await consumer.stop();
+
+      const call = mockSend.mock.calls.find((call: any) =>
+        call[0].constructor.name === 'ChangeMessageVisibilityCommand' && call[0].input.ReceiptHandle === `receipt-${messageId}`
+      );
+      return call[0].input.VisibilityTimeout;
+    };
+
+    for (const [failure, delaySeconds] of [[1, 5], [2, 10], [3, 20]]) {
+      expect(await delayFor(failure!)).toBe(delaySeconds);
+      expect(await delayFor(failure!, new InMemoryBackoffStore())).toBe(delaySeconds);
+    }
+  });
+
+  it('should clear the backoff history once the message succeeds', async () => {
+    const backoffStore = new InMemoryBackoffStore();
+    await backoffStore.recordFailure('msg-recovered', 5000);
+
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+      },
+      mockHandler,
+      { backoffStore }
+    );
+
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'success' });
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [{ MessageId: 'msg-recovered', ReceiptHandle: 'receipt-recovered', Body: '{}' }],
+    });
+    mockSend.mockResolvedValue({ Messages: [], Successful: [{ Id: '0' }], Failed: [] });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(await backoffStore.getRetryCount('msg-recovered')).toBe(0);
+  });
+
+  it('should spread retries with full jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+      },
+      mockHandler,
+      {
+        backoffBaseDelay: 5,
+        backoffBaseDelayUnit: 'sec',
+        retryStrategy: 'exponential',
+        jitter: 'full',
+      }
+    );
+
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'retry' });
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [{
+        MessageId: 'msg-jitter',
+        ReceiptHandle: 'receipt-jitter',
+        Body: '{}',
+        Attributes: { ApproximateReceiveCount: '2' },
+      }],
+    });
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // 50% of 5 * 2^1 = 10 seconds
+    const changeVisibilityCall = mockSend.mock.calls.find((call: any) =>
+      call[0].constructor.name === 'ChangeMessageVisibilityCommand'
+    );
+    expect(changeVisibilityCall[0].input.VisibilityTimeout).toBe(5);
+  });
+});
+
+describe('SQSConsumer - Graceful shutdown', () => {
+  let mockSend: any;
+  let mockHandler: MessageHandler;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockHandler = { handle: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should wait for the in-flight batch and its deletes before stop() resolves', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        return { Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: '{}' }] };
+      }
+      return { Successful: [{ Id: '0' }], Failed: [] };
+    });
+
+    mockHandler.handle = vi.fn().mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await consumer.stop();
+
+    // Handler finished and delete was sent before stop() resolved
+    expect(mockHandler.handle).toHaveBeenCalledTimes(1);
+    const deleteCall = mockSend.mock.calls.find((call: any) =>
+      call[0].constructor.name === 'DeleteMessageBatchCommand'
+    );
+    expect(deleteCall).toBeDefined();
+
+    // No further receives after stop
+    const receiveCalls = mockSend.mock.calls.filter((call: any) =>
+      call[0].constructor.name === 'ReceiveMessageCommand'
+    );
+    expect(receiveCalls).toHaveLength(1);
+  });
+
+  it('should abort the long poll when stopping', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+
+    // ReceiveMessage hangs until aborted (simulates a 20s long poll)
+    mockSend.mockImplementation((_command: any, options?: { abortSignal?: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        options?.abortSignal?.addEventListener('abort', () => reject(new Error('Request aborted')));
+      })
+    );
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const startedAt = Date.now();
+    await consumer.stop();
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(mockHandler.handle).not.toHaveBeenCalled();
+  });
+
+  it('should release unfinished messages with visibility 0 after the drain timeout', async () => {
+    const consumer = new SQSConsumer({ sqsConfig, drainTimeoutMs: 50 }, mockHandler);
+
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        return { Messages: [{ MessageId: 'msg-stuck', ReceiptHandle: 'receipt-stuck', Body: '{}' }] };
+      }
+      return {};
+    });
+
+    // Handler outlives the drain timeout
+    mockHandler.handle = vi.fn().mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await consumer.stop();
+
+    const releaseCall = mockSend.mock.calls.find((call: any) =>
+      call[0].constructor.name === 'ChangeMessageVisibilityCommand'
+    );
+    expect(releaseCall).toBeDefined();
+    expect(releaseCall[0].input.ReceiptHandle).toBe('receipt-stuck');
+    expect(releaseCall[0].input.VisibilityTimeout).toBe(0);
+
+    // Let the stuck handler finish: the released message must not be deleted afterwards
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const deleteCall = mockSend.mock.calls.find((call: any) =>
+      call[0].constructor.name === 'DeleteMessageBatchCommand'
+    );
+    expect(deleteCall).toBeUndefined();
+  });
+});
+
+describe('SQSConsumer - Concurrency pool', () => {
+  let mockSend: any;
+  let mockHandler: MessageHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockHandler = { handle: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should receive more messages as slots free up instead of waiting for the slowest one', async () => {
+    const consumer = new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+        concurrency: 2,
+      },
+      mockHandler
+    );
+
+    const pending = [
+      [
+        { MessageId: 'msg-slow', ReceiptHandle: 'receipt-slow', Body: JSON.stringify({ id: 'slow' }) },
+        { MessageId: 'msg-fast', ReceiptHandle: 'receipt-fast', Body: JSON.stringify({ id: 'fast' }) },
+      ],
+      [{ MessageId: 'msg-next', ReceiptHandle: 'receipt-next', Body: JSON.stringify({ id: 'next' }) }],
+    ];
+
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        return { Messages: pending.shift() ?? [] };
+      }
+      return { Successful: [{ Id: '0' }], Failed: [] };
+    });
+
+    const events: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    mockHandler.handle = vi.fn().mockImplementation(async (message) => {
+      const id = JSON.parse(message.Body).id;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      events.push(`start:${id}`);
+
+      await new Promise(resolve => setTimeout(resolve, id === 'slow' ? 150 : 10));
+
+      events.push(`end:${id}`);
+      inFlight--;
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 250));
+    await consumer.stop();
+
+    expect(mockHandler.handle).toHaveBeenCalledTimes(3);
+    expect(maxInFlight).toBe(2);
+
+    // The next message started while the slow one was still running
+    expect(events.indexOf('start:next')).toBeLessThan(events.indexOf('end:slow'));
+
+    // Receives only ask for as many messages as there are free slots
+    const receiveCalls = mockSend.mock.calls.filter((call: any) =>
+      call[0].constructor.name === 'ReceiveMessageCommand'
+    );
+    expect(receiveCalls[0][0].input.MaxNumberOfMessages).toBe(2);
+    expect(receiveCalls[1][0].input.MaxNumberOfMessages).toBe(1);
+  });
+
+  it('should reject a non-positive concurrency', () => {
+    expect(() => new SQSConsumer(
+      {
+        sqsConfig: {
+          queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+          maxNumberOfMessages: 10,
+          waitTimeSeconds: 20,
+          visibilityTimeout: 30,
+        },
+        concurrency: 0,
+      },
+      mockHandler
+    )).toThrow('concurrency must be a positive integer');
+  });
+});
+
+describe('SQSConsumer - Visibility heartbeat', () => {
+  let mockSend: any;
+  let mockHandler: MessageHandler;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const mockMessage = {
+    MessageId: 'msg-long',
+    ReceiptHandle: 'receipt-long',
+    Body: JSON.stringify({ data: 'test' }),
+  };
+
+  const visibilityCalls = () =>
+    mockSend.mock.calls.filter((call: any) =>
+      call[0].constructor.name === 'ChangeMessageVisibilityCommand'
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockHandler = { handle: vi.fn() };
+
+    mockSend.mockResolvedValueOnce({ Messages: [mockMessage] });
+    mockSend.mockResolvedValue({ Messages: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should extend visibility while the handler is running and stop when it finishes', async () => {
+    const consumer = new SQSConsumer({ sqsConfig, heartbeatIntervalSeconds: 0.05 }, mockHandler);
+
+    mockHandler.handle = vi.fn().mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 180));
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 250));
+    const beatsAfterHandler = visibilityCalls().length;
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await consumer.stop();
+
+    expect(beatsAfterHandler).toBeGreaterThanOrEqual(2);
+    expect(visibilityCalls()[0][0].input).toEqual(
+      expect.objectContaining({ ReceiptHandle: 'receipt-long', VisibilityTimeout: 30 })
+    );
+
+    // No more beats once the handler has returned
+    expect(visibilityCalls()).toHaveLength(beatsAfterHandler);
+  });
+
+  it('should give up extending once the max lease is reached', async () => {
+    const consumer = new SQSConsumer(
+      { sqsConfig, heartbeatIntervalSeconds: 0.05, maxLeaseSeconds: 0.125 },
+      mockHandler
+    );
+
+    mockHandler.handle = vi.fn().mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 400));
+    await consumer.stop();
+
+    // Beats at ~50ms and ~100ms, capped to the remaining lease; none after 125ms
+    expect(visibilityCalls()).toHaveLength(2);
+    expect(visibilityCalls()[0][0].input.VisibilityTimeout).toBe(1);
+  });
+
+  it('should let handlers extend visibility manually through metadata', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+
+    mockHandler.handle = vi.fn().mockImplementation(async (_message, metadata) => {
+      await metadata.heartbeat.extend(120);
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(visibilityCalls()).toHaveLength(1);
+    expect(visibilityCalls()[0][0].input.VisibilityTimeout).toBe(120);
+  });
+
+  it('should renew the idempotency lock on each beat', async () => {
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const renew = vi.spyOn(idempotencyStore, 'renew');
+    const consumer = new SQSConsumer({ sqsConfig, heartbeatIntervalSeconds: 0.05 }, mockHandler, {
+      idempotencyStore,
+      idempotencyLeaseSeconds: 10,
+      idempotencyNamespace: '',
+    });
+
+    mockHandler.handle = vi.fn().mockImplementation(async (_message, metadata) => {
+      await new Promise(resolve => setTimeout(resolve, 120));
+      await metadata.heartbeat.extend(120);
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await consumer.stop();
+
+    // Automatic beats renew for the lease, covering the visibility timeout; the manual one for its own timeout
+    expect(renew.mock.calls.length).toBeGreaterThanOrEqual(3);
+    expect(renew).toHaveBeenCalledWith('msg-long', 30);
+    expect(renew).toHaveBeenLastCalledWith('msg-long', 120);
+    expect(await idempotencyStore.hasProcessed('msg-long')).toBe(true);
+  });
+});
+
+describe('SQSConsumer - Exceptions thrown from handlers', () => {
+  let mockSend: any;
+  let mockHandler: MessageHandler;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const findCall = (commandName: string) =>
+    mockSend.mock.calls.find((call: any) => call[0].constructor.name === commandName);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockHandler = { handle: vi.fn() };
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: '{}' }],
+    });
+    mockSend.mockResolvedValue({ Messages: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should retry the message when handler throws RetryException', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+    mockHandler.handle = vi.fn().mockRejectedValue(new RetryException('Database connection failed'));
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('ChangeMessageVisibilityCommand')).toBeDefined();
+    expect(findCall('DeleteMessageBatchCommand')).toBeUndefined();
+  });
+
+  it('should delete the message when handler throws FailureException', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+    mockHandler.handle = vi.fn().mockRejectedValue(new FailureException('Missing postId'));
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('DeleteMessageBatchCommand')).toBeDefined();
+    expect(findCall('ChangeMessageVisibilityCommand')).toBeUndefined();
+  });
+
+  it('should map unknown errors to the configured default status', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { defaultErrorStatus: 'fail' });
+    mockHandler.handle = vi.fn().mockRejectedValue(new Error('Unexpected'));
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('DeleteMessageBatchCommand')).toBeDefined();
+    expect(findCall('ChangeMessageVisibilityCommand')).toBeUndefined();
+  });
+
+  it('should settle the rest of the batch when one handler throws', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+
+    mockSend.mockReset();
+    mockSend.mockResolvedValueOnce({
+      Messages: [
+        { MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: JSON.stringify({ id: 1 }) },
+        { MessageId: 'msg-2', ReceiptHandle: 'receipt-2', Body: JSON.stringify({ id: 2 }) },
+        { MessageId: 'msg-3', ReceiptHandle: 'receipt-3', Body: JSON.stringify({ id: 3 }) },
+      ],
+    });
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    mockHandler.handle = vi.fn().mockImplementation(async (message) => {
+      if (JSON.parse(message.Body).id === 2) {
+        throw new Error('Boom');
+      }
+      return { status: 'success' };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockHandler.handle).toHaveBeenCalledTimes(3);
+
+    // Messages 1 and 3 are deleted, message 2 is backed off for retry
+    const deleteCall = findCall('DeleteMessageBatchCommand');
+    expect(deleteCall[0].input.Entries.map((entry: any) => entry.ReceiptHandle)).toEqual(['receipt-1', 'receipt-3']);
+    expect(findCall('ChangeMessageVisibilityCommand')[0].input.ReceiptHandle).toBe('receipt-2');
+  });
+});
+
+describe('SQSConsumer - Max retries and dead letter queue', () => {
+  let mockSend: any;
+  let mockHandler: MessageHandler;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+  const deadLetterQueueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue-dlq';
+
+  const findCall = (commandName: string) =>
+    mockSend.mock.calls.find((call: any) => call[0].constructor.name === commandName);
+
+  // First receive returns one message, later receives are empty; every other command succeeds
+  const receiveOnce = (receiveCount: string) => {
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return {
+        Messages: [{
+          MessageId: 'msg-1',
+          ReceiptHandle: 'receipt-1',
+          Body: JSON.stringify({ postId: '1' }),
+          Attributes: { ApproximateReceiveCount: receiveCount },
+        }],
+      };
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockHandler = { handle: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep retrying while retries remain', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { maxRetries: 3, deadLetterQueueUrl });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'retry', reason: 'DB down' });
+    receiveOnce('3');
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('ChangeMessageVisibilityCommand')).toBeDefined();
+    expect(findCall('SendMessageBatchCommand')).toBeUndefined();
+    expect(findCall('DeleteMessageBatchCommand')).toBeUndefined();
+  });
+
+  it('should dead-letter and delete the message once maxRetries is exceeded', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { maxRetries: 3, deadLetterQueueUrl });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'retry', reason: 'DB down' });
+    receiveOnce('4');
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // 4th delivery = 3 retries used, so this is the last attempt
+    expect(mockHandler.handle).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ retryCount: 4, isLastAttempt: true })
+    );
+
+    const dlqCall = findCall('SendMessageBatchCommand');
+    expect(dlqCall[0].input.QueueUrl).toBe(deadLetterQueueUrl);
+    const envelope = JSON.parse(dlqCall[0].input.Entries[0].MessageBody);
+    expect(envelope.originalMessage).toEqual(expect.objectContaining({
+      messageId: 'msg-1',
+      body: JSON.stringify({ postId: '1' }),
+      attributes: { ApproximateReceiveCount: '4' },
+    }));
+    expect(envelope.failure).toEqual(expect.objectContaining({
+      type: 'retries_exhausted',
+      reason: 'DB down',
+      receiveCount: 4,
+      sourceQueueUrl: sqsConfig.queueUrl,
+    }));
+
+    expect(findCall('DeleteMessageBatchCommand')).toBeDefined();
+    expect(findCall('ChangeMessageVisibilityCommand')).toBeUndefined();
+  });
+
+  it('should clear the backoff history of a message dead-lettered after its last retry', async () => {
+    const backoffStore = new InMemoryBackoffStore();
+    await backoffStore.recordFailure('msg-1', 1000);
+    await backoffStore.recordFailure('msg-1', 1000);
+    await backoffStore.recordFailure('msg-1', 1000);
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { maxRetries: 3, deadLetterQueueUrl, backoffStore });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'retry', reason: 'DB down' });
+    receiveOnce('4');
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('SendMessageBatchCommand')).toBeDefined();
+    expect(await backoffStore.getRetryCount('msg-1')).toBe(0);
+  });
+
+  it('should keep the backoff history of a message that could not be deleted', async () => {
+    const backoffStore = new InMemoryBackoffStore();
+    await backoffStore.recordFailure('msg-1', 1000);
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { backoffStore });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'success' });
+    receiveOnce('2');
+    const send = mockSend.getMockImplementation();
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'DeleteMessageBatchCommand') {
+        return { Successful: [], Failed: [{ Id: '0', Message: 'Receipt handle expired' }] };
+      }
+      return send(command);
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // Redelivered after the visibility timeout, so its earlier failures still count
+    expect(await backoffStore.getRetryCount('msg-1')).toBe(1);
+  });
+
+  it('should dead-letter failed messages with the error stack', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { deadLetterQueueUrl });
+    mockHandler.handle = vi.fn().mockRejectedValue(new FailureException('Missing postId'));
+    receiveOnce('1');
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const envelope = JSON.parse(findCall('SendMessageBatchCommand')[0].input.Entries[0].MessageBody);
+    expect(envelope.failure.type).toBe('fail');
+    expect(envelope.failure.reason).toBe('Missing postId');
+    expect(envelope.failure.stack).toContain('FailureException');
+    expect(findCall('DeleteMessageBatchCommand')).toBeDefined();
+  });
+
+  it('should keep the message on the queue when the dead letter queue rejects it', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { deadLetterQueueUrl });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'fail', reason: 'Invalid' });
+    receiveOnce('1');
+    const send = mockSend.getMockImplementation();
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'SendMessageBatchCommand') {
+        throw new Error('DLQ unavailable');
+      }
+      return send(command);
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('DeleteMessageBatchCommand')).toBeUndefined();
+  });
+
+  it('should dead-letter a failed message on redelivery when the dead letter queue rejected it', async () => {
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { deadLetterQueueUrl, idempotencyStore });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'fail', reason: 'Invalid' });
+    let receives = 0;
+    let dlqCalls = 0;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        receives++;
+        return receives > 2
+          ? { Messages: [] }
+          : { Messages: [{ MessageId: 'msg-1', ReceiptHandle: `receipt-${receives}`, Body: '{}' }] };
+      }
+      if (command.constructor.name === 'SendMessageBatchCommand' && ++dlqCalls === 1) {
+        throw new Error('DLQ unavailable');
+      }
+      return { Successful: [{ Id: '0' }], Failed: [] };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // The first delivery's lock was released, so the redelivery reaches the handler and the DLQ
+    expect(mockHandler.handle).toHaveBeenCalledTimes(2);
+    expect(dlqCalls).toBe(2);
+    expect(findCall('DeleteMessageBatchCommand')[0].input.Entries[0].ReceiptHandle).toBe('receipt-2');
+    expect(await idempotencyStore.hasProcessed('msg-1')).toBe(true);
+  });
+
+  it('should delete a failed message without dead-lettering it when deadLetter is false', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { maxRetries: 3, deadLetterQueueUrl });
+    mockHandler.handle = vi.fn().mockResolvedValue({ status: 'fail', reason: 'Unknown event', deadLetter: false });
+    receiveOnce('1');
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(findCall('SendMessageBatchCommand')).toBeUndefined();
+    expect(findCall('DeleteMessageBatchCommand')[0].input.Entries[0].ReceiptHandle).toBe('receipt-1');
+  });
+});
+
+describe('SQSConsumer.fromQueueConfig', () => {
+  let mockSend: any;
+  let mockHandler: MessageHandler;
+
+  const findCall = (commandName: string) =>
+    mockSend.mock.calls.find((call: any) => call[0].constructor.name === commandName);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockHandler = { handle: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should wire retry, idempotency and dead letter queue settings from env vars', async () => {
+    const queueConfig = createSQSQueueConfig(
+      {
+        TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+        TEST_RETRY_ENABLED: 'true',
+        TEST_RETRY_STRATEGY: 'fixed',
+        TEST_RETRY_MAX_RETRIES: '2',
+        TEST_RETRY_BASE_DELAY: '10',
+        TEST_RETRY_BASE_DELAY_UNIT: 'sec',
+        TEST_IDEMPOTENCY_ENABLED: 'true',
+        TEST_IDEMPOTENCY_TTL_SECONDS: '60',
+        TEST_DLQ_ENABLED: 'true',
+        TEST_DLQ_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue-dlq',
+      },
+      'TEST'
+    );
+
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const consumer = SQSConsumer.fromQueueConfig(queueConfig, mockHandler, { idempotencyStore });
+
+    mockSend.mockResolvedValueOnce({
+      Messages: [
+        { MessageId: 'msg-retry', ReceiptHandle: 'receipt-retry', Body: '{}', Attributes: { ApproximateReceiveCount: '2' } },
+        { MessageId: 'msg-exhausted', ReceiptHandle: 'receipt-exhausted', Body: '{}', Attributes: { ApproximateReceiveCount: '3' } },
+        { MessageId: 'msg-ok', ReceiptHandle: 'receipt-ok', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+      ],
+    });
+    mockSend.mockResolvedValue({ Messages: [], Successful: [{ Id: '0' }], Failed: [] });
+
+    mockHandler.handle = vi.fn().mockImplementation(async (message) =>
+      message.MessageId === 'msg-ok' ? { status: 'success' } : { status: 'retry', reason: 'DB down' }
+    );
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // Fixed strategy with a 10 second base delay
+    const visibilityCall = findCall('ChangeMessageVisibilityCommand');
+    expect(visibilityCall[0].input.ReceiptHandle).toBe('receipt-retry');
+    expect(visibilityCall[0].input.VisibilityTimeout).toBe(10);
+
+    // 3rd delivery exceeds maxRetries=2 and goes to the DLQ
+    const dlqCall = findCall('SendMessageBatchCommand');
+    expect(dlqCall[0].input.QueueUrl).toBe('https://sqs.us-east-1.amazonaws.com/123456789/test-queue-dlq');
+    expect(JSON.parse(dlqCall[0].input.Entries[0].MessageBody).originalMessage.messageId).toBe('msg-exhausted');
+
+    // Injected idempotency store is used
+    expect(await idempotencyStore.hasProcessed('msg-ok')).toBe(true);
+  });
+
+  it('should map concurrent processing mode to a worker pool', async () => {
+    const queueConfig = createSQSQueueConfig(
+      {
+        TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+        TEST_PROCESSING_MODE: 'concurrent',
+        TEST_CONCURRENCY: '3',
+      },
+      'TEST'
+    );
+
+    const consumer = SQSConsumer.fromQueueConfig(queueConfig, mockHandler);
+    mockSend.mockResolvedValue({ Messages: [] });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await consumer.stop();
+
+    // Receives are capped by the number of free slots
+    expect(findCall('ReceiveMessageCommand')[0].input.MaxNumberOfMessages).toBe(3);
+  });
+});
+
+describe('SQSConsumer - Batch handler', () => {
+  let mockSend: any;
+  let mockBatchHandler: BatchMessageHandler;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const messages = [
+    { MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: JSON.stringify({ postId: '1' }), Attributes: { ApproximateReceiveCount: '1' } },
+    { MessageId: 'msg-2', ReceiptHandle: 'receipt-2', Body: JSON.stringify({ postId: '2' }), Attributes: { ApproximateReceiveCount: '1' } },
+    { MessageId: 'msg-3', ReceiptHandle: 'receipt-3', Body: JSON.stringify({ postId: '3' }), Attributes: { ApproximateReceiveCount: '1' } },
+  ];
+
+  const callsOf = (commandName: string) =>
+    mockSend.mock.calls.filter((call: any) => call[0].constructor.name === commandName);
+
+  // First receive returns the batch, later receives are empty; every other command succeeds
+  const receiveBatchOnce = () => {
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return { Messages: messages };
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockBatchHandler = { handleBatch: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass the whole batch to one handler call and settle each message by its result', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockBatchHandler);
+    mockBatchHandler.handleBatch = vi.fn().mockResolvedValue(new Map([
+      ['msg-1', { status: 'success' }],
+      ['msg-2', { status: 'retry', reason: 'DB busy' }],
+      ['msg-3', { status: 'fail', reason: 'Post not found' }],
+    ]));
+    receiveBatchOnce();
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    const batch = vi.mocked(mockBatchHandler.handleBatch).mock.calls[0]![0];
+    expect(batch.map(({ message }) => message.MessageId)).toEqual(['msg-1', 'msg-2', 'msg-3']);
+    expect(batch[0]!.metadata.retryCount).toBe(1);
+
+    // Success and permanent failure are deleted
+    const deletedHandles = callsOf('DeleteMessageBatchCommand')
+      .flatMap((call: any) => call[0].input.Entries.map((entry: any) => entry.ReceiptHandle));
+    expect(deletedHandles).toEqual(['receipt-1', 'receipt-3']);
+
+    // Retry is backed off
+    const visibilityCalls = callsOf('ChangeMessageVisibilityCommand');
+    expect(visibilityCalls).toHaveLength(1);
+    expect(visibilityCalls[0][0].input.ReceiptHandle).toBe('receipt-2');
+  });
+
+  it('should treat messages missing from the result map as successful', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockBatchHandler);
+    mockBatchHandler.handleBatch = vi.fn().mockResolvedValue(new Map([
+      ['msg-2', { status: 'retry', reason: 'DB busy' }],
+    ]));
+    receiveBatchOnce();
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const deletedHandles = callsOf('DeleteMessageBatchCommand')
+      .flatMap((call: any) => call[0].input.Entries.map((entry: any) => entry.ReceiptHandle));
+    expect(deletedHandles).toEqual(['receipt-1', 'receipt-3']);
+    expect(callsOf('ChangeMessageVisibilityCommand')).toHaveLength(1);
+  });
+
+  it('should retry every message when the batch handler throws', async () => {
+    const consumer = new SQSConsumer({ sqsConfig }, mockBatchHandler);
+    mockBatchHandler.handleBatch = vi.fn().mockRejectedValue(new Error('Connection lost'));
+    receiveBatchOnce();
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(callsOf('DeleteMessageBatchCommand')).toHaveLength(0);
+    expect(callsOf('ChangeMessageVisibilityCommand')).toHaveLength(3);
+  });
+
+  it('should leave already processed messages out of the batch', async () => {
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    await idempotencyStore.markProcessed('msg-2', 3600);
+
+    const consumer = new SQSConsumer({ sqsConfig }, mockBatchHandler, { idempotencyStore });
+    mockBatchHandler.handleBatch = vi.fn().mockResolvedValue(new Map());
+    receiveBatchOnce();
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const batch = vi.mocked(mockBatchHandler.handleBatch).mock.calls[0]![0];
+    expect(batch.map(({ message }) => message.MessageId)).toEqual(['msg-1', 'msg-3']);
+    expect(await idempotencyStore.hasProcessed('msg-1')).toBe(true);
+    expect(await idempotencyStore.hasProcessed('msg-3')).toBe(true);
+
+    const deletedHandles = callsOf('DeleteMessageBatchCommand')
+      .flatMap((call: any) => call[0].input.Entries.map((entry: any) => entry.ReceiptHandle));
+    expect(deletedHandles).toEqual(['receipt-1', 'receipt-2', 'receipt-3']);
+  });
+
+  it('should run each received batch as one task in the concurrency pool', async () => {
+    const consumer = new SQSConsumer({ sqsConfig, concurrency: 2 }, mockBatchHandler);
+    mockBatchHandler.handleBatch = vi.fn().mockResolvedValue(new Map());
+    receiveBatchOnce();
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(mockBatchHandler.handleBatch).mock.calls[0]![0]).toHaveLength(3);
+    expect(callsOf('ReceiveMessageCommand')[0][0].input.MaxNumberOfMessages).toBe(10);
+  });
+});
+
+describe('SQSConsumer - Double buffer', () => {
+  let mockSend: any;
+  let mockBatchHandler: BatchMessageHandler;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const message = (id: string) => ({ MessageId: `msg-${id}`, ReceiptHandle: `receipt-${id}`, Body: JSON.stringify({ postId: id }) });
+
+  const callsOf = (commandName: string) =>
+    mockSend.mock.calls.filter((call: any) => call[0].constructor.name === commandName);
+
+  // Receives return the given batches in order, then nothing; every other command succeeds
+  const receiveBatches = (batches: Array<ReturnType<typeof message>[]>) => {
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        return { Messages: batches.shift() ?? [] };
+      }
+      return { Successful: [{ Id: '0' }], Failed: [] };
+    });
+  };
+
+  const batchIds = (call: number) =>
+    vi.mocked(mockBatchHandler.handleBatch).mock.calls[call]![0].map(({ message }) => message.MessageId);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    mockBatchHandler = { handleBatch: vi.fn().mockResolvedValue(new Map()) };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should buffer messages across polls and call the handler once the buffer is full', async () => {
+    const consumer = new SQSConsumer(
+      { sqsConfig, bufferMaxSize: 4, bufferFlushIntervalMs: 60000, pollIntervalMs: 10 },
+      mockBatchHandler
+    );
+    receiveBatches([[message('1'), message('2')], [message('3'), message('4')]]);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    expect(batchIds(0)).toEqual(['msg-1', 'msg-2', 'msg-3', 'msg-4']);
+
+    await consumer.stop();
+
+    // Second receive only asks for the space left in the buffer
+    expect(callsOf('ReceiveMessageCommand')[1][0].input.MaxNumberOfMessages).toBe(2);
+    expect(callsOf('DeleteMessageBatchCommand')[0][0].input.Entries).toHaveLength(4);
+  });
+
+  it('should flush a partial buffer once the flush interval has passed', async () => {
+    const consumer = new SQSConsumer(
+      { sqsConfig, bufferMaxSize: 100, bufferFlushIntervalMs: 50, pollIntervalMs: 10 },
+      mockBatchHandler
+    );
+    receiveBatches([[message('1')], [message('2')]]);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    expect(batchIds(0)).toEqual(['msg-1', 'msg-2']);
+
+    // Long poll is cut down to the time left in the window
+    expect(callsOf('ReceiveMessageCommand')[1][0].input.WaitTimeSeconds).toBe(0);
+
+    await consumer.stop();
+  });
+
+  it('should extend visibility of buffered messages', async () => {
+    const consumer = new SQSConsumer(
+      { sqsConfig, bufferMaxSize: 100, bufferFlushIntervalMs: 150, heartbeatIntervalSeconds: 0.03, pollIntervalMs: 10 },
+      mockBatchHandler
+    );
+    receiveBatches([[message('1')]]);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(mockBatchHandler.handleBatch).not.toHaveBeenCalled();
+    const visibilityCalls = callsOf('ChangeMessageVisibilityCommand');
+    expect(visibilityCalls.length).toBeGreaterThan(0);
+    expect(visibilityCalls[0][0].input.ReceiptHandle).toBe('receipt-1');
+    expect(visibilityCalls[0][0].input.VisibilityTimeout).toBe(30);
+
+    await consumer.stop();
+  });
+
+  it('should process the buffered messages when stopped', async () => {
+    const consumer = new SQSConsumer(
+      { sqsConfig, bufferMaxSize: 100, bufferFlushIntervalMs: 60000, pollIntervalMs: 10 },
+      mockBatchHandler
+    );
+    receiveBatches([[message('1'), message('2')]]);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(mockBatchHandler.handleBatch).not.toHaveBeenCalled();
+
+    await consumer.stop();
+
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    expect(batchIds(0)).toEqual(['msg-1', 'msg-2']);
+  });
+
+  it('should delete and dead-letter a flushed buffer in calls of at most 10 entries', async () => {
+    const deadLetterQueueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue-dlq';
+    const consumer = new SQSConsumer(
+      { sqsConfig, bufferMaxSize: 25, bufferFlushIntervalMs: 60000, pollIntervalMs: 10 },
+      mockBatchHandler,
+      { deadLetterQueueUrl }
+    );
+    const messages = Array.from({ length: 25 }, (_, i) => message(String(i + 1)));
+    const batches = [messages.slice(0, 10), messages.slice(10, 20), messages.slice(20)];
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        return { Messages: batches.shift() ?? [] };
+      }
+      // The DLQ rejects msg-1 (entry 0 of the first call)
+      const rejectFirst = command.input.QueueUrl === deadLetterQueueUrl && command.input.Entries[0].MessageBody.includes('msg-1"');
+      return {
+        Successful: command.input.Entries.slice(rejectFirst ? 1 : 0).map(({ Id }: any) => ({ Id })),
+        Failed: rejectFirst ? [{ Id: command.input.Entries[0].Id, SenderFault: false, Code: 'InternalError' }] : [],
+      };
+    });
+    // msg-1 ... msg-12 fail, the rest succeed
+    vi.mocked(mockBatchHandler.handleBatch).mockImplementation(async (items) => new Map(
+      items.slice(0, 12).map(({ message }) => [message.MessageId!, { status: 'fail' as const }])
+    ));
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    expect(callsOf('SendMessageBatchCommand').map(([command]: any) => command.input.Entries.length)).toEqual([10, 2]);
+
+    const deleteCalls = callsOf('DeleteMessageBatchCommand').map(([command]: any) => command.input.Entries);
+    expect(deleteCalls.map((entries: any[]) => entries.length)).toEqual([10, 3, 10, 1]);
+    const deletedHandles = deleteCalls.flat().map((entry: any) => entry.ReceiptHandle);
+    expect(deletedHandles).toHaveLength(24);
+    expect(deletedHandles).not.toContain('receipt-1'); // Kept on the queue, the DLQ rejected it
+  });
+
+  it('should reject a buffer combined with concurrency', () => {
+    expect(() => new SQSConsumer({ sqsConfig, bufferMaxSize: 10, concurrency: 2 }, mockBatchHandler))
+      .toThrow('bufferMaxSize cannot be combined with concurrency');
+  });
+
+  it('should read the double buffer settings from env vars', () => {
+    const queueConfig = createSQSQueueConfig(
+      {
+        TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+        TEST_DOUBLE_BUFFER_ENABLED: 'true',
+        TEST_DOUBLE_BUFFER_MAX_SIZE: '500',
+        TEST_DOUBLE_BUFFER_FLUSH_INTERVAL_MS: '2000',
+      },
+      'TEST'
+    );
+
+    expect(queueConfig.doubleBuffer).toEqual({ enabled: true, maxSize: 500, flushIntervalMs: 2000 });
+  });
+});
+
+describe('SQSConsumer - Middleware pipeline', () => {
+  let mockSend: any;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const messages = [
+    { MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: JSON.stringify({ postId: '1' }) },
+    { MessageId: 'msg-2', ReceiptHandle: 'receipt-2', Body: 'not json' },
+    { MessageId: 'msg-3', ReceiptHandle: 'receipt-3', Body: JSON.stringify({ postId: '3' }) },
+  ];
+
+  const callsOf = (commandName: string) =>
+    mockSend.mock.calls.filter((call: any) => call[0].constructor.name === commandName);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return { Messages: messages };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should run the middlewares around each handler call', async () => {
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(async (_message, metadata) =>
+        metadata.body.postId === '1' ? { status: 'success' } : { status: 'retry', reason: 'DB busy' }
+      ),
+    };
+    const events: string[] = [];
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, {
+      middlewares: [
+        async (ctx, next) => {
+          events.push(`before:${ctx.message.MessageId}`);
+          const result = await next();
+          events.push(`after:${ctx.message.MessageId}:${result.status}`);
+          return result;
+        },
+        jsonBody(),
+      ],
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // Invalid JSON never reaches the handler
+    expect(mockHandler.handle).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([
+      'before:msg-1', 'after:msg-1:success',
+      'before:msg-2', 'after:msg-2:fail',
+      'before:msg-3', 'after:msg-3:retry',
+    ]);
+
+    const deletedHandles = callsOf('DeleteMessageBatchCommand')
+      .flatMap((call: any) => call[0].input.Entries.map((entry: any) => entry.ReceiptHandle));
+    expect(deletedHandles).toEqual(['receipt-1', 'receipt-2']);
+  });
+
+  it('should run the middlewares per message around a batch handler call', async () => {
+    const mockBatchHandler: BatchMessageHandler = {
+      handleBatch: vi.fn().mockResolvedValue(new Map([['msg-3', { status: 'retry', reason: 'DB busy' }]])),
+    };
+    const statuses: string[] = [];
+    const consumer = new SQSConsumer({ sqsConfig }, mockBatchHandler, {
+      middlewares: [
+        async (ctx, next) => {
+          const result = await next();
+          statuses.push(`${ctx.message.MessageId}:${result.status}`);
+          return result;
+        },
+        jsonBody(),
+      ],
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // One call, without the message that failed in the pipeline
+    expect(mockBatchHandler.handleBatch).toHaveBeenCalledTimes(1);
+    const batch = vi.mocked(mockBatchHandler.handleBatch).mock.calls[0]![0];
+    expect(batch.map(({ message }) => message.MessageId)).toEqual(['msg-1', 'msg-3']);
+    expect(batch[0]!.metadata.body).toEqual({ postId: '1' });
+
+    expect(statuses.sort()).toEqual(['msg-1:success', 'msg-2:fail', 'msg-3:retry']);
+    expect(callsOf('ChangeMessageVisibilityCommand')).toHaveLength(1);
+  });
+
+  it('should retry every message that reached a throwing batch handler', async () => {
+    const mockBatchHandler: BatchMessageHandler = {
+      handleBatch: vi.fn().mockRejectedValue(new Error('Connection lost')),
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, mockBatchHandler, { middlewares: [jsonBody()] });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const deletedHandles = callsOf('DeleteMessageBatchCommand')
+      .flatMap((call: any) => call[0].input.Entries.map((entry: any) => entry.ReceiptHandle));
+    expect(deletedHandles).toEqual(['receipt-2']);
+    expect(callsOf('ChangeMessageVisibilityCommand')).toHaveLength(2);
+  });
+});
+
+describe('SQSConsumer - Handler timeout', () => {
+  let mockSend: any;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const messages = [
+    { MessageId: 'msg-stuck', ReceiptHandle: 'receipt-stuck', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+    { MessageId: 'msg-ok', ReceiptHandle: 'receipt-ok', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+  ];
+
+  const callsOf = (commandName: string) =>
+    mockSend.mock.calls.filter((call: any) => call[0].constructor.name === commandName);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return { Messages: messages };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should abort a stuck handler, retry its message and keep processing the rest', async () => {
+    let stuckSignal: AbortSignal | undefined;
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(async (message, metadata) => {
+        if (message.MessageId === 'msg-stuck') {
+          stuckSignal = metadata.signal;
+          return new Promise(() => undefined); // Never settles
+        }
+        return { status: 'success' };
+      }),
+    };
+    const consumer = new SQSConsumer({ sqsConfig, handlerTimeoutMs: 30 }, mockHandler);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await consumer.stop();
+
+    expect(stuckSignal?.aborted).toBe(true);
+    expect(mockHandler.handle).toHaveBeenCalledTimes(2);
+
+    const deleteCall = callsOf('DeleteMessageBatchCommand')[0];
+    expect(deleteCall[0].input.Entries.map((entry: any) => entry.ReceiptHandle)).toEqual(['receipt-ok']);
+    const visibilityCalls = callsOf('ChangeMessageVisibilityCommand');
+    expect(visibilityCalls).toHaveLength(1);
+    expect(visibilityCalls[0][0].input.ReceiptHandle).toBe('receipt-stuck');
+
+    expect(consumer.getMetrics().handlerTimeouts).toBe(1);
+  });
+
+  it('should retry the whole batch when a batch handler times out', async () => {
+    const signals: AbortSignal[] = [];
+    const mockBatchHandler: BatchMessageHandler = {
+      handleBatch: vi.fn().mockImplementation(async (batch) => {
+        signals.push(...batch.map(({ metadata }: any) => metadata.signal));
+        return new Promise(() => undefined);
+      }),
+    };
+    const consumer = new SQSConsumer({ sqsConfig, handlerTimeoutMs: 30 }, mockBatchHandler);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await consumer.stop();
+
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    expect(callsOf('DeleteMessageBatchCommand')).toHaveLength(0);
+    expect(callsOf('ChangeMessageVisibilityCommand')).toHaveLength(2);
+    expect(consumer.getMetrics().handlerTimeouts).toBe(2);
+  });
+
+  it('should not abort handlers that finish in time', async () => {
+    let signal: AbortSignal | undefined;
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(async (_message, metadata) => {
+        signal = metadata.signal;
+        return { status: 'success' };
+      }),
+    };
+    const consumer = new SQSConsumer({ sqsConfig, handlerTimeoutMs: 1000 }, mockHandler);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(signal?.aborted).toBe(false);
+    expect(consumer.getMetrics().handlerTimeouts).toBe(0);
+  });
+
+  it('should read the handler timeout from env vars', () => {
+    const queueConfig = createSQSQueueConfig(
+      {
+        TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+        TEST_HANDLER_TIMEOUT_MS: '5000',
+      },
+      'TEST'
+    );
+
+    expect(queueConfig.handlerTimeoutMs).toBe(5000);
+  });
+});
+
+describe('SQSConsumer - Circuit breaker', () => {
+  let mockSend: any;
+  let receives: number[];
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const createMessage = (id: number) => ({
+    MessageId: `msg-${id}`,
+    ReceiptHandle: `receipt-${id}`,
+    Body: '{}',
+    Attributes: { ApproximateReceiveCount: '1' },
+  });
+
+  // Each receive hands out the next batch of the given sizes, then nothing
+  const queueBatches = (...sizes: number[]) => {
+    let nextId = 1;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      receives.push(command.input.MaxNumberOfMessages);
+      const size = Math.min(sizes.shift() ?? 0, command.input.MaxNumberOfMessages);
+      return { Messages: Array.from({ length: size }, () => createMessage(nextId++)) };
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    receives = [];
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stop receiving once the failure rate trips the circuit', async () => {
+    queueBatches(2, 2, 2);
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockResolvedValue({ status: 'retry', reason: 'Database unavailable' }),
+    };
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 60000 });
+    const consumer = new SQSConsumer({ sqsConfig, pollIntervalMs: 10 }, mockHandler, { circuitBreaker });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(receives).toEqual([10]);
+    expect(mockHandler.handle).toHaveBeenCalledTimes(2);
+    expect(consumer.getCircuitBreaker()?.getState()).toBe('open');
+  });
+
+  it('should close the circuit after a successful probe message', async () => {
+    queueBatches(2, 2);
+    const mockHandler: MessageHandler = {
+      handle: vi
+        .fn()
+        .mockResolvedValueOnce({ status: 'retry' })
+        .mockResolvedValueOnce({ status: 'retry' })
+        .mockResolvedValue({ status: 'success' }),
+    };
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 30 });
+    const transitions: string[] = [];
+    circuitBreaker.on('state_change', ({ to }) => transitions.push(to));
+    const consumer = new SQSConsumer({ sqsConfig, pollIntervalMs: 10 }, mockHandler, { circuitBreaker });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await consumer.stop();
+
+    // Probe receive asks for a single message
+    expect(receives.slice(0, 2)).toEqual([10, 1]);
+    expect(transitions).toEqual(['open', 'half_open', 'closed']);
+    expect(circuitBreaker.getState()).toBe('closed');
+  });
+
+  it('should re-open the circuit when the probe message fails', async () => {
+    queueBatches(2, 2);
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockResolvedValue({ status: 'retry' }),
+    };
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 50 });
+    const transitions: string[] = [];
+    circuitBreaker.on('state_change', ({ to }) => transitions.push(to));
+    const consumer = new SQSConsumer({ sqsConfig, pollIntervalMs: 10 }, mockHandler, { circuitBreaker });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 80));
+    await consumer.stop();
+
+    expect(receives).toEqual([10, 1]);
+    expect(mockHandler.handle).toHaveBeenCalledTimes(3);
+    expect(transitions).toEqual(['open', 'half_open', 'open']);
+  });
+
+  it('should not count permanent failures against the circuit', async () => {
+    queueBatches(2, 2);
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockResolvedValue({ status: 'fail', reason: 'Invalid payload' }),
+    };
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 2 });
+    const consumer = new SQSConsumer({ sqsConfig, pollIntervalMs: 10 }, mockHandler, { circuitBreaker });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(mockHandler.handle).toHaveBeenCalledTimes(4);
+    expect(circuitBreaker.getState()).toBe('closed');
+  });
+
+  it('should build a circuit breaker from env vars', () => {
+    const queueConfig = createSQSQueueConfig(
+      {
+        TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+        TEST_CIRCUIT_BREAKER_ENABLED: 'true',
+        TEST_CIRCUIT_BREAKER_FAILURE_RATE_THRESHOLD: '0.8',
+        TEST_CIRCUIT_BREAKER_OPEN_DURATION_MS: '10000',
+      },
+      'TEST'
+    );
+
+    expect(queueConfig.circuitBreaker).toEqual({
+      enabled: true,
+      failureRateThreshold: 0.8,
+      minimumRequests: 10,
+      windowMs: 60000,
+      openDurationMs: 10000,
+    });
+
+    const consumer = SQSConsumer.fromQueueConfig(queueConfig, { handle: vi.fn() });
+    expect(consumer.getCircuitBreaker()).toBeInstanceOf(CircuitBreaker);
+
+    const withoutBreaker = SQSConsumer.fromQueueConfig(
+      createSQSQueueConfig({ TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue' }, 'TEST'),
+      { handle: vi.fn() }
+    );
+    expect(withoutBreaker.getCircuitBreaker()).toBeUndefined();
+  });
+});
+
+describe('SQSConsumer - Lifecycle events', () => {
+  let mockSend: any;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const messages = [
+    { MessageId: 'msg-ok', ReceiptHandle: 'receipt-ok', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+    { MessageId: 'msg-retry', ReceiptHandle: 'receipt-retry', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+    { MessageId: 'msg-fail', ReceiptHandle: 'receipt-fail', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+  ];
+
+  const mockHandler: MessageHandler = {
+    handle: async (message) => {
+      if (message.MessageId === 'msg-retry') {
+        return { status: 'retry', reason: 'Try again' };
+      }
+      if (message.MessageId === 'msg-fail') {
+        return { status: 'fail', reason: 'Invalid' };
+      }
+      return { status: 'success' };
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should emit events for received, processed and failed messages and the completed batch', async () => {
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return { Messages: messages };
+    });
+
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+    const events: string[] = [];
+    consumer.on('started', () => events.push('started'));
+    consumer.on('message_received', (message) => events.push(`received ${message.MessageId}`));
+    consumer.on('message_processed', (message) => events.push(`processed ${message.MessageId}`));
+    consumer.on('message_failed', (message, result) => events.push(`failed ${message.MessageId} (${result.status})`));
+    const onBatchCompleted = vi.fn();
+    consumer.on('batch_completed', onBatchCompleted);
+    consumer.on('stopped', () => events.push('stopped'));
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    expect(events).toEqual([
+      'started',
+      'received msg-ok',
+      'received msg-retry',
+      'received msg-fail',
+      'processed msg-ok',
+      'failed msg-retry (retry)',
+      'failed msg-fail (fail)',
+      'stopped',
+    ]);
+    expect(onBatchCompleted).toHaveBeenCalledTimes(1);
+    expect(onBatchCompleted).toHaveBeenCalledWith(
+      expect.objectContaining({ size: 3, succeeded: 1, retried: 1, failed: 1 })
+    );
+  });
+
+  it('should emit poll_error when receiving fails', async () => {
+    mockSend.mockRejectedValue(new Error('Access denied'));
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+    const onPollError = vi.fn();
+    consumer.on('poll_error', onPollError);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await consumer.stop();
+
+    expect(onPollError).toHaveBeenCalledTimes(1);
+    expect(onPollError.mock.calls[0]?.[0]).toMatchObject({ message: 'Access denied' });
+  });
+
+  it('should forward circuit breaker state changes', async () => {
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 1 });
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { circuitBreaker });
+    const onStateChange = vi.fn();
+    consumer.on('circuit_state_change', onStateChange);
+
+    circuitBreaker.recordFailure();
+
+    expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({ from: 'closed', to: 'open' }));
+  });
+});
+
+describe('SQSConsumer - Pause and resume', () => {
+  let mockSend: any;
+  let receiveCount: number;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    receiveCount = 0;
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+
+    mockSend.mockImplementation(async (command: any, options?: { abortSignal?: AbortSignal }) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      receiveCount++;
+      const id = receiveCount;
+      if (id === 1) {
+        return {
+          Messages: [
+            { MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: '{}', Attributes: { ApproximateReceiveCount: '1' } },
+          ],
+        };
+      }
+      // Long poll that only ends when aborted
+      return new Promise((_resolve, reject) => {
+        options?.abortSignal?.addEventListener('abort', () => reject(new Error('Request aborted')));
+      });
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should let in-flight messages finish but stop receiving while paused', async () => {
+    let finishHandler: () => void = () => undefined;
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(
+        () => new Promise((resolve) => (finishHandler = () => resolve({ status: 'success' })))
+      ),
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+    const onPaused = vi.fn();
+    const onPollError = vi.fn();
+    consumer.on('paused', onPaused);
+    consumer.on('poll_error', onPollError);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    consumer.pause();
+    finishHandler();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(consumer.isPaused()).toBe(true);
+    expect(onPaused).toHaveBeenCalledTimes(1);
+    expect(receiveCount).toBe(1);
+    const deleteCalls = mockSend.mock.calls.filter((call: any) => call[0].constructor.name === 'DeleteMessageBatchCommand');
+    expect(deleteCalls).toHaveLength(1);
+
+    await consumer.stop();
+    expect(receiveCount).toBe(1);
+    expect(onPollError).not.toHaveBeenCalled();
+  });
+
+  it('should abort the long poll on pause and receive again after resume', async () => {
+    const mockHandler: MessageHandler = { handle: vi.fn().mockResolvedValue({ status: 'success' }) };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+    const onResumed = vi.fn();
+    const onPollError = vi.fn();
+    consumer.on('resumed', onResumed);
+    consumer.on('poll_error', onPollError);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(receiveCount).toBe(2); // Second receive is a pending long poll
+
+    consumer.pause();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(receiveCount).toBe(2);
+
+    consumer.resume();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(consumer.isPaused()).toBe(false);
+    expect(onResumed).toHaveBeenCalledTimes(1);
+    expect(receiveCount).toBe(3);
+
+    await consumer.stop();
+    expect(onPollError).not.toHaveBeenCalled();
+  });
+});
+
+describe('SQSConsumer - FIFO queues', () => {
+  let mockSend: any;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue.fifo',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const createMessage = (id: string, groupId: string) => ({
+    MessageId: id,
+    ReceiptHandle: `receipt-${id}`,
+    Body: '{}',
+    Attributes: { ApproximateReceiveCount: '1', MessageGroupId: groupId },
+  });
+
+  const messages = [
+    createMessage('a1', 'user-a'),
+    createMessage('b1', 'user-b'),
+    createMessage('a2', 'user-a'),
+    createMessage('a3', 'user-a'),
+    createMessage('b2', 'user-b'),
+  ];
+
+  const callsOf = (commandName: string) =>
+    mockSend.mock.calls.filter((call: any) => call[0].constructor.name === commandName);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return { Messages: messages };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should process groups in parallel and messages within a group in order', async () => {
+    const log: string[] = [];
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(async (message) => {
+        log.push(`start ${message.MessageId}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        log.push(`end ${message.MessageId}`);
+        return { status: 'success' };
+      }),
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler);
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await consumer.stop();
+
+    // Both groups start at once, each one only moves on when its previous message is done
+    expect(log.slice(0, 2)).toEqual(['start a1', 'start b1']);
+    expect(log.indexOf('start a2')).toBeGreaterThan(log.indexOf('end a1'));
+    expect(log.indexOf('start a3')).toBeGreaterThan(log.indexOf('end a2'));
+    expect(log.indexOf('start b2')).toBeGreaterThan(log.indexOf('end b1'));
+
+    const deleteCall = callsOf('DeleteMessageBatchCommand')[0];
+    expect(deleteCall[0].input.Entries.map((entry: any) => entry.ReceiptHandle)).toEqual([
+      'receipt-a1',
+      'receipt-b1',
+      'receipt-a2',
+      'receipt-a3',
+      'receipt-b2',
+    ]);
+  });
+
+  it('should release the rest of a group once one of its messages fails', async () => {
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(async (message) =>
+        message.MessageId === 'a1' ? { status: 'retry', reason: 'Database unavailable' } : { status: 'success' }
+      ),
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { backoffBaseDelay: 10, retryStrategy: 'fixed' });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const handled = vi.mocked(mockHandler.handle).mock.calls.map(([message]) => message.MessageId);
+    expect(handled).toEqual(['a1', 'b1', 'b2']);
+
+    const deleteCall = callsOf('DeleteMessageBatchCommand')[0];
+    expect(deleteCall[0].input.Entries.map((entry: any) => entry.ReceiptHandle)).toEqual(['receipt-b1', 'receipt-b2']);
+
+    const visibilityChanges = callsOf('ChangeMessageVisibilityCommand').map((call: any) => [
+      call[0].input.ReceiptHandle,
+      call[0].input.VisibilityTimeout,
+    ]);
+    expect(visibilityChanges).toEqual([
+      ['receipt-a1', 10],
+      ['receipt-a2', 0],
+      ['receipt-a3', 0],
+    ]);
+  });
+
+  it('should release the rest of a group after a failed message of a batch handler', async () => {
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const batchHandler: BatchMessageHandler = {
+      handleBatch: vi.fn().mockResolvedValue(new Map([['a1', { status: 'retry', reason: 'Database unavailable' }]])),
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, batchHandler, {
+      backoffBaseDelay: 10,
+      retryStrategy: 'fixed',
+      idempotencyStore,
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const deleteCall = callsOf('DeleteMessageBatchCommand')[0];
+    expect(deleteCall[0].input.Entries.map((entry: any) => entry.ReceiptHandle)).toEqual(['receipt-b1', 'receipt-b2']);
+
+    const visibilityChanges = callsOf('ChangeMessageVisibilityCommand').map((call: any) => [
+      call[0].input.ReceiptHandle,
+      call[0].input.VisibilityTimeout,
+    ]);
+    expect(visibilityChanges).toEqual([
+      ['receipt-a1', 10],
+      ['receipt-a2', 0],
+      ['receipt-a3', 0],
+    ]);
+
+    // Handled again after a1 once redelivered
+    expect(await idempotencyStore.acquire('a2', 30)).toBe('acquired');
+  });
+
+  it('should keep the message group when dead-lettering to a FIFO queue', async () => {
+    const mockHandler: MessageHandler = {
+      handle: vi.fn().mockImplementation(async (message) =>
+        message.MessageId === 'b1' ? { status: 'fail', reason: 'Invalid payload' } : { status: 'success' }
+      ),
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, {
+      deadLetterQueueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-dlq.fifo',
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    const dlqEntries = callsOf('SendMessageBatchCommand')[0][0].input.Entries;
+    expect(dlqEntries).toHaveLength(1);
+    expect(dlqEntries[0]).toMatchObject({ MessageGroupId: 'user-b', MessageDeduplicationId: 'b1' });
+  });
+
+  it('should only use FIFO mode for .fifo queues unless configured', () => {
+    expect(() => new SQSConsumer({ sqsConfig, concurrency: 5 }, { handle: vi.fn() })).toThrow(
+      'concurrency cannot be used with FIFO queues'
+    );
+    expect(
+      () => new SQSConsumer({ sqsConfig: { ...sqsConfig, fifo: false }, concurrency: 5 }, { handle: vi.fn() })
+    ).not.toThrow();
+
+    const queueConfig = createSQSQueueConfig(
+      {
+        TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+        TEST_FIFO: 'true',
+      },
+      'TEST'
+    );
+    expect(queueConfig.fifo).toBe(true);
+  });
+});
+
+describe('SQSConsumer - Rate limit', () => {
+  let mockSend: any;
+  let nextId: number;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const callsOf = (commandName: string) =>
+    mockSend.mock.calls.filter((call: any) => call[0].constructor.name === commandName);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    nextId = 1;
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+
+    // Backlog replay: every receive returns as many messages as asked for
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      return {
+        Messages: Array.from({ length: command.input.MaxNumberOfMessages }, () => {
+          const id = nextId++;
+          return { MessageId: `msg-${id}`, ReceiptHandle: `receipt-${id}`, Body: '{}', Attributes: { ApproximateReceiveCount: '1' } };
+        }),
+      };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should cap messages per second and defer receives instead of retrying messages', async () => {
+    const mockHandler: MessageHandler = { handle: vi.fn().mockResolvedValue({ status: 'success' }) };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { rateLimit: { messagesPerSecond: 20, burst: 2 } });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await consumer.stop();
+
+    // Burst of 2, then one message every 50ms
+    const handled = vi.mocked(mockHandler.handle).mock.calls.length;
+    expect(handled).toBeGreaterThanOrEqual(4);
+    expect(handled).toBeLessThanOrEqual(7);
+    expect(callsOf('ReceiveMessageCommand').every((call: any) => call[0].input.MaxNumberOfMessages <= 2)).toBe(true);
+    expect(callsOf('ChangeMessageVisibilityCommand')).toHaveLength(0);
+    expect(consumer.getMetrics().throttledReceives).toBeGreaterThan(0);
+  });
+
+  it('should share one budget between consumers using the same store', async () => {
+    const store = new InMemoryRateLimitStore();
+    const mockHandler: MessageHandler = { handle: vi.fn().mockResolvedValue({ status: 'success' }) };
+    const rateLimit = { messagesPerSecond: 10, burst: 2, store, key: 'recommender' };
+    const consumers = [
+      new SQSConsumer({ sqsConfig }, mockHandler, { rateLimit }),
+      new SQSConsumer({ sqsConfig }, mockHandler, { rateLimit }),
+    ];
+
+    await Promise.all(consumers.map((consumer) => consumer.start()));
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await Promise.all(consumers.map((consumer) => consumer.stop()));
+
+    // 2 (burst) + ~1.5 refilled, across both consumers
+    expect(vi.mocked(mockHandler.handle).mock.calls.length).toBeLessThanOrEqual(4);
+  });
+
+  it('should return the tokens of messages a receive did not get', async () => {
+    const store = new InMemoryRateLimitStore();
+    const refund = vi.spyOn(store, 'refund');
+    const mockHandler: MessageHandler = { handle: vi.fn().mockResolvedValue({ status: 'success' }) };
+    const consumer = new SQSConsumer({ sqsConfig, pollIntervalMs: 10 }, mockHandler, {
+      rateLimit: { messagesPerSecond: 1, burst: 10, store, key: 'recommender' },
+    });
+
+    // A drained queue: one message, then nothing
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [{ Id: '0' }], Failed: [] };
+      }
+      const id = nextId++;
+      return id === 1 ? { Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: '{}' }] } : { Messages: [] };
+    });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+
+    // Only the one received message used up a token - empty receives don't drain the bucket
+    expect(refund).toHaveBeenCalledWith('recommender', 9, { capacity: 10, refillPerSecond: 1 });
+    expect(callsOf('ReceiveMessageCommand').length).toBeGreaterThan(2);
+    expect(callsOf('ReceiveMessageCommand').every((call: any) => call[0].input.MaxNumberOfMessages >= 9)).toBe(true);
+    expect(consumer.getMetrics().throttledReceives).toBe(0);
+  });
+
+  it('should read the rate limit from env vars', () => {
+    const env = {
+      TEST_QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+      TEST_RATE_LIMIT_ENABLED: 'true',
+    };
+
+    expect(() => createSQSQueueConfig(env, 'TEST')).toThrow('Invalid SQS configuration for TEST');
+
+    const queueConfig = createSQSQueueConfig({ ...env, TEST_RATE_LIMIT_MESSAGES_PER_SECOND: '50' }, 'TEST');
+    expect(queueConfig.rateLimit).toEqual({ enabled: true, messagesPerSecond: 50 });
+  });
+
+  it('should reject invalid rate limits', () => {
+    const mockHandler: MessageHandler = { handle: vi.fn() };
+
+    expect(() => new SQSConsumer({ sqsConfig }, mockHandler, { rateLimit: { messagesPerSecond: 0 } })).toThrow(
+      'messagesPerSecond must be positive'
+    );
+    expect(
+      () => new SQSConsumer({ sqsConfig }, mockHandler, { rateLimit: { messagesPerSecond: 10, burst: 0.5 } })
+    ).toThrow('burst must be a positive integer');
+  });
+});
+
+describe('SQSConsumer - Logging', () => {
+  let mockSend: any;
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let received = false;
+    mockSend = vi.fn().mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return {
+        Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'receipt-1', Body: '{"postId":"post-1"}', Attributes: { ApproximateReceiveCount: '1' } }],
+      };
+    });
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write structured lines carrying the messageId, also for loggers the handler calls into', async () => {
+    const write = vi.fn();
+    const logger = createLogger({ level: 'debug', format: 'json', write });
+    const serviceLogger = createLogger({ name: 'HashtagService', format: 'json', write });
+    const mockHandler: MessageHandler = {
+      handle: async (_message, metadata) => {
+        metadata.logger.child({ postId: 'post-1' }).info('Processing post');
+        serviceLogger.info('No hashtags found');
+        return { status: 'success' };
+      },
+    };
+    const consumer = new SQSConsumer({ sqsConfig }, mockHandler, { logger });
+
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await consumer.stop();
+
+    const lines = write.mock.calls.map(([line]) => JSON.parse(line));
+    expect(lines).toContainEqual(expect.objectContaining({ msg: 'Processing post', messageId: 'msg-1', postId: 'post-1' }));
+    expect(lines).toContainEqual(expect.objectContaining({ name: 'HashtagService', msg: 'No hashtags found', messageId: 'msg-1' }));
+    expect(lines).toContainEqual(expect.objectContaining({ level: 'info', msg: 'Message processed', messageId: 'msg-1' }));
+    expect(lines).toContainEqual(expect.objectContaining({ msg: 'Starting consumer', queueUrl: sqsConfig.queueUrl }));
+  });
+});
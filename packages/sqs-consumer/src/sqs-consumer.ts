@@ -1,34 +1,100 @@
+import { EventEmitter } from 'node:events';
 import {
   SQSClient,
   SQSClientConfig,
   ReceiveMessageCommand,
   DeleteMessageBatchCommand,
   ChangeMessageVisibilityCommand,
+  SendMessageBatchCommand,
   Message,
   DeleteMessageBatchRequestEntry,
+  SendMessageBatchRequestEntry,
 } from '@aws-sdk/client-sqs';
+import { Span, SpanStatusCode } from '@opentelemetry/api';
+import { createLogger, Logger, withLogContext } from '@repo/logger';
 import { IdempotencyStore } from './interfaces/idempotency-store';
+import { BackoffStore } from './interfaces/backoff-store';
+import { calculateBackoffDelay, JitterStrategy } from './backoff';
+import { IdempotencyKeyExtractor, messageIdKey } from './idempotency-keys';
+import { InMemoryIdempotencyStore } from './stores/in-memory-idempotency-store';
+import type { SQSQueueConfig } from './config';
+import { RetryException, FailureException } from './exceptions';
+import { MessageHeartbeat, VisibilityHeartbeat } from './visibility-heartbeat';
+import { composeMiddleware, MessageContext, Middleware, NextFunction } from './middleware';
+import { CircuitBreaker, CircuitStateChange } from './circuit-breaker';
+import { RateLimitStore } from './interfaces/rate-limit-store';
+import { InMemoryRateLimitStore } from './stores/in-memory-rate-limit-store';
+import { endProcessSpan, runInSpan, startBatchProcessSpan, startProcessSpan } from './tracing';
 
 export interface MessageMetadata {
   retryCount: number;
   isLastAttempt: boolean;
+  heartbeat: MessageHeartbeat; // Extend visibility manually for long-running work
+  logger: Logger; // Consumer logger bound to the messageId - add handler fields with logger.child({ postId })
+  idempotencyKey: string; // Namespaced key used by the idempotency store (e.g. for PostgresIdempotencyStore.processInTransaction)
+  body?: unknown; // Parsed body, set by the jsonBody() / validateBody() middlewares
+  signal: AbortSignal; // Aborted when the handler exceeds handlerTimeoutMs - pass it on to cancellable work
 }
 
 export interface MessageResult {
   status: 'success' | 'retry' | 'fail';
   reason?: string;
+  error?: Error; // Underlying error, if any (its stack is forwarded to the DLQ)
+  visibilityTimeoutSeconds?: number; // Retry only: override the backoff delay
+  deadLetter?: boolean; // Fail only: set false to delete the message without sending it to the DLQ (default: true)
+}
+
+/**
+ * Body of a message sent to the dead letter queue
+ */
+export interface DeadLetterEnvelope {
+  originalMessage: {
+    messageId?: string;
+    body?: string;
+    attributes?: Record<string, string>;
+    messageAttributes?: Message['MessageAttributes'];
+  };
+  failure: {
+    type: 'fail' | 'retries_exhausted';
+    reason?: string;
+    stack?: string;
+    receiveCount: number;
+    sourceQueueUrl: string;
+    failedAt: string;
+  };
 }
 
 export interface MessageHandler {
   handle(message: Message, metadata: MessageMetadata): Promise<MessageResult>;
 }
 
+export interface BatchItem {
+  message: Message;
+  metadata: MessageMetadata;
+}
+
+/**
+ * Per-message results of a batch, keyed by MessageId
+ * Messages missing from the map are treated as successful (like Lambda's batchItemFailures)
+ */
+export type BatchMessageResults = Map<string, MessageResult>;
+
+/**
+ * Handler that receives every message of a received batch at once
+ * (minus those skipped or deferred by the idempotency check)
+ * Throwing settles the whole batch the same way a single handler's error would.
+ */
+export interface BatchMessageHandler {
+  handleBatch(batch: BatchItem[]): Promise<BatchMessageResults>;
+}
+
 export interface SQSConfig {
   queueUrl: string;
   maxNumberOfMessages: number;
   waitTimeSeconds: number;
   visibilityTimeout: number;
   maxReceiveCount?: number; // Optional: Max receive count before message goes to DLQ
+  fifo?: boolean; // FIFO queue: message groups are processed in parallel, messages within a group in order (default: queueUrl ends with .fifo)
 }
 
 export interface SQSConsumerConfig {
@@ -36,233 +102,1653 @@ export interface SQSConsumerConfig {
   sqsClientConfig?: SQSClientConfig; // Optional AWS client config
   pollIntervalMs?: number; // Time to wait between polls if no messages (default: 1000ms)
   processInParallel?: boolean; // If true, process messages in parallel; if false, process sequentially (default: false)
+  concurrency?: number; // If set, keep up to N handlers in flight and receive more as slots free up (overrides processInParallel; a BatchMessageHandler call takes one slot)
+  heartbeatIntervalSeconds?: number; // Extend visibility every N seconds while a handler runs (default: visibilityTimeout / 2, 0 disables)
+  maxLeaseSeconds?: number; // Stop extending visibility once a message has been held this long (default: 43200 = 12 hours)
+  drainTimeoutMs?: number; // Max time stop() waits for in-flight messages before releasing them (default: 30000ms)
+  handlerTimeoutMs?: number; // Abort the handler and retry the message if it runs longer than this (default: no timeout)
+  bufferMaxSize?: number; // If set, buffer messages across polls and process them together once N are buffered (can't be combined with concurrency)
+  bufferFlushIntervalMs?: number; // Process a partial buffer once its oldest message has waited this long (default: 1000ms)
+}
+
+/**
+ * Counters since the consumer was created
+ */
+export interface ConsumerMetrics {
+  handlerTimeouts: number; // Handlers that exceeded handlerTimeoutMs
+  throttledReceives: number; // Receives deferred by the rate limit
+}
+
+/**
+ * Token bucket limit on how many messages are received per second
+ */
+export interface RateLimitOptions {
+  messagesPerSecond: number;
+  burst?: number; // Messages allowed at once after an idle period. Default: messagesPerSecond (at least 1)
+  store?: RateLimitStore; // Default: InMemoryRateLimitStore (per consumer); RedisRateLimitStore shares one budget across replicas
+  key?: string; // Bucket name, the same for every consumer sharing the budget. Default: the queue URL
+}
+
+/**
+ * Outcome counts of one processed batch
+ */
+export interface BatchSummary {
+  size: number;
+  succeeded: number;
+  retried: number;
+  failed: number; // Permanent failures and retry-exhausted messages
+  durationMs: number;
+}
+
+/**
+ * Lifecycle events emitted by SQSConsumer
+ * Listeners run synchronously on the processing path - keep them cheap and don't throw.
+ */
+export interface SQSConsumerEvents {
+  started: [];
+  message_received: [message: Message];
+  message_processed: [message: Message, result: MessageResult]; // Handled successfully
+  message_failed: [message: Message, result: MessageResult]; // status 'retry': will be retried; 'fail': failed permanently or exhausted its retries
+  message_skipped: [message: Message]; // Already processed (idempotency hit) - deleted without reaching the handler
+  handler_completed: [message: Message, result: MessageResult, durationMs: number]; // Per message; batch handlers report the shared call's duration
+  handler_timeout: [message: Message]; // Handler exceeded handlerTimeoutMs (the message is retried)
+  receive_throttled: [retryAfterMs: number]; // Receive deferred by the rate limit
+  batch_completed: [summary: BatchSummary];
+  poll_error: [error: unknown];
+  circuit_state_change: [change: CircuitStateChange];
+  paused: [];
+  resumed: [];
+  stopped: [];
 }
 
 export type TimeUnit = 'ms' | 'sec' | 'min' | 'hour';
 export type RetryStrategy = 'exponential' | 'fixed';
 
+/**
+ * Runtime dependencies and settings for SQSConsumer.fromQueueConfig that don't come from env vars
+ */
+export interface SQSConsumerDependencies {
+  sqsClientConfig?: SQSClientConfig;
+  idempotencyStore?: IdempotencyStore; // Used when idempotency is enabled (default: InMemoryIdempotencyStore)
+  idempotencyKey?: IdempotencyKeyExtractor;
+  idempotencyNamespace?: string;
+  backoffStore?: BackoffStore;
+  pollIntervalMs?: number;
+  drainTimeoutMs?: number;
+  middlewares?: Middleware[];
+  circuitBreaker?: CircuitBreaker; // Used when the circuit breaker is enabled (default: one built from the config)
+  rateLimitStore?: RateLimitStore; // Used when rate limiting is enabled (default: InMemoryRateLimitStore)
+  logger?: Logger;
+}
+
+interface ProcessingResult extends MessageResult {
+  deferred?: boolean; // Retry that is not a failure (e.g. locked by another consumer) - no backoff, no retry limit
+  skipped?: boolean; // Already processed - deleted without reaching the handler
+  heldIdempotencyKey?: string; // Fail only: lock still held, completed once the message is dead-lettered
+}
+
+interface RetryMessage {
+  message: Message;
+  result: ProcessingResult;
+}
+
+interface FailedMessage {
+  message: Message;
+  result: ProcessingResult;
+  type: DeadLetterEnvelope['failure']['type'];
+}
+
+interface MessageOutcome {
+  message: Message;
+  result: ProcessingResult;
+}
+
+// Outcome of the idempotency check: either settled already, or ready for the handler
+type PreparedMessage =
+  | { ready: false; result: ProcessingResult }
+  | {
+      ready: true;
+      idempotencyKey: string;
+      metadata: MessageMetadata;
+      heartbeat: VisibilityHeartbeat;
+      abortController: AbortController;
+    };
+
+interface BufferedMessage {
+  message: Message;
+  heartbeat: VisibilityHeartbeat; // Keeps the message invisible while it waits in the buffer
+}
+
+type ReadyMessage = Extract<PreparedMessage, { ready: true }> & { message: Message };
+
+// Entries per DeleteMessageBatch / SendMessageBatch call allowed by SQS
+const MAX_BATCH_ENTRIES = 10;
+
+function chunkEntries<T>(entries: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < entries.length; i += MAX_BATCH_ENTRIES) {
+    chunks.push(entries.slice(i, i + MAX_BATCH_ENTRIES));
+  }
+  return chunks;
+}
+
+// Result for a FIFO message released because an earlier message of its group didn't succeed
+function groupReleasedResult(failed: Message, groupId: string): ProcessingResult {
+  return {
+    status: 'retry',
+    reason: `Earlier message ${failed.MessageId} in group ${groupId} did not succeed`,
+    visibilityTimeoutSeconds: 0,
+    deferred: true,
+  };
+}
+
+function isBatchMessageHandler(handler: MessageHandler | BatchMessageHandler): handler is BatchMessageHandler {
+  return typeof (handler as BatchMessageHandler).handleBatch === 'function';
+}
+
 export interface SQSConsumerOptions {
   idempotencyStore?: IdempotencyStore;
   idempotencyTtlSeconds?: number; // Default: 86400 (24 hours)
+  idempotencyLeaseSeconds?: number; // In-progress lock lease while a message is handled, renewed on each heartbeat. Default: sqsConfig.visibilityTimeout
+  idempotencyKey?: IdempotencyKeyExtractor; // Derive the key from the message (e.g. bodyFieldsKey('eventType', 'postId')). Default: MessageId
+  idempotencyNamespace?: string; // Prefix for keys so handlers on the same queue don't share state. Default: handler class name
   backoffBaseDelay?: number; // Default: 5
   backoffBaseDelayUnit?: TimeUnit; // Default: 'sec'
   retryStrategy?: RetryStrategy; // Default: 'exponential'
+  jitter?: JitterStrategy; // Default: 'none'
+  backoffStore?: BackoffStore; // Tracks failures per message (e.g. across replicas with RedisBackoffStore)
+  defaultErrorStatus?: 'retry' | 'fail'; // Result for errors other than RetryException / FailureException. Default: 'retry'
+  maxRetries?: number; // Retries allowed after the first attempt (from ApproximateReceiveCount). Default: unlimited
+  deadLetterQueueUrl?: string; // Failed / retry-exhausted messages are sent here before being deleted
+  middlewares?: Middleware[]; // Run in order around every handler call (per message, also for batch handlers)
+  circuitBreaker?: CircuitBreaker; // Stop receiving while too many handler calls end in retry
+  rateLimit?: RateLimitOptions; // Cap messages per second; throttled receives are deferred, messages are never retried for it
+  logger?: Logger; // Default: JSON logger named 'SQSConsumer' (LOG_LEVEL / LOG_FORMAT env vars)
 }
 
-export class SQSConsumer {
+export class SQSConsumer extends EventEmitter<SQSConsumerEvents> {
   private sqsClient: SQSClient;
   private config: SQSConsumerConfig;
-  private handler: MessageHandler;
+  private handler: MessageHandler | BatchMessageHandler;
   private idempotencyStore?: IdempotencyStore;
   private idempotencyTtlSeconds: number;
+  private idempotencyLeaseSeconds: number;
+  private idempotencyKey: IdempotencyKeyExtractor;
+  private idempotencyNamespace?: string;
   private backoffBaseDelay: number;
   private backoffBaseDelayUnit: TimeUnit;
   private retryStrategy: RetryStrategy;
+  private jitter: JitterStrategy;
+  private backoffStore?: BackoffStore;
+  private defaultErrorStatus: 'retry' | 'fail';
+  private maxRetries?: number;
+  private deadLetterQueueUrl?: string;
+  private middleware: (ctx: MessageContext, handler: NextFunction) => Promise<MessageResult>;
+  private circuitBreaker?: CircuitBreaker;
+  private fifo: boolean;
+  private rateLimit?: Required<RateLimitOptions>;
+  private logger: Logger;
+  private metrics: ConsumerMetrics = { handlerTimeouts: 0, throttledReceives: 0 };
   private isRunning = false;
+  private paused = false;
+  private wakeResume?: () => void;
+  private pollLoop?: Promise<void>;
+  private stopPromise?: Promise<void>;
+  private receiveAbortController?: AbortController;
+  private wakeSleep?: () => void;
+  private inFlightMessages: Map<string, Message> = new Map(); // receiptHandle -> message
+  private activeTasks: Set<Promise<void>> = new Set();
+
+  constructor(config: SQSConsumerConfig, handler: MessageHandler | BatchMessageHandler, options?: SQSConsumerOptions) {
+    super();
+
+    if (config.concurrency !== undefined && (!Number.isInteger(config.concurrency) || config.concurrency < 1)) {
+      throw new Error(`[SQSConsumer] concurrency must be a positive integer, got ${config.concurrency}`);
+    }
+    if (config.bufferMaxSize !== undefined && (!Number.isInteger(config.bufferMaxSize) || config.bufferMaxSize < 1)) {
+      throw new Error(`[SQSConsumer] bufferMaxSize must be a positive integer, got ${config.bufferMaxSize}`);
+    }
+    if (config.bufferMaxSize !== undefined && config.concurrency !== undefined) {
+      throw new Error('[SQSConsumer] bufferMaxSize cannot be combined with concurrency');
+    }
+
+    const rateLimit = options?.rateLimit;
+    if (rateLimit && !(rateLimit.messagesPerSecond > 0)) {
+      throw new Error(`[SQSConsumer] rateLimit.messagesPerSecond must be positive, got ${rateLimit.messagesPerSecond}`);
+    }
+    if (rateLimit?.burst !== undefined && (!Number.isInteger(rateLimit.burst) || rateLimit.burst < 1)) {
+      throw new Error(`[SQSConsumer] rateLimit.burst must be a positive integer, got ${rateLimit.burst}`);
+    }
+
+    const fifo = config.sqsConfig.fifo ?? config.sqsConfig.queueUrl.endsWith('.fifo');
+    if (fifo && config.concurrency !== undefined) {
+      // The worker pool runs each message on its own, which would break ordering within a group
+      throw new Error('[SQSConsumer] concurrency cannot be used with FIFO queues');
+    }
+
+    this.config = config;
+    this.fifo = fifo;
+    this.handler = handler;
+    this.idempotencyStore = options?.idempotencyStore;
+    this.idempotencyTtlSeconds = options?.idempotencyTtlSeconds ?? 86400; // Default 24 hours
+    this.idempotencyLeaseSeconds = options?.idempotencyLeaseSeconds ?? config.sqsConfig.visibilityTimeout;
+    this.idempotencyKey = options?.idempotencyKey ?? messageIdKey();
+    this.idempotencyNamespace = options?.idempotencyNamespace ?? SQSConsumer.handlerClassName(handler);
+    this.backoffBaseDelay = options?.backoffBaseDelay ?? 5;
+    this.backoffBaseDelayUnit = options?.backoffBaseDelayUnit ?? 'sec';
+    this.retryStrategy = options?.retryStrategy ?? 'exponential';
+    this.jitter = options?.jitter ?? 'none';
+    this.backoffStore = options?.backoffStore;
+    this.defaultErrorStatus = options?.defaultErrorStatus ?? 'retry';
+    this.maxRetries = options?.maxRetries;
+    this.deadLetterQueueUrl = options?.deadLetterQueueUrl;
+    this.middleware = composeMiddleware(options?.middlewares ?? []);
+    this.circuitBreaker = options?.circuitBreaker;
+    this.circuitBreaker?.on('state_change', (change) => this.emit('circuit_state_change', change));
+    this.rateLimit = rateLimit && {
+      messagesPerSecond: rateLimit.messagesPerSecond,
+      burst: rateLimit.burst ?? Math.max(1, Math.floor(rateLimit.messagesPerSecond)),
+      store: rateLimit.store ?? new InMemoryRateLimitStore(),
+      key: rateLimit.key ?? config.sqsConfig.queueUrl,
+    };
+    this.logger = options?.logger ?? createLogger({ name: 'SQSConsumer' });
+    this.sqsClient = new SQSClient(config.sqsClientConfig || {});
+  }
+
+  /**
+   * Create a consumer from a validated queue config (see createSQSQueueConfig)
+   * Maps every config section - processing mode, double buffer, retry, idempotency, DLQ, circuit breaker and rate limit - onto the consumer
+   */
+  static fromQueueConfig(
+    queueConfig: SQSQueueConfig,
+    handler: MessageHandler | BatchMessageHandler,
+    dependencies: SQSConsumerDependencies = {}
+  ): SQSConsumer {
+    const { retry, idempotency, deadLetterQueue, doubleBuffer, circuitBreaker, rateLimit } = queueConfig;
+
+    const config: SQSConsumerConfig = {
+      sqsConfig: {
+        queueUrl: queueConfig.queueUrl,
+        maxNumberOfMessages: queueConfig.maxNumberOfMessages,
+        waitTimeSeconds: queueConfig.waitTimeSeconds,
+        visibilityTimeout: queueConfig.visibilityTimeout,
+        fifo: queueConfig.fifo,
+      },
+      sqsClientConfig: dependencies.sqsClientConfig,
+      pollIntervalMs: dependencies.pollIntervalMs,
+      drainTimeoutMs: dependencies.drainTimeoutMs,
+      handlerTimeoutMs: queueConfig.handlerTimeoutMs,
+      processInParallel: queueConfig.processingMode === 'parallel',
+      concurrency: queueConfig.processingMode === 'concurrent' ? queueConfig.concurrency : undefined,
+      bufferMaxSize: doubleBuffer?.enabled ? doubleBuffer.maxSize : undefined,
+      bufferFlushIntervalMs: doubleBuffer?.enabled ? doubleBuffer.flushIntervalMs : undefined,
+    };
+
+    const options: SQSConsumerOptions = {
+      backoffStore: dependencies.backoffStore,
+      middlewares: dependencies.middlewares,
+      logger: dependencies.logger,
+    };
+
+    if (retry) {
+      options.retryStrategy = retry.strategy;
+      options.backoffBaseDelay = retry.baseDelay;
+      options.backoffBaseDelayUnit = retry.baseDelayUnit;
+      options.jitter = retry.jitter;
+      // Retry disabled: first failure is final
+      options.maxRetries = retry.enabled ? retry.maxRetries : 0;
+    }
+
+    if (idempotency?.enabled) {
+      options.idempotencyStore = dependencies.idempotencyStore ?? new InMemoryIdempotencyStore();
+      options.idempotencyTtlSeconds = idempotency.ttlSeconds;
+      options.idempotencyKey = dependencies.idempotencyKey;
+      options.idempotencyNamespace = dependencies.idempotencyNamespace;
+    }
+
+    if (deadLetterQueue?.enabled) {
+      options.deadLetterQueueUrl = deadLetterQueue.queueUrl;
+    }
+
+    if (circuitBreaker?.enabled) {
+      const { enabled: _enabled, ...breakerOptions } = circuitBreaker;
+      options.circuitBreaker = dependencies.circuitBreaker ?? new CircuitBreaker({ ...breakerOptions, logger: dependencies.logger });
+    }
+
+    if (rateLimit?.enabled) {
+      options.rateLimit = {
+        messagesPerSecond: rateLimit.messagesPerSecond!,
+        burst: rateLimit.burst,
+        store: dependencies.rateLimitStore,
+      };
+    }
+
+    return new SQSConsumer(config, handler, options);
+  }
+
+  /**
+   * Class name of a handler instance, or undefined for plain objects
+   */
+  private static handlerClassName(handler: MessageHandler | BatchMessageHandler): string | undefined {
+    const name = handler.constructor?.name;
+    return name && name !== 'Object' ? name : undefined;
+  }
+
+  /**
+   * Start consuming messages from the queue
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Consumer already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.paused = false;
+    const { queueUrl, maxNumberOfMessages, waitTimeSeconds, visibilityTimeout } = this.config.sqsConfig;
+    this.logger.info('Starting consumer', {
+      queueUrl,
+      maxNumberOfMessages,
+      waitTimeSeconds,
+      visibilityTimeout,
+      fifo: this.fifo,
+      ...(this.rateLimit && { messagesPerSecond: this.rateLimit.messagesPerSecond, burst: this.rateLimit.burst }),
+    });
+
+    // Start polling loop
+    if (this.config.concurrency !== undefined) {
+      this.logger.info('Processing with a worker pool', { concurrency: this.config.concurrency });
+      this.pollLoop = this.pollWithConcurrency(this.config.concurrency);
+    } else if (this.config.bufferMaxSize !== undefined) {
+      const flushIntervalMs = this.config.bufferFlushIntervalMs ?? 1000;
+      this.logger.info('Buffering messages', { bufferMaxSize: this.config.bufferMaxSize, flushIntervalMs });
+      this.pollLoop = this.pollWithBuffer(this.config.bufferMaxSize, flushIntervalMs);
+    } else {
+      this.pollLoop = this.poll();
+    }
+
+    this.emit('started');
+  }
+
+  /**
+   * Stop receiving new messages; messages already received keep being processed
+   */
+  pause(): void {
+    if (!this.isRunning || this.paused) {
+      return;
+    }
+
+    this.paused = true;
+    this.logger.info('Consumer paused');
+
+    // Cut the long poll / idle sleep short so the loop notices it should wait
+    this.receiveAbortController?.abort();
+    this.wakeSleep?.();
+
+    this.emit('paused');
+  }
+
+  /**
+   * Start receiving again after pause()
+   */
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+
+    this.paused = false;
+    this.logger.info('Consumer resumed');
+    this.wakeResume?.();
+
+    this.emit('resumed');
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Snapshot of the consumer's counters
+   */
+  getMetrics(): ConsumerMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Number of received messages that are buffered or being processed
+   */
+  getInFlightCount(): number {
+    return this.inFlightMessages.size;
+  }
+
+  /**
+   * The consumer's circuit breaker, if any - subscribe to its events or report its status in health checks
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Stop consuming messages.
+   * Resolves once the in-flight batch has been processed and its deletes / visibility
+   * changes have been sent, or once the drain timeout has passed and the unfinished
+   * messages have been released back to the queue.
+   */
+  async stop(): Promise<void> {
+    if (!this.pollLoop) {
+      return;
+    }
+
+    if (!this.stopPromise) {
+      this.stopPromise = this.drain(this.pollLoop).finally(() => {
+        this.pollLoop = undefined;
+        this.stopPromise = undefined;
+      });
+    }
+
+    return this.stopPromise;
+  }
+
+  /**
+   * Stop receiving, cut the long poll short and wait for the poll loop to finish
+   */
+  private async drain(pollLoop: Promise<void>): Promise<void> {
+    this.logger.info('Stopping consumer');
+    this.isRunning = false;
+
+    // Cut the long poll / idle sleep / pause short so the loop notices it should exit
+    this.receiveAbortController?.abort();
+    this.wakeSleep?.();
+    this.wakeResume?.();
+
+    const drainTimeoutMs = this.config.drainTimeoutMs ?? 30000;
+    const drained = await this.waitWithTimeout(pollLoop, drainTimeoutMs);
+
+    if (!drained) {
+      this.logger.warn('Drain timeout exceeded, releasing unfinished messages', {
+        drainTimeoutMs,
+        unfinished: this.inFlightMessages.size,
+      });
+      await this.releaseInFlightMessages();
+    }
+
+    this.logger.info('Consumer stopped');
+    this.emit('stopped');
+  }
+
+  /**
+   * Make unfinished messages visible again immediately so another consumer can pick them up
+   */
+  private async releaseInFlightMessages(): Promise<void> {
+    const messages = Array.from(this.inFlightMessages.values());
+    this.inFlightMessages.clear();
+
+    await Promise.all(
+      messages.map(async (message) => {
+        try {
+          await this.changeMessageVisibility(message, 0);
+        } catch (error) {
+          this.logger.error('Failed to release message', { messageId: message.MessageId, error });
+        }
+      })
+    );
+  }
+
+  /**
+   * Wait for a promise to settle, giving up after timeoutMs
+   * @returns true if the promise settled in time, false if the timeout fired first
+   */
+  private async waitWithTimeout(promise: Promise<void>, timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise.then(() => true), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Main polling loop
+   */
+  private async poll(): Promise<void> {
+    while (this.isRunning) {
+      try {
+        if (this.paused) {
+          await this.waitForResume();
+          continue;
+        }
+
+        const messages = await this.receiveWhenAllowed();
+        if (!messages) {
+          continue;
+        }
+
+        if (messages.length > 0) {
+          this.logger.debug('Received messages', { count: messages.length });
+          await this.processMessages(messages);
+        } else {
+          // No messages, wait before next poll
+          await this.sleep(this.config.pollIntervalMs || 1000);
+        }
+      } catch (error) {
+        await this.handlePollError(error);
+      }
+    }
+  }
+
+  /**
+   * Worker pool polling loop
+   * Keeps up to `concurrency` messages in flight and receives more as soon as slots free up,
+   * so a slow message never holds back the rest of its batch.
+   */
+  private async pollWithConcurrency(concurrency: number): Promise<void> {
+    while (this.isRunning) {
+      try {
+        if (this.paused) {
+          // In-flight handlers keep running
+          await this.waitForResume();
+          continue;
+        }
+
+        const freeSlots = concurrency - this.activeTasks.size;
+
+        if (freeSlots <= 0) {
+          // Pool is full, wait for any handler to finish
+          await Promise.race(this.activeTasks);
+          continue;
+        }
+
+        // A batch handler takes one slot per received batch, a single handler one slot per message
+        const batchHandler = isBatchMessageHandler(this.handler);
+        const messages = await this.receiveWhenAllowed(
+          batchHandler ? undefined : Math.min(freeSlots, this.config.sqsConfig.maxNumberOfMessages)
+        );
+        if (!messages) {
+          continue;
+        }
+
+        if (messages.length > 0) {
+          this.logger.debug('Received messages', { count: messages.length });
+          if (batchHandler) {
+            this.runTask(messages);
+          } else {
+            for (const message of messages) {
+              this.runTask([message]);
+            }
+          }
+        } else {
+          // No messages, wait before next poll
+          await this.sleep(this.config.pollIntervalMs || 1000);
+        }
+      } catch (error) {
+        await this.handlePollError(error);
+      }
+    }
+
+    // Let the pool drain before the loop is considered finished
+    await Promise.all(this.activeTasks);
+  }
+
+  /**
+   * Double-buffered polling loop
+   * Accumulates messages across polls and processes them together once `maxSize` are buffered
+   * or the oldest has waited `flushIntervalMs`. Receiving continues into a fresh buffer while the
+   * previous one is processed; a full buffer waits for that processing to finish.
+   * Buffered messages keep their visibility extended until they are processed.
+   */
+  private async pollWithBuffer(maxSize: number, flushIntervalMs: number): Promise<void> {
+    let buffer: BufferedMessage[] = [];
+    let bufferStartedAt = 0;
+    let flushing: Promise<void> | undefined;
+
+    const flush = (): void => {
+      const messages = buffer;
+      buffer = [];
+      flushing = this.flushBuffer(messages).finally(() => {
+        flushing = undefined;
+      });
+    };
+
+    while (this.isRunning) {
+      try {
+        if (this.paused) {
+          // Process what is already buffered, then wait
+          if (buffer.length > 0) {
+            await flushing;
+            flush();
+          }
+          await this.waitForResume();
+          continue;
+        }
+
+        const bufferAgeMs = buffer.length > 0 ? Date.now() - bufferStartedAt : 0;
+
+        if (buffer.length >= maxSize || (buffer.length > 0 && bufferAgeMs >= flushIntervalMs)) {
+          if (flushing) {
+            // Previous buffer still being processed
+            await flushing;
+          } else {
+            flush();
+          }
+          continue;
+        }
+
+        // Don't long-poll past the point where the current buffer is due
+        const remainingMs = buffer.length > 0 ? flushIntervalMs - bufferAgeMs : undefined;
+        const messages = await this.receiveWhenAllowed(
+          Math.min(maxSize - buffer.length, this.config.sqsConfig.maxNumberOfMessages),
+          remainingMs === undefined
+            ? undefined
+            : Math.min(this.config.sqsConfig.waitTimeSeconds, Math.floor(remainingMs / 1000)),
+          remainingMs
+        );
+        if (!messages) {
+          continue;
+        }
+
+        if (messages.length > 0) {
+          this.logger.debug('Received messages, buffering', { count: messages.length });
+          if (buffer.length === 0) {
+            bufferStartedAt = Date.now();
+          }
+          for (const message of messages) {
+            buffer.push(this.bufferMessage(message));
+          }
+        } else if (remainingMs !== undefined) {
+          // Wait out the rest of the window
+          await this.sleep(Math.min(remainingMs, this.config.pollIntervalMs || 1000));
+        } else {
+          // No messages, wait before next poll
+          await this.sleep(this.config.pollIntervalMs || 1000);
+        }
+      } catch (error) {
+        await this.handlePollError(error);
+      }
+    }
+
+    // Process what is already buffered before the loop is considered finished
+    await flushing;
+    if (buffer.length > 0) {
+      flush();
+      await flushing;
+    }
+  }
+
+  /**
+   * Report an error thrown in a poll loop and wait before the next iteration
+   * Errors from a receive aborted by stop() or pause() are expected and ignored - the loop's
+   * isRunning / paused checks take over.
+   */
+  private async handlePollError(error: unknown): Promise<void> {
+    if (!this.isRunning || this.paused) {
+      return;
+    }
+
+    this.logger.error('Error in poll loop', { error });
+    this.emit('poll_error', error);
+    // Wait before retrying
+    await this.sleep(5000);
+  }
+
+  /**
+   * Track a received message as in flight and keep it invisible while it waits in the buffer
+   */
+  private bufferMessage(message: Message): BufferedMessage {
+    if (message.ReceiptHandle) {
+      this.inFlightMessages.set(message.ReceiptHandle, message);
+    }
+
+    const heartbeat = this.createHeartbeat(message, this.logger.child({ messageId: message.MessageId }));
+    heartbeat.start();
+    return { message, heartbeat };
+  }
+
+  /**
+   * Process a buffer of messages as one batch
+   */
+  private async flushBuffer(buffered: BufferedMessage[]): Promise<void> {
+    for (const { heartbeat } of buffered) {
+      heartbeat.stop();
+    }
+
+    this.logger.debug('Flushing buffered messages', { count: buffered.length });
+
+    try {
+      await this.processMessages(buffered.map(({ message }) => message));
+    } catch (error) {
+      this.logger.error('Error processing buffered messages', { count: buffered.length, error });
+    }
+  }
+
+  /**
+   * Process messages in the worker pool, freeing their slot when settled
+   */
+  private runTask(messages: Message[]): void {
+    const task = this.processMessages(messages)
+      .catch((error) => {
+        this.logger.error('Error processing messages', { count: messages.length, error });
+      })
+      .finally(() => {
+        this.activeTasks.delete(task);
+      });
+
+    this.activeTasks.add(task);
+  }
+
+  /**
+   * Receive messages unless the circuit breaker or the rate limit says otherwise
+   * While the circuit is open (or its probe is in flight), or the rate limit has no tokens left,
+   * this waits and returns undefined; while half-open a single probe message is received.
+   * @param maxWaitMs - Upper bound for those waits (used by the buffer)
+   */
+  private async receiveWhenAllowed(
+    maxNumberOfMessages: number = this.config.sqsConfig.maxNumberOfMessages,
+    waitTimeSeconds?: number,
+    maxWaitMs: number = Number.POSITIVE_INFINITY
+  ): Promise<Message[] | undefined> {
+    const breaker = this.circuitBreaker;
+    const permit = breaker?.tryAcquire() ?? 'allowed';
+
+    if (permit === 'rejected') {
+      const waitMs = breaker!.getState() === 'open' ? breaker!.getRemainingOpenMs() : this.config.pollIntervalMs || 1000;
+      await this.sleep(Math.min(waitMs, maxWaitMs));
+      return undefined;
+    }
+
+    const probing = permit === 'probe';
+    let allowed = 0;
+    let messages: Message[] = [];
+    try {
+      allowed = await this.takeRateLimitTokens(probing ? 1 : maxNumberOfMessages, maxWaitMs);
+      if (allowed === 0) {
+        return undefined;
+      }
+
+      messages = await this.receiveMessages(allowed, waitTimeSeconds);
+      if (probing && messages.length > 0) {
+        this.logger.info('Probing circuit', { messageId: messages[0]?.MessageId });
+      }
+      return messages;
+    } finally {
+      if (probing && messages.length === 0) {
+        // Nothing to probe with
+        breaker!.releaseProbe();
+      }
+      if (messages.length < allowed) {
+        await this.refundRateLimitTokens(allowed - messages.length);
+      }
+    }
+  }
+
+  /**
+   * Take rate limit tokens for up to `requested` messages
+   * @returns How many messages may be received (0 once the wait for the next token is over)
+   */
+  private async takeRateLimitTokens(requested: number, maxWaitMs: number): Promise<number> {
+    if (!this.rateLimit) {
+      return requested;
+    }
+
+    const { messagesPerSecond, burst, store, key } = this.rateLimit;
+    const { granted, retryAfterMs } = await store.take(key, requested, {
+      capacity: burst,
+      refillPerSecond: messagesPerSecond,
+    });
+
+    if (granted > 0) {
+      return granted;
+    }
+
+    // Throttled: defer the receive - messages stay on the queue untouched
+    this.metrics.throttledReceives++;
+    this.emit('receive_throttled', retryAfterMs);
+    await this.sleep(Math.min(retryAfterMs, maxWaitMs));
+    return 0;
+  }
+
+  /**
+   * Return the tokens of messages a receive asked for but didn't get
+   * A failed refund only costs throughput, so it is logged instead of failing the receive.
+   */
+  private async refundRateLimitTokens(unused: number): Promise<void> {
+    if (!this.rateLimit) {
+      return;
+    }
+
+    const { messagesPerSecond, burst, store, key } = this.rateLimit;
+    try {
+      await store.refund(key, unused, { capacity: burst, refillPerSecond: messagesPerSecond });
+    } catch (error) {
+      this.logger.warn('Failed to refund rate limit tokens', { key, unused, error });
+    }
+  }
+
+  /**
+   * Receive messages from SQS
+   * @param maxNumberOfMessages - Override for the configured batch size (used by the worker pool and buffer)
+   * @param waitTimeSeconds - Override for the configured long poll (used by the buffer)
+   */
+  private async receiveMessages(
+    maxNumberOfMessages: number = this.config.sqsConfig.maxNumberOfMessages,
+    waitTimeSeconds: number = this.config.sqsConfig.waitTimeSeconds
+  ): Promise<Message[]> {
+    const command = new ReceiveMessageCommand({
+      QueueUrl: this.config.sqsConfig.queueUrl,
+      MaxNumberOfMessages: maxNumberOfMessages,
+      WaitTimeSeconds: waitTimeSeconds,
+      VisibilityTimeout: this.config.sqsConfig.visibilityTimeout,
+      AttributeNames: ['All'],
+      MessageAttributeNames: ['All'],
+    });
+
+    // Keep a handle on the long poll so stop() can abort it
+    this.receiveAbortController = new AbortController();
+
+    try {
+      const response = await this.sqsClient.send(command, {
+        abortSignal: this.receiveAbortController.signal,
+      });
+      const messages = response.Messages || [];
+      for (const message of messages) {
+        this.emit('message_received', message);
+      }
+      return messages;
+    } finally {
+      this.receiveAbortController = undefined;
+    }
+  }
+
+  /**
+   * Process messages and delete successful ones
+   */
+  private async processMessages(messages: Message[]): Promise<void> {
+    for (const message of messages) {
+      if (message.ReceiptHandle) {
+        this.inFlightMessages.set(message.ReceiptHandle, message);
+      }
+    }
+
+    try {
+      await this.processBatch(messages);
+    } finally {
+      for (const message of messages) {
+        if (message.ReceiptHandle) {
+          this.inFlightMessages.delete(message.ReceiptHandle);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run the handler over a batch, then delete or back off each message
+   */
+  private async processBatch(messages: Message[]): Promise<void> {
+    const startedAt = Date.now();
+    const successfulMessages: Message[] = [];
+    const retryMessages: RetryMessage[] = [];
+    const permanentFailureMessages: FailedMessage[] = [];
+
+    // Check if parallel processing is enabled
+    const processInParallel = this.config.processInParallel ?? false;
+    const handler = this.handler;
+
+    if (isBatchMessageHandler(handler)) {
+      // Batch processing: One handler call for the whole batch (FIFO groups are released after a failure)
+      const results = await this.processMessagesAsBatch(handler, messages);
+
+      for (const { message, result } of results) {
+        this.categorizeMessage(message, result, successfulMessages, retryMessages, permanentFailureMessages);
+      }
+    } else if (this.fifo) {
+      // FIFO processing: Groups in parallel, each group in order
+      const results = await this.processMessageGroups(handler, messages);
+
+      for (const { message, result } of results) {
+        this.categorizeMessage(message, result, successfulMessages, retryMessages, permanentFailureMessages);
+      }
+    } else if (processInParallel) {
+      // Parallel processing: Process all messages concurrently
+      const results = await Promise.all(
+        messages.map(async (message) => ({
+          message,
+          result: await this.processMessage(handler, message),
+        }))
+      );
+
+      // Categorize messages
+      for (const { message, result } of results) {
+        this.categorizeMessage(message, result, successfulMessages, retryMessages, permanentFailureMessages);
+      }
+    } else {
+      // Sequential processing: Process messages one by one
+      for (const message of messages) {
+        if (this.isReleased(message)) {
+          continue;
+        }
+        const result = await this.processMessage(handler, message);
+        this.categorizeMessage(message, result, successfulMessages, retryMessages, permanentFailureMessages);
+      }
+    }
+
+    // Delete successful messages
+    if (successfulMessages.length > 0) {
+      await this.deleteMessages(successfulMessages);
+    }
+
+    // Dead-letter (if configured) and delete permanent failure messages
+    if (permanentFailureMessages.length > 0) {
+      const deadLettered = await this.sendToDeadLetterQueue(permanentFailureMessages);
+      await this.settleIdempotencyOfFailures(permanentFailureMessages, deadLettered);
+      await this.deleteMessages(deadLettered);
+    }
+
+    // Set visibility timeout for retry messages based on backoff calculation
+    if (retryMessages.length > 0) {
+      for (const { message, result } of retryMessages) {
+        try {
+          const visibilityTimeoutSeconds = result.visibilityTimeoutSeconds ?? await this.calculateVisibilityTimeout(message);
+          await this.changeMessageVisibility(message, visibilityTimeoutSeconds);
+        } catch (error) {
+          this.logger.error('Failed to set visibility timeout', { messageId: message.MessageId, error });
+          // Continue with next message - this message will retry with default timeout
+        }
+      }
+      this.logger.warn('Messages will be retried', { count: retryMessages.length });
+    }
+
+    this.emit('batch_completed', {
+      size: messages.length,
+      succeeded: successfulMessages.length,
+      retried: retryMessages.length,
+      failed: permanentFailureMessages.length,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  /**
+   * Process FIFO message groups in parallel, and the messages of each group one by one in receive order
+   * Once a message doesn't succeed, the rest of its group is released unprocessed: SQS keeps the group
+   * blocked while the failed message is in flight, so the group is redelivered in order.
+   */
+  private async processMessageGroups(handler: MessageHandler, messages: Message[]): Promise<MessageOutcome[]> {
+    const groups = new Map<string, Message[]>();
+    for (const message of messages) {
+      const groupId = message.Attributes?.MessageGroupId ?? '';
+      const group = groups.get(groupId) || [];
+      group.push(message);
+      groups.set(groupId, group);
+    }
+
+    const results = new Map<Message, ProcessingResult>();
+
+    await Promise.all(
+      Array.from(groups, async ([groupId, group]) => {
+        for (const [index, message] of group.entries()) {
+          if (this.isReleased(message)) {
+            return;
+          }
+
+          const result = await this.processMessage(handler, message);
+          results.set(message, result);
+
+          if (result.status !== 'success') {
+            const remaining = group.slice(index + 1);
+            if (remaining.length > 0) {
+              this.logger.warn('Message did not succeed, releasing the rest of its group', {
+                messageId: message.MessageId,
+                messageGroupId: groupId,
+                released: remaining.length,
+              });
+            }
+            for (const skipped of remaining) {
+              results.set(skipped, groupReleasedResult(message, groupId));
+            }
+            return;
+          }
+        }
+      })
+    );
+
+    // Settle in receive order
+    return messages.flatMap((message) => {
+      const result = results.get(message);
+      return result ? [{ message, result }] : [];
+    });
+  }
+
+  /**
+   * Categorize message based on processing result
+   */
+  private categorizeMessage(
+    message: Message,
+    result: ProcessingResult,
+    successfulMessages: Message[],
+    retryMessages: RetryMessage[],
+    permanentFailureMessages: FailedMessage[]
+  ): void {
+    // Released by a timed-out drain; it is back on the queue and no longer ours to settle
+    if (this.isReleased(message)) {
+      return;
+    }
+
+    this.recordCircuitResult(result);
+
+    if (result.status === 'retry' && !result.deferred && this.hasExhaustedRetries(message)) {
+      this.logger.error('Message exhausted its retries', {
+        messageId: message.MessageId,
+        maxRetries: this.maxRetries,
+        reason: result.reason,
+      });
+      // Reported as failed: it is dead-lettered, not retried
+      this.emitResult(message, { ...result, status: 'fail' });
+      permanentFailureMessages.push({ message, result, type: 'retries_exhausted' });
+      return;
+    }
+
+    this.emitResult(message, result);
+
+    if (result.status === 'success') {
+      successfulMessages.push(message);
+    } else if (result.status === 'retry') {
+      retryMessages.push({ message, result });
+    } else if (result.status === 'fail') {
+      permanentFailureMessages.push({ message, result, type: 'fail' });
+    }
+  }
 
-  constructor(config: SQSConsumerConfig, handler: MessageHandler, options?: SQSConsumerOptions) {
-    this.config = config;
-    this.handler = handler;
-    this.idempotencyStore = options?.idempotencyStore;
-    this.idempotencyTtlSeconds = options?.idempotencyTtlSeconds ?? 86400; // Default 24 hours
-    this.backoffBaseDelay = options?.backoffBaseDelay ?? 5;
-    this.backoffBaseDelayUnit = options?.backoffBaseDelayUnit ?? 'sec';
-    this.retryStrategy = options?.retryStrategy ?? 'exponential';
-    this.sqsClient = new SQSClient(config.sqsClientConfig || {});
+  /**
+   * Emit message_processed / message_failed / message_skipped (deferred messages emit none)
+   */
+  private emitResult(message: Message, result: ProcessingResult): void {
+    if (result.skipped) {
+      this.emit('message_skipped', message);
+    } else if (result.status === 'success') {
+      this.emit('message_processed', message, result);
+    } else if (!result.deferred) {
+      this.emit('message_failed', message, result);
+    }
   }
 
   /**
-   * Start consuming messages from the queue
+   * Feed a handler result to the circuit breaker
+   * Only retries count as failures - a permanent failure is a problem with the message, not downstream.
+   * Deferred and skipped messages never reached the handler and are not counted.
    */
-  async start(): Promise<void> {
-    if (this.isRunning) {
-      console.warn('[SQSConsumer] Already running');
+  private recordCircuitResult(result: ProcessingResult): void {
+    if (!this.circuitBreaker || result.deferred || result.skipped) {
       return;
     }
 
-    this.isRunning = true;
-    console.log('[SQSConsumer] Starting consumer...');
-    console.log(`[SQSConsumer] Queue URL: ${this.config.sqsConfig.queueUrl}`);
-    console.log(`[SQSConsumer] Max messages per poll: ${this.config.sqsConfig.maxNumberOfMessages}`);
-    console.log(`[SQSConsumer] Wait time: ${this.config.sqsConfig.waitTimeSeconds}s`);
-    console.log(`[SQSConsumer] Visibility timeout: ${this.config.sqsConfig.visibilityTimeout}s`);
+    if (result.status === 'retry') {
+      this.circuitBreaker.recordFailure();
+    } else {
+      this.circuitBreaker.recordSuccess();
+    }
+  }
 
-    // Start polling loop
-    this.poll();
+  /**
+   * Get the number of times SQS has delivered this message (1 on first delivery)
+   */
+  private getReceiveCount(message: Message): number {
+    return parseInt(message.Attributes?.ApproximateReceiveCount || '0', 10);
   }
 
   /**
-   * Stop consuming messages
+   * Check whether a message has used up its retries (receive count > maxRetries)
    */
-  async stop(): Promise<void> {
-    console.log('[SQSConsumer] Stopping consumer...');
-    this.isRunning = false;
+  private hasExhaustedRetries(message: Message): boolean {
+    return this.maxRetries !== undefined && this.getReceiveCount(message) > this.maxRetries;
   }
 
   /**
-   * Main polling loop
+   * Send permanently failed messages to the dead letter queue
+   * @returns Messages that are safe to delete: all of them when no DLQ is configured,
+   *          otherwise those the DLQ accepted plus those opted out with deadLetter: false
+   *          (the rest stay on the queue)
    */
-  private async poll(): Promise<void> {
-    while (this.isRunning) {
+  private async sendToDeadLetterQueue(allFailures: FailedMessage[]): Promise<Message[]> {
+    if (!this.deadLetterQueueUrl) {
+      return allFailures.map(({ message }) => message);
+    }
+
+    const dropped = allFailures.filter(({ result }) => result.deadLetter === false).map(({ message }) => message);
+    const failures = allFailures.filter(({ result }) => result.deadLetter !== false);
+    if (failures.length === 0) {
+      return dropped;
+    }
+
+    // FIFO dead letter queues need a group; keep the original one so its failures stay in order
+    const fifoDeadLetterQueue = this.deadLetterQueueUrl.endsWith('.fifo');
+
+    const entries: SendMessageBatchRequestEntry[] = failures.map(({ message, result, type }, index) => {
+      const envelope: DeadLetterEnvelope = {
+        originalMessage: {
+          messageId: message.MessageId,
+          body: message.Body,
+          attributes: message.Attributes,
+          messageAttributes: message.MessageAttributes,
+        },
+        failure: {
+          type,
+          reason: result.reason,
+          stack: result.error?.stack,
+          receiveCount: this.getReceiveCount(message),
+          sourceQueueUrl: this.config.sqsConfig.queueUrl,
+          failedAt: new Date().toISOString(),
+        },
+      };
+
+      return {
+        Id: index.toString(),
+        MessageBody: JSON.stringify(envelope),
+        ...(fifoDeadLetterQueue && {
+          MessageGroupId: message.Attributes?.MessageGroupId ?? 'dead-letter',
+          MessageDeduplicationId: message.MessageId,
+        }),
+      };
+    });
+
+    // SendMessageBatch takes at most 10 entries per call
+    const sent: Message[] = [];
+    for (const chunk of chunkEntries(entries)) {
       try {
-        const messages = await this.receiveMessages();
+        const command = new SendMessageBatchCommand({
+          QueueUrl: this.deadLetterQueueUrl,
+          Entries: chunk,
+        });
 
-        if (messages.length > 0) {
-          console.log(`[SQSConsumer] Received ${messages.length} message(s)`);
-          await this.processMessages(messages);
+        const response = await this.sqsClient.send(command);
+        const failedIds = new Set((response.Failed || []).map((entry) => entry.Id));
+
+        for (const entry of response.Failed || []) {
+          this.logger.error('Failed to dead-letter message', {
+            messageId: failures[Number(entry.Id)]?.message.MessageId,
+            reason: entry.Message,
+          });
+        }
+
+        for (const { Id } of chunk) {
+          if (!failedIds.has(Id)) {
+            sent.push(failures[Number(Id)]!.message);
+          }
+        }
+      } catch (error) {
+        // Keep them on the queue - they will be redelivered after the visibility timeout
+        this.logger.error('Failed to send messages to dead letter queue', { count: chunk.length, error });
+      }
+    }
+
+    this.logger.info('Sent messages to dead letter queue', { count: sent.length });
+    return [...dropped, ...sent];
+  }
+
+  /**
+   * Complete the idempotency keys of failed messages that left for the DLQ, and release the rest
+   * A message the DLQ rejected stays on the queue; a processed record would skip it on redelivery and lose it.
+   */
+  private async settleIdempotencyOfFailures(failures: FailedMessage[], deadLettered: Message[]): Promise<void> {
+    const settled = new Set(deadLettered);
+
+    for (const { message, result } of failures) {
+      const { heldIdempotencyKey } = result;
+      if (!this.idempotencyStore || heldIdempotencyKey === undefined) {
+        continue;
+      }
+
+      try {
+        if (settled.has(message)) {
+          await this.idempotencyStore.complete(heldIdempotencyKey, this.idempotencyTtlSeconds);
         } else {
-          // No messages, wait before next poll
-          await this.sleep(this.config.pollIntervalMs || 1000);
+          await this.idempotencyStore.release(heldIdempotencyKey);
         }
       } catch (error) {
-        console.error('[SQSConsumer] Error in poll loop:', error);
-        // Wait before retrying
-        await this.sleep(5000);
+        this.logger.error('Failed to settle idempotency key', { messageId: message.MessageId, error });
       }
     }
   }
 
   /**
-   * Receive messages from SQS
+   * Check whether a message was handed back to the queue by releaseInFlightMessages()
    */
-  private async receiveMessages(): Promise<Message[]> {
-    const command = new ReceiveMessageCommand({
-      QueueUrl: this.config.sqsConfig.queueUrl,
-      MaxNumberOfMessages: this.config.sqsConfig.maxNumberOfMessages,
-      WaitTimeSeconds: this.config.sqsConfig.waitTimeSeconds,
-      VisibilityTimeout: this.config.sqsConfig.visibilityTimeout,
-      AttributeNames: ['All'],
-      MessageAttributeNames: ['All'],
-    });
+  private isReleased(message: Message): boolean {
+    return message.ReceiptHandle !== undefined && !this.inFlightMessages.has(message.ReceiptHandle);
+  }
 
-    const response = await this.sqsClient.send(command);
-    return response.Messages || [];
+  /**
+   * Process a single message
+   * Errors are converted to a result so one failing message never affects the rest of the batch
+   */
+  private async processMessage(handler: MessageHandler, message: Message): Promise<ProcessingResult> {
+    try {
+      return await this.handleMessage(handler, message);
+    } catch (error) {
+      return this.errorToResult(message.MessageId || 'unknown', error);
+    }
   }
 
   /**
-   * Process messages and delete successful ones
+   * Process messages with a single batch handler call
+   * Each message goes through the same idempotency checks and settlement as with a single handler;
+   * only the messages that pass the idempotency check are passed to the handler.
+   * On a FIFO queue, the messages after one that didn't succeed in its group are released (see releaseFailedGroups).
    */
-  private async processMessages(messages: Message[]): Promise<void> {
-    const successfulMessages: Message[] = [];
-    const retryMessages: Message[] = [];
-    const permanentFailureMessages: Message[] = [];
+  private async processMessagesAsBatch(handler: BatchMessageHandler, messages: Message[]): Promise<MessageOutcome[]> {
+    const results = new Map<Message, ProcessingResult>();
+    const ready: ReadyMessage[] = [];
 
-    // Check if parallel processing is enabled
-    const processInParallel = this.config.processInParallel ?? false;
+    for (const message of messages) {
+      if (this.isReleased(message)) {
+        continue;
+      }
 
-    if (processInParallel) {
-      // Parallel processing: Process all messages concurrently
-      const results = await Promise.all(
-        messages.map(async (message) => ({
-          message,
-          result: await this.processMessage(message),
-        }))
-      );
+      try {
+        const prepared = await this.prepareMessage(message);
+        if (prepared.ready) {
+          ready.push({ message, ...prepared });
+        } else {
+          results.set(message, prepared.result);
+        }
+      } catch (error) {
+        results.set(message, this.errorToResult(message.MessageId || 'unknown', error));
+      }
+    }
 
-      // Categorize messages
-      for (const { message, result } of results) {
-        this.categorizeMessage(message, result, successfulMessages, retryMessages, permanentFailureMessages);
+    if (ready.length > 0) {
+      await this.handleReadyBatch(handler, ready, results);
+      if (this.fifo) {
+        this.releaseFailedGroups(messages, results);
       }
-    } else {
-      // Sequential processing: Process messages one by one
-      for (const message of messages) {
-        const result = await this.processMessage(message);
-        this.categorizeMessage(message, result, successfulMessages, retryMessages, permanentFailureMessages);
+      await this.settleReadyBatch(ready, results);
+    }
+
+    // Keep the received order
+    return messages.flatMap((message) => {
+      const result = results.get(message);
+      return result ? [{ message, result }] : [];
+    });
+  }
+
+  /**
+   * Call the batch handler for messages that passed the idempotency check and record their results
+   */
+  private async handleReadyBatch(
+    handler: BatchMessageHandler,
+    ready: ReadyMessage[],
+    results: Map<Message, ProcessingResult>
+  ): Promise<void> {
+    // Process the batch - handler returns a result per message
+    let handlerResults: MessageResult[];
+    const startedAt = Date.now();
+    const spans = ready.map(({ message }) => startProcessSpan(this.config.sqsConfig.queueUrl, message));
+    for (const { heartbeat } of ready) {
+      heartbeat.start();
+    }
+    try {
+      handlerResults =
+        (await this.withHandlerTimeout(
+          this.runBatchPipelines(handler, ready, spans),
+          ready.map(({ abortController }) => abortController)
+        )) ?? ready.map(({ message }) => this.timeoutResult(message));
+    } finally {
+      for (const { heartbeat } of ready) {
+        heartbeat.stop();
       }
     }
 
-    // Delete successful messages
-    if (successfulMessages.length > 0) {
-      await this.deleteMessages(successfulMessages);
+    const durationMs = Date.now() - startedAt;
+    for (const [index, { message }] of ready.entries()) {
+      const result = handlerResults[index] ?? { status: 'success' };
+      this.emit('handler_completed', message, result, durationMs);
+      const span = spans[index];
+      if (span) {
+        endProcessSpan(span, result);
+      }
+      results.set(message, result);
     }
+  }
 
-    // Delete permanent failure messages
-    if (permanentFailureMessages.length > 0) {
-      await this.deleteMessages(permanentFailureMessages);
+  /**
+   * Settle the recorded result of each message that went to the batch handler
+   */
+  private async settleReadyBatch(ready: ReadyMessage[], results: Map<Message, ProcessingResult>): Promise<void> {
+    for (const { message, idempotencyKey } of ready) {
+      try {
+        results.set(message, await this.settleMessage(message, idempotencyKey, results.get(message)!));
+      } catch (error) {
+        results.set(message, this.errorToResult(message.MessageId || 'unknown', error));
+      }
     }
+  }
 
-    // Set visibility timeout for retry messages based on backoff calculation
-    if (retryMessages.length > 0) {
-      for (const message of retryMessages) {
-        try {
-          const visibilityTimeoutSeconds = this.calculateVisibilityTimeout(message);
-          await this.changeMessageVisibility(message, visibilityTimeoutSeconds);
-        } catch (error) {
-          console.error(`[SQSConsumer] Failed to set visibility timeout for message ${message.MessageId}:`, error);
-          // Continue with next message - this message will retry with default timeout
+  /**
+   * Release the messages that follow one that didn't succeed in its FIFO group, even if the batch handler
+   * already handled them: settled as retries, they are redelivered after the failed message, in order.
+   */
+  private releaseFailedGroups(messages: Message[], results: Map<Message, ProcessingResult>): void {
+    const failedGroups = new Map<string, Message>(); // groupId -> first message that didn't succeed
+
+    for (const message of messages) {
+      const result = results.get(message);
+      if (!result) {
+        continue;
+      }
+
+      const groupId = message.Attributes?.MessageGroupId ?? '';
+      const failed = failedGroups.get(groupId);
+      if (failed) {
+        this.logger.warn('Earlier message of the group did not succeed, releasing this one', {
+          messageId: message.MessageId,
+          messageGroupId: groupId,
+          failedMessageId: failed.MessageId,
+        });
+        results.set(message, groupReleasedResult(failed, groupId));
+      } else if (result.status !== 'success') {
+        failedGroups.set(groupId, message);
+      }
+    }
+  }
+
+  /**
+   * Run each message through the middleware pipeline, with one handleBatch call as the shared end
+   * of all the pipelines. Messages whose pipeline returns early (e.g. failed validation) are left
+   * out of the batch.
+   * Each pipeline runs in its message's span; handleBatch runs in a batch span linked to them.
+   * @returns Result per message, in the order of `ready`
+   */
+  private async runBatchPipelines(
+    handler: BatchMessageHandler,
+    ready: ReadyMessage[],
+    spans: Span[]
+  ): Promise<MessageResult[]> {
+    const entries = ready.map(({ message, metadata }, index) => {
+      let arrive!: (reachedHandler: boolean) => void;
+      const arrived = new Promise<boolean>((resolve) => {
+        arrive = resolve;
+      });
+
+      let settle!: { resolve: (result: MessageResult) => void; reject: (error: unknown) => void };
+      const batchResult = new Promise<MessageResult>((resolve, reject) => {
+        settle = { resolve, reject };
+      });
+      // The pipeline may have returned already (e.g. timed out) - nobody else would handle the rejection
+      batchResult.catch(() => undefined);
+
+      const span = spans[index];
+      const runPipeline = () =>
+        this.runMiddleware(message, metadata, () => {
+          arrive(true);
+          return batchResult;
+        });
+      const pipeline = (span ? runInSpan(span, runPipeline) : runPipeline()).catch((error) =>
+        this.errorToResult(message.MessageId || 'unknown', error)
+      );
+      void pipeline.then(() => arrive(false));
+
+      return { message, metadata, arrived, settle, pipeline, span };
+    });
+
+    const reachedHandler = await Promise.all(entries.map(({ arrived }) => arrived));
+    const batch = entries.filter((_, index) => reachedHandler[index]);
+
+    if (batch.length > 0) {
+      const batchSpan = startBatchProcessSpan(
+        this.config.sqsConfig.queueUrl,
+        batch.flatMap(({ span }) => (span ? [span] : []))
+      );
+      try {
+        const batchResults = await runInSpan(batchSpan, () =>
+          handler.handleBatch(batch.map(({ message, metadata }) => ({ message, metadata })))
+        );
+        for (const { message, settle } of batch) {
+          settle.resolve(batchResults.get(message.MessageId || '') ?? { status: 'success' });
+        }
+      } catch (error) {
+        batchSpan.recordException(error instanceof Error ? error : String(error));
+        batchSpan.setStatus({ code: SpanStatusCode.ERROR });
+        for (const { settle } of batch) {
+          settle.reject(error);
         }
+      } finally {
+        batchSpan.end();
       }
-      console.warn(`[SQSConsumer] ${retryMessages.length} message(s) will be retried`);
     }
+
+    return Promise.all(entries.map(({ pipeline }) => pipeline));
   }
 
   /**
-   * Categorize message based on processing result
+   * Wait for the handler, giving up once handlerTimeoutMs has passed
+   * On timeout the messages' abort signals are aborted and undefined is returned.
    */
-  private categorizeMessage(
-    message: Message,
-    result: MessageResult,
-    successfulMessages: Message[],
-    retryMessages: Message[],
-    permanentFailureMessages: Message[]
-  ): void {
-    if (result.status === 'success') {
-      successfulMessages.push(message);
-    } else if (result.status === 'retry') {
-      retryMessages.push(message);
-    } else if (result.status === 'fail') {
-      permanentFailureMessages.push(message);
+  private async withHandlerTimeout<T>(work: Promise<T>, abortControllers: AbortController[]): Promise<T | undefined> {
+    const timeoutMs = this.config.handlerTimeoutMs;
+    if (timeoutMs === undefined) {
+      return work;
+    }
+
+    // The handler may still fail after we stopped waiting for it
+    work.catch(() => undefined);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => {
+        for (const abortController of abortControllers) {
+          abortController.abort(new Error(`Handler timed out after ${timeoutMs}ms`));
+        }
+        resolve(undefined);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([work, timedOut]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
   /**
-   * Process a single message
+   * Result for a message whose handler timed out - retried and counted in the metrics
+   */
+  private timeoutResult(message: Message): MessageResult {
+    this.metrics.handlerTimeouts++;
+    this.emit('handler_timeout', message);
+    const reason = `Handler timed out after ${this.config.handlerTimeoutMs}ms`;
+    this.logger.warn('Handler timed out', { messageId: message.MessageId, timeoutMs: this.config.handlerTimeoutMs });
+    return { status: 'retry', reason };
+  }
+
+  /**
+   * Run the middlewares for a message, ending with `handle`
+   * Lines logged meanwhile (e.g. by services the handler calls) carry the messageId.
+   */
+  private runMiddleware(message: Message, metadata: MessageMetadata, handle: NextFunction): Promise<MessageResult> {
+    return withLogContext({ messageId: message.MessageId }, () => this.middleware({ message, metadata }, handle));
+  }
+
+  /**
+   * Map an error thrown while processing a message to a result
+   */
+  private errorToResult(messageId: string, error: unknown): MessageResult {
+    if (error instanceof RetryException) {
+      this.logger.warn('Retry requested', { messageId, reason: error.message });
+      return { status: 'retry', reason: error.message, error };
+    }
+
+    if (error instanceof FailureException) {
+      // Logged as a permanent failure once the result is settled
+      return { status: 'fail', reason: error.message, error };
+    }
+
+    this.logger.error('Error processing message', { messageId, error });
+    return {
+      status: this.defaultErrorStatus,
+      reason: error instanceof Error ? error.message : String(error),
+      error: error instanceof Error ? error : undefined,
+    };
+  }
+
+  /**
+   * Run idempotency checks and the handler for a single message
+   */
+  private async handleMessage(handler: MessageHandler, message: Message): Promise<ProcessingResult> {
+    const prepared = await this.prepareMessage(message);
+    if (!prepared.ready) {
+      return prepared.result;
+    }
+
+    const { idempotencyKey, metadata, heartbeat, abortController } = prepared;
+
+    // Process the message - handler returns result
+    let result: MessageResult;
+    const startedAt = Date.now();
+    // Child of the producer's span when the message carries a trace context
+    const span = startProcessSpan(this.config.sqsConfig.queueUrl, message);
+    heartbeat.start();
+    try {
+      const handled = await this.withHandlerTimeout(
+        runInSpan(span, () => this.runMiddleware(message, metadata, () => handler.handle(message, metadata))),
+        [abortController]
+      );
+      result = handled ?? this.timeoutResult(message);
+    } catch (error) {
+      result = this.errorToResult(message.MessageId || 'unknown', error);
+    } finally {
+      heartbeat.stop();
+    }
+
+    this.emit('handler_completed', message, result, Date.now() - startedAt);
+    endProcessSpan(span, result);
+    return this.settleMessage(message, idempotencyKey, result);
+  }
+
+  /**
+   * Take the idempotency lock and build the handler metadata for a message
+   * Returns a result instead if the message is already processed or locked by another consumer
    */
-  private async processMessage(message: Message): Promise<MessageResult> {
+  private async prepareMessage(message: Message): Promise<PreparedMessage> {
     const messageId = message.MessageId || 'unknown';
 
-    // Check idempotency: Has this message been processed before?
+    // Check idempotency: take the in-progress lock unless processed / locked elsewhere
+    const idempotencyKey = this.getIdempotencyKey(message);
     if (this.idempotencyStore) {
-      const alreadyProcessed = await this.idempotencyStore.hasProcessed(messageId);
-      if (alreadyProcessed) {
-        console.log(`[SQSConsumer] ⏭️  Message ${messageId} already processed, skipping`);
+      const lock = await this.idempotencyStore.acquire(idempotencyKey, this.idempotencyLeaseSeconds);
+
+      if (lock === 'processed') {
+        this.logger.info('Message already processed, skipping', { messageId });
         // Delete it to prevent reprocessing
-        return { status: 'success' };
+        return { ready: false, result: { status: 'success', skipped: true } };
+      }
+
+      if (lock === 'in_progress') {
+        this.logger.info('Message is being processed by another consumer, deferring', { messageId });
+        // Check again once the other consumer's lease could have run out
+        return {
+          ready: false,
+          result: {
+            status: 'retry',
+            reason: 'Locked by another consumer',
+            visibilityTimeoutSeconds: this.idempotencyLeaseSeconds,
+            deferred: true,
+          },
+        };
       }
     }
 
     // Extract metadata from message attributes
-    const retryCount = parseInt(message.Attributes?.ApproximateReceiveCount || '0', 10);
+    const retryCount = this.getReceiveCount(message);
     const maxReceiveCount = this.config.sqsConfig.maxReceiveCount;
+    const isLastAttempt =
+      (maxReceiveCount !== undefined && retryCount >= maxReceiveCount) ||
+      (this.maxRetries !== undefined && retryCount >= this.maxRetries + 1);
+
+    // Keep the message invisible to other consumers while the handler runs
+    const logger = this.logger.child({ messageId });
+    const heartbeat = this.createHeartbeat(message, logger, idempotencyKey);
+    const abortController = new AbortController();
 
     const metadata: MessageMetadata = {
       retryCount,
-      isLastAttempt: maxReceiveCount !== undefined ? retryCount >= maxReceiveCount : false,
+      isLastAttempt,
+      heartbeat,
+      logger,
+      idempotencyKey,
+      signal: abortController.signal,
     };
 
-    // Process the message - handler returns result
-    const result = await this.handler.handle(message, metadata);
+    return { ready: true, idempotencyKey, metadata, heartbeat, abortController };
+  }
+
+  /**
+   * Record the handler's result in the idempotency store
+   */
+  private async settleMessage(message: Message, idempotencyKey: string, result: MessageResult): Promise<ProcessingResult> {
+    const messageId = message.MessageId || 'unknown';
 
-    // Retry: Don't mark in idempotency store (allow reprocessing)
+    // Retry: Release the lock (allow reprocessing)
     if (result.status === 'retry') {
+      await this.idempotencyStore?.release(idempotencyKey);
       return result;
     }
 
-    // Success or Fail: Mark in idempotency store
-    if (this.idempotencyStore) {
-      await this.idempotencyStore.markProcessed(messageId, this.idempotencyTtlSeconds);
+    // Fail: Keep the lock until the message is dead-lettered (see settleIdempotencyOfFailures)
+    if (result.status === 'fail') {
+      this.logger.error('Message failed permanently', { messageId, reason: result.reason });
+      return this.idempotencyStore ? { ...result, heldIdempotencyKey: idempotencyKey } : result;
     }
 
-    // Log based on status
-    if (result.status === 'success') {
-      console.log(`[SQSConsumer] ✅ Successfully processed message ${messageId}`);
-    } else {
-      console.error(`[SQSConsumer] 💀 Permanent failure for message ${messageId}${result.reason ? `: ${result.reason}` : ''}`);
+    // Success: Mark in idempotency store
+    if (this.idempotencyStore) {
+      await this.idempotencyStore.complete(idempotencyKey, this.idempotencyTtlSeconds);
     }
 
+    this.logger.info('Message processed', { messageId });
     return result;
   }
 
+  /**
+   * Build the namespaced idempotency key for a message, falling back to the MessageId
+   */
+  private getIdempotencyKey(message: Message): string {
+    const key = this.idempotencyKey(message) ?? message.MessageId ?? 'unknown';
+    return this.idempotencyNamespace ? `${this.idempotencyNamespace}:${key}` : key;
+  }
+
+  /**
+   * Create a visibility heartbeat for a message about to be handled
+   * With an idempotencyKey, each beat also renews the message's idempotency lock, so a handler
+   * running longer than idempotencyLeaseSeconds doesn't lose it to a redelivery.
+   */
+  private createHeartbeat(message: Message, logger: Logger, idempotencyKey?: string): VisibilityHeartbeat {
+    const { visibilityTimeout } = this.config.sqsConfig;
+
+    return new VisibilityHeartbeat(
+      logger,
+      async (visibilityTimeoutSeconds) => {
+        // Released by a timed-out drain - extending would hide it from other consumers again
+        if (this.isReleased(message)) {
+          return;
+        }
+        await this.changeMessageVisibility(message, visibilityTimeoutSeconds);
+
+        if (this.idempotencyStore && idempotencyKey !== undefined) {
+          await this.idempotencyStore.renew(
+            idempotencyKey,
+            Math.max(this.idempotencyLeaseSeconds, visibilityTimeoutSeconds)
+          );
+        }
+      },
+      {
+        visibilityTimeoutSeconds: visibilityTimeout,
+        intervalSeconds: this.config.heartbeatIntervalSeconds ?? visibilityTimeout / 2,
+        maxLeaseSeconds: this.config.maxLeaseSeconds ?? 43200,
+      }
+    );
+  }
+
   /**
    * Convert time value to milliseconds
    */
@@ -281,25 +1767,48 @@ export class SQSConsumer {
 
   /**
    * Calculate visibility timeout in seconds for a retry message
+   * The nth failure of a message waits baseDelay * 2^(n-1), whether failures are counted by the backoff
+   * store or by ApproximateReceiveCount. Rounded up so the message doesn't return before its retry time.
    */
-  private calculateVisibilityTimeout(message: Message): number {
-    const retryCount = parseInt(message.Attributes?.ApproximateReceiveCount || '0', 10);
-    const backoffDelayMs = this.calculateBackoffDelay(retryCount);
-    return Math.min(Math.floor(backoffDelayMs / 1000), 43200); // Max 12 hours
+  private async calculateVisibilityTimeout(message: Message): Promise<number> {
+    const backoffDelayMs = this.backoffStore
+      ? await this.recordBackoffFailure(message)
+      : this.calculateBackoffDelay(this.getReceiveCount(message) - 1);
+    return Math.max(0, Math.min(Math.ceil(backoffDelayMs / 1000), 43200)); // Max 12 hours
   }
 
   /**
-   * Calculate backoff delay in milliseconds based on retry count
+   * Record the failure in the backoff store and return the delay until the next attempt
    */
-  private calculateBackoffDelay(retryCount: number): number {
+  private async recordBackoffFailure(message: Message): Promise<number> {
     const baseDelayMs = this.toMilliseconds(this.backoffBaseDelay, this.backoffBaseDelayUnit);
+    const nextRetryAt = await this.backoffStore!.recordFailure(
+      message.MessageId || 'unknown',
+      baseDelayMs,
+      this.retryStrategy,
+      this.jitter
+    );
+    return nextRetryAt - Date.now();
+  }
 
-    if (this.retryStrategy === 'fixed') {
-      return baseDelayMs;
-    }
+  /**
+   * Calculate backoff delay in milliseconds from the number of earlier failures
+   * Exponential backoff: baseDelay * 2^earlierFailures, with optional jitter (same schedule as the backoff stores)
+   */
+  private calculateBackoffDelay(earlierFailures: number): number {
+    const baseDelayMs = this.toMilliseconds(this.backoffBaseDelay, this.backoffBaseDelayUnit);
 
-    // Exponential backoff: baseDelay * 2^retryCount
-    return baseDelayMs * Math.pow(2, retryCount);
+    return calculateBackoffDelay({
+      baseDelayMs,
+      retryCount: earlierFailures,
+      strategy: this.retryStrategy,
+      jitter: this.jitter,
+      // No backoff store to remember the last jittered delay - approximate it with the previous un-jittered one
+      previousDelayMs:
+        earlierFailures > 0
+          ? calculateBackoffDelay({ baseDelayMs, retryCount: earlierFailures - 1, strategy: this.retryStrategy })
+          : undefined,
+    });
   }
 
   /**
@@ -307,7 +1816,7 @@ export class SQSConsumer {
    */
   private async changeMessageVisibility(message: Message, visibilityTimeoutSeconds: number): Promise<void> {
     if (!message.ReceiptHandle) {
-      console.warn('[SQSConsumer] Cannot change visibility: message has no receipt handle');
+      this.logger.warn('Cannot change visibility: message has no receipt handle', { messageId: message.MessageId });
       return;
     }
 
@@ -320,33 +1829,86 @@ export class SQSConsumer {
     await this.sqsClient.send(command);
   }
 
+  /**
+   * Delete messages in DeleteMessageBatch calls of at most 10 entries, then forget their backoff history
+   * Messages that fail to delete stay on the queue and are redelivered after the visibility timeout.
+   */
   private async deleteMessages(messages: Message[]): Promise<void> {
-    const entries: DeleteMessageBatchRequestEntry[] = messages
-      .filter((msg) => msg.ReceiptHandle)
-      .map((msg, index) => ({
-        Id: index.toString(),
-        ReceiptHandle: msg.ReceiptHandle!,
-      }));
+    const withHandle = messages.filter((msg) => msg.ReceiptHandle);
+    const entries: DeleteMessageBatchRequestEntry[] = withHandle.map((msg, index) => ({
+      Id: index.toString(),
+      ReceiptHandle: msg.ReceiptHandle!,
+    }));
+
+    for (const chunk of chunkEntries(entries)) {
+      try {
+        const command = new DeleteMessageBatchCommand({
+          QueueUrl: this.config.sqsConfig.queueUrl,
+          Entries: chunk,
+        });
+
+        const response = await this.sqsClient.send(command);
+        for (const entry of response.Failed || []) {
+          this.logger.error('Failed to delete message', {
+            messageId: withHandle[Number(entry.Id)]?.MessageId,
+            reason: entry.Message,
+          });
+        }
+        const failedIds = new Set((response.Failed || []).map((entry) => entry.Id));
+        const deleted = chunk.filter((entry) => !failedIds.has(entry.Id)).map((entry) => withHandle[Number(entry.Id)]!);
+        this.logger.debug('Deleted messages', { count: deleted.length });
+        await this.clearBackoff(deleted);
+      } catch (error) {
+        this.logger.error('Failed to delete messages', { count: chunk.length, error });
+      }
+    }
+  }
 
-    if (entries.length === 0) {
+  /**
+   * Forget the backoff history of messages that left the queue
+   * Covers successes, permanent failures and exhausted retries alike, so no entry outlives its message.
+   */
+  private async clearBackoff(messages: Message[]): Promise<void> {
+    if (!this.backoffStore) {
       return;
     }
 
-    try {
-      const command = new DeleteMessageBatchCommand({
-        QueueUrl: this.config.sqsConfig.queueUrl,
-        Entries: entries,
-      });
+    await Promise.all(
+      messages.map(async ({ MessageId: messageId = 'unknown' }) => {
+        try {
+          await this.backoffStore!.clear(messageId);
+        } catch (error) {
+          this.logger.error('Failed to clear backoff', { messageId, error });
+        }
+      })
+    );
+  }
 
-      await this.sqsClient.send(command);
-      console.log(`[SQSConsumer] Deleted ${entries.length} message(s)`);
-    } catch (error) {
-      console.error('[SQSConsumer] Failed to delete messages:', error);
-    }
+  /**
+   * Wait until resume() or stop() is called
+   */
+  private waitForResume(): Promise<void> {
+    return new Promise((resolve) => {
+      this.wakeResume = () => {
+        this.wakeResume = undefined;
+        resolve();
+      };
+    });
   }
 
+  /**
+   * Sleep between polls; stop() can wake it early
+   */
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.wakeSleep = undefined;
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.wakeSleep = wake;
+    });
   }
 }
 
@@ -1,4 +1,5 @@
 import { BackoffStore } from '../interfaces/backoff-store';
+import { calculateBackoffDelay, JitterStrategy } from '../backoff';
 import { addMilliseconds, addSeconds, addMinutes, addHours, isAfter } from 'date-fns';
 
 export type TimeUnit = 'ms' | 'sec' | 'min' | 'hour';
@@ -10,6 +11,7 @@ interface BackoffEntry {
   baseDelay: number;
   baseDelayUnit: TimeUnit;
   strategy: RetryStrategy;
+  delayMs: number; // Delay actually scheduled after the last failure (includes jitter)
 }
 
 export class InMemoryBackoffStore implements BackoffStore {
@@ -28,19 +30,6 @@ export class InMemoryBackoffStore implements BackoffStore {
     }
   }
 
-  private toMilliseconds(value: number, unit: TimeUnit): number {
-    switch (unit) {
-      case 'ms':
-        return value;
-      case 'sec':
-        return value * 1000;
-      case 'min':
-        return value * 60 * 1000;
-      case 'hour':
-        return value * 60 * 60 * 1000;
-    }
-  }
-
   async canProcess(messageId: string): Promise<boolean> {
     const entry = this.backoffEntries.get(messageId);
 
@@ -48,13 +37,7 @@ export class InMemoryBackoffStore implements BackoffStore {
       return true;
     }
 
-    // Calculate delay based on strategy
-    const baseDelayMs = this.toMilliseconds(entry.baseDelay, entry.baseDelayUnit);
-    const delayMs = entry.strategy === 'fixed'
-      ? baseDelayMs
-      : baseDelayMs * Math.pow(2, entry.retryCount - 1);
-
-    const nextRetryTime = addMilliseconds(entry.lastFailureTime, delayMs);
+    const nextRetryTime = addMilliseconds(entry.lastFailureTime, entry.delayMs);
     const now = new Date();
 
     return isAfter(now, nextRetryTime) || now.getTime() === nextRetryTime.getTime();
@@ -63,24 +46,30 @@ export class InMemoryBackoffStore implements BackoffStore {
   async recordFailure(
     messageId: string,
     baseDelayMs: number = 1000,
-    strategy: RetryStrategy = 'exponential'
+    strategy: RetryStrategy = 'exponential',
+    jitter: JitterStrategy = 'none'
   ): Promise<number> {
     const entry = this.backoffEntries.get(messageId);
     const retryCount = entry ? entry.retryCount + 1 : 1;
     const lastFailureTime = new Date();
 
+    const delay = calculateBackoffDelay({
+      baseDelayMs,
+      retryCount: retryCount - 1,
+      strategy,
+      jitter,
+      previousDelayMs: entry?.delayMs,
+    });
+
     this.backoffEntries.set(messageId, {
       retryCount,
       lastFailureTime,
       baseDelay: baseDelayMs,
       baseDelayUnit: 'ms',
       strategy,
+      delayMs: delay,
     });
 
-    const delay = strategy === 'fixed'
-      ? baseDelayMs
-      : baseDelayMs * Math.pow(2, retryCount - 1);
-
     return lastFailureTime.getTime() + delay;
   }
 
@@ -1,39 +1,75 @@
-import { IdempotencyStore } from '../interfaces/idempotency-store';
+import { IdempotencyAcquireResult, IdempotencyStore } from '../interfaces/idempotency-store';
+
+interface IdempotencyEntry {
+  status: 'in_progress' | 'processed';
+  expiryTimestamp: number;
+}
 
 export class InMemoryIdempotencyStore implements IdempotencyStore {
-  private processedMessages: Map<string, number> = new Map(); // messageId -> expiryTimestamp
+  private entries: Map<string, IdempotencyEntry> = new Map(); // messageId -> entry
 
   async hasProcessed(messageId: string): Promise<boolean> {
     this.cleanupExpired();
-    return this.processedMessages.has(messageId);
+    return this.entries.get(messageId)?.status === 'processed';
   }
 
   async markProcessed(messageId: string, ttlSeconds: number): Promise<void> {
     const expiryTimestamp = Date.now() + ttlSeconds * 1000;
-    this.processedMessages.set(messageId, expiryTimestamp);
+    this.entries.set(messageId, { status: 'processed', expiryTimestamp });
   }
 
   async remove(messageId: string): Promise<void> {
-    this.processedMessages.delete(messageId);
+    this.entries.delete(messageId);
+  }
+
+  async acquire(messageId: string, leaseSeconds: number): Promise<IdempotencyAcquireResult> {
+    this.cleanupExpired();
+
+    const entry = this.entries.get(messageId);
+    if (entry) {
+      return entry.status;
+    }
+
+    this.entries.set(messageId, {
+      status: 'in_progress',
+      expiryTimestamp: Date.now() + leaseSeconds * 1000,
+    });
+    return 'acquired';
+  }
+
+  async renew(messageId: string, leaseSeconds: number): Promise<void> {
+    const entry = this.entries.get(messageId);
+    if (entry?.status === 'in_progress') {
+      entry.expiryTimestamp = Date.now() + leaseSeconds * 1000;
+    }
+  }
+
+  async complete(messageId: string, ttlSeconds: number): Promise<void> {
+    await this.markProcessed(messageId, ttlSeconds);
+  }
+
+  async release(messageId: string): Promise<void> {
+    if (this.entries.get(messageId)?.status === 'in_progress') {
+      this.entries.delete(messageId);
+    }
   }
 
   private cleanupExpired(): void {
     const now = Date.now();
-    for (const [messageId, expiryTimestamp] of this.processedMessages.entries()) {
-      if (expiryTimestamp <= now) {
-        this.processedMessages.delete(messageId);
+    for (const [messageId, entry] of this.entries.entries()) {
+      if (entry.expiryTimestamp <= now) {
+        this.entries.delete(messageId);
       }
     }
   }
 
   
   clear(): void {
-    this.processedMessages.clear();
+    this.entries.clear();
   }
 
   size(): number {
     this.cleanupExpired();
-    return this.processedMessages.size;
+    return this.entries.size;
   }
 }
-
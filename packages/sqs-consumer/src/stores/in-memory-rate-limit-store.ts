@@ -0,0 +1,43 @@
+import { RateLimitGrant, RateLimitStore, TokenBucket } from '../interfaces/rate-limit-store';
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * In-memory token buckets
+ * The budget is per process - use RedisRateLimitStore to share it across replicas.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, BucketState> = new Map();
+
+  async take(key: string, requested: number, bucket: TokenBucket): Promise<RateLimitGrant> {
+    const now = Date.now();
+    const tokens = this.refill(key, bucket, now);
+
+    const granted = Math.min(requested, Math.floor(tokens));
+    const remaining = tokens - granted;
+    this.buckets.set(key, { tokens: remaining, updatedAt: now });
+
+    return {
+      granted,
+      retryAfterMs: granted < requested ? Math.ceil(((1 - remaining) / bucket.refillPerSecond) * 1000) : 0,
+    };
+  }
+
+  async refund(key: string, tokens: number, bucket: TokenBucket): Promise<void> {
+    const now = Date.now();
+    const refilled = this.refill(key, bucket, now);
+    this.buckets.set(key, { tokens: Math.min(bucket.capacity, refilled + tokens), updatedAt: now });
+  }
+
+  /**
+   * Tokens in the bucket at `now`, refilled for the time since it was last updated
+   */
+  private refill(key: string, bucket: TokenBucket, now: number): number {
+    const state = this.buckets.get(key) ?? { tokens: bucket.capacity, updatedAt: now };
+    const refilled = ((now - state.updatedAt) / 1000) * bucket.refillPerSecond;
+    return Math.min(bucket.capacity, state.tokens + refilled);
+  }
+}
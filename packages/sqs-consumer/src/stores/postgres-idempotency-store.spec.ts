@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { Database } from '@repo/database';
+import { processedMessages, users } from '@repo/database/schema';
+import { setupPgliteTestDb } from '@repo/database/test-utils/pglite';
+import { createLogger } from '@repo/logger';
+import { PostgresIdempotencyStore } from './postgres-idempotency-store';
+
+describe('PostgresIdempotencyStore', () => {
+  let testDb: Awaited<ReturnType<typeof setupPgliteTestDb>>;
+  let db: Database;
+  let store: PostgresIdempotencyStore;
+
+  const rows = () => db.select().from(processedMessages);
+
+  beforeAll(async () => {
+    testDb = await setupPgliteTestDb();
+    db = testDb.db as unknown as Database;
+  }, 30000);
+
+  afterAll(async () => {
+    await testDb.client.close();
+  });
+
+  beforeEach(async () => {
+    await db.delete(processedMessages);
+    await db.delete(users);
+    store = new PostgresIdempotencyStore(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('should lock a new key for this store', async () => {
+      expect(await store.acquire('key-1', 30)).toBe('acquired');
+
+      const [row] = await rows();
+      expect(row).toMatchObject({ key: 'key-1', status: 'in_progress', ownerId: expect.any(String) });
+    });
+
+    it('should report a key locked by another consumer as in progress', async () => {
+      await new PostgresIdempotencyStore(db).acquire('key-1', 30);
+
+      expect(await store.acquire('key-1', 30)).toBe('in_progress');
+    });
+
+    it('should report a completed key as processed', async () => {
+      await store.acquire('key-1', 30);
+      await store.complete('key-1', 60);
+
+      expect(await store.acquire('key-1', 30)).toBe('processed');
+      expect(await store.hasProcessed('key-1')).toBe(true);
+    });
+
+    it('should take over an expired lock', async () => {
+      const other = new PostgresIdempotencyStore(db);
+      await other.acquire('key-1', 30);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 31000);
+
+      expect(await store.acquire('key-1', 30)).toBe('acquired');
+      // The previous owner can no longer release it
+      await other.release('key-1');
+      expect(await rows()).toHaveLength(1);
+    });
+  });
+
+  describe('release', () => {
+    it('should delete the lock so the next delivery can acquire it', async () => {
+      await store.acquire('key-1', 30);
+
+      await store.release('key-1');
+
+      expect(await rows()).toEqual([]);
+      expect(await new PostgresIdempotencyStore(db).acquire('key-1', 30)).toBe('acquired');
+    });
+
+    it('should keep processed records and locks of other owners', async () => {
+      await store.acquire('key-1', 30);
+      await store.complete('key-1', 60);
+      await new PostgresIdempotencyStore(db).acquire('key-2', 30);
+
+      await store.release('key-1');
+      await store.release('key-2');
+
+      expect((await rows()).map(({ key }) => key).sort()).toEqual(['key-1', 'key-2']);
+    });
+  });
+
+  describe('renew', () => {
+    it('should extend the lease of a lock held by this store', async () => {
+      await store.acquire('key-1', 30);
+      const [before] = await rows();
+
+      await store.renew('key-1', 300);
+
+      const [row] = await rows();
+      expect(row!.expiresAt.getTime()).toBeGreaterThan(before!.expiresAt.getTime() + 200_000);
+    });
+
+    it('should not extend processed records or locks of other owners', async () => {
+      await store.acquire('key-1', 30);
+      await store.complete('key-1', 60);
+      await new PostgresIdempotencyStore(db).acquire('key-2', 30);
+      const before = await rows();
+
+      await store.renew('key-1', 300);
+      await store.renew('key-2', 300);
+
+      expect(await rows()).toEqual(before);
+    });
+  });
+
+  describe('complete', () => {
+    it('should mark the key processed until the TTL expires', async () => {
+      await store.acquire('key-1', 30);
+
+      await store.complete('key-1', 60);
+
+      const [row] = await rows();
+      expect(row).toMatchObject({ status: 'processed', ownerId: null });
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 61000);
+      expect(await store.hasProcessed('key-1')).toBe(false);
+    });
+  });
+
+  describe('processInTransaction', () => {
+    const user = (id: string) => ({ id, username: `user${id}`, email: `user${id}@example.com`, fullName: 'Test User' });
+
+    it('should commit the work and the processed record together', async () => {
+      const outcome = await store.processInTransaction('key-1', 60, async (tx) => {
+        await tx.insert(users).values(user('1'));
+        return 'done';
+      });
+
+      expect(outcome).toEqual({ duplicate: false, result: 'done' });
+      expect(await store.hasProcessed('key-1')).toBe(true);
+      expect(await db.select().from(users)).toHaveLength(1);
+    });
+
+    it('should skip the work for a key that was already processed', async () => {
+      await store.processInTransaction('key-1', 60, async () => 'first');
+      const work = vi.fn();
+
+      const outcome = await store.processInTransaction('key-1', 60, work);
+
+      expect(outcome).toEqual({ duplicate: true });
+      expect(work).not.toHaveBeenCalled();
+    });
+
+    it('should take over a key locked with acquire', async () => {
+      await store.acquire('key-1', 30);
+
+      const outcome = await store.processInTransaction('key-1', 60, async () => 'done');
+
+      expect(outcome).toEqual({ duplicate: false, result: 'done' });
+    });
+
+    it('should roll back the work and the processed record when the work throws', async () => {
+      await expect(
+        store.processInTransaction('key-1', 60, async (tx) => {
+          await tx.insert(users).values(user('1'));
+          throw new Error('Handler failed');
+        })
+      ).rejects.toThrow('Handler failed');
+
+      expect(await rows()).toEqual([]);
+      expect(await db.select().from(users)).toEqual([]);
+
+      // The next delivery runs the work again
+      const outcome = await store.processInTransaction('key-1', 60, async () => 'retried');
+      expect(outcome).toEqual({ duplicate: false, result: 'retried' });
+    });
+  });
+
+  describe('processBatchInTransaction', () => {
+    it('should run the work only for the keys not processed yet', async () => {
+      await store.markProcessed('key-2', 60);
+      const work = vi.fn().mockResolvedValue('done');
+
+      const outcome = await store.processBatchInTransaction(['key-3', 'key-1', 'key-2', 'key-1'], 60, work);
+
+      expect(outcome).toEqual({ claimed: ['key-1', 'key-3'], result: 'done' });
+      expect(work).toHaveBeenCalledWith(expect.anything(), ['key-1', 'key-3']);
+      expect(await store.hasProcessed('key-3')).toBe(true);
+    });
+
+    it('should skip the work when every key is a duplicate', async () => {
+      await store.markProcessed('key-1', 60);
+      const work = vi.fn();
+
+      expect(await store.processBatchInTransaction(['key-1'], 60, work)).toEqual({ claimed: [] });
+      expect(await store.processBatchInTransaction([], 60, work)).toEqual({ claimed: [] });
+      expect(work).not.toHaveBeenCalled();
+    });
+
+    it('should roll back every key when the work throws', async () => {
+      await expect(
+        store.processBatchInTransaction(['key-1', 'key-2'], 60, async () => {
+          throw new Error('Handler failed');
+        })
+      ).rejects.toThrow('Handler failed');
+
+      expect(await rows()).toEqual([]);
+    });
+  });
+
+  describe('cleanup', () => {
+    it('should delete only expired rows', async () => {
+      await store.markProcessed('short', 10);
+      await store.markProcessed('long', 3600);
+      await store.acquire('lock', 10);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 11000);
+
+      expect(await store.cleanupExpired()).toBe(2);
+      expect((await rows()).map(({ key }) => key)).toEqual(['long']);
+    });
+
+    it('should run the cleanup periodically until stopped', async () => {
+      const writeLog = vi.fn();
+      store = new PostgresIdempotencyStore(db, createLogger({ format: 'json', write: writeLog }));
+      const cleanupExpired = vi.spyOn(store, 'cleanupExpired').mockResolvedValue(3);
+
+      const stop = store.startCleanup(20);
+      await vi.waitFor(() => expect(cleanupExpired.mock.calls.length).toBeGreaterThanOrEqual(2));
+      stop();
+      const calls = cleanupExpired.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      expect(cleanupExpired).toHaveBeenCalledTimes(calls);
+      expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({ msg: 'Deleted expired idempotency records', deleted: 3 });
+    });
+
+    it('should log cleanup errors and keep running', async () => {
+      const writeLog = vi.fn();
+      store = new PostgresIdempotencyStore(db, createLogger({ format: 'json', write: writeLog }));
+      const cleanupExpired = vi.spyOn(store, 'cleanupExpired').mockRejectedValue(new Error('Connection terminated'));
+
+      const stop = store.startCleanup(20);
+      await vi.waitFor(() => expect(cleanupExpired.mock.calls.length).toBeGreaterThanOrEqual(2));
+      stop();
+
+      expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({ level: 'error', msg: 'Idempotency cleanup failed' });
+    });
+  });
+});
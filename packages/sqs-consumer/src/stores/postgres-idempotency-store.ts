@@ -0,0 +1,242 @@
+import { randomUUID } from 'node:crypto';
+import { and, eq, gt, lte, ne, or } from 'drizzle-orm';
+import type { Database } from '@repo/database';
+import { createLogger, Logger } from '@repo/logger';
+import { processedMessages } from '@repo/database/schema';
+import { IdempotencyAcquireResult, IdempotencyStore } from '../interfaces/idempotency-store';
+
+/**
+ * Transaction handle passed to processInTransaction work
+ */
+export type PostgresTransaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export interface TransactionalProcessResult<T> {
+  duplicate: boolean; // true if the key was already processed (work was not run)
+  result?: T; // Value returned by work (only when duplicate is false)
+}
+
+export interface BatchTransactionalProcessResult<T> {
+  claimed: string[]; // Keys that were not processed yet - work ran for these
+  result?: T; // Value returned by work (only when claimed is not empty)
+}
+
+/**
+ * PostgreSQL-based idempotency store
+ * Keeps idempotency records in the processed_messages table of @repo/database,
+ * next to the business tables, so handlers can commit their writes and the
+ * "processed" record atomically with processInTransaction().
+ *
+ * Row states:
+ * - in_progress (owner_id set)  locked by the store instance with that ownerId until expires_at
+ * - processed                   done, deduplicated until expires_at
+ *
+ * Expired rows are ignored by every read and can be reclaimed by acquire();
+ * call startCleanup() to delete them periodically.
+ */
+export class PostgresIdempotencyStore implements IdempotencyStore {
+  private readonly ownerId = randomUUID();
+
+  /**
+   * Create a new PostgreSQL idempotency store
+   * @param db - Drizzle database instance from @repo/database
+   * @param logger - Logger for the cleanup job (default: JSON logger named 'PostgresIdempotencyStore')
+   */
+  constructor(
+    private readonly db: Database,
+    private readonly logger: Logger = createLogger({ name: 'PostgresIdempotencyStore' })
+  ) {}
+
+  async hasProcessed(messageId: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({ key: processedMessages.key })
+      .from(processedMessages)
+      .where(
+        and(
+          eq(processedMessages.key, messageId),
+          eq(processedMessages.status, 'processed'),
+          gt(processedMessages.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+
+    return row !== undefined;
+  }
+
+  async markProcessed(messageId: string, ttlSeconds: number): Promise<void> {
+    const now = new Date();
+    const expiresAt = this.expiresAt(ttlSeconds);
+
+    await this.db
+      .insert(processedMessages)
+      .values({ key: messageId, status: 'processed', expiresAt })
+      .onConflictDoUpdate({
+        target: processedMessages.key,
+        set: { status: 'processed', ownerId: null, expiresAt, updatedAt: now },
+      });
+  }
+
+  async remove(messageId: string): Promise<void> {
+    await this.db.delete(processedMessages).where(eq(processedMessages.key, messageId));
+  }
+
+  async acquire(messageId: string, leaseSeconds: number): Promise<IdempotencyAcquireResult> {
+    const now = new Date();
+    const expiresAt = this.expiresAt(leaseSeconds);
+
+    // INSERT ... ON CONFLICT DO UPDATE WHERE expired: only one consumer can claim the row,
+    // and an expired lock or processed record is taken over
+    const claimed = await this.db
+      .insert(processedMessages)
+      .values({ key: messageId, status: 'in_progress', ownerId: this.ownerId, expiresAt })
+      .onConflictDoUpdate({
+        target: processedMessages.key,
+        set: { status: 'in_progress', ownerId: this.ownerId, expiresAt, updatedAt: now },
+        setWhere: lte(processedMessages.expiresAt, now),
+      })
+      .returning({ key: processedMessages.key });
+
+    if (claimed.length > 0) {
+      return 'acquired';
+    }
+
+    const [existing] = await this.db
+      .select({ status: processedMessages.status })
+      .from(processedMessages)
+      .where(eq(processedMessages.key, messageId))
+      .limit(1);
+
+    // Missing row means it was released or cleaned up just now - let the next delivery try again
+    return existing?.status === 'processed' ? 'processed' : 'in_progress';
+  }
+
+  async renew(messageId: string, leaseSeconds: number): Promise<void> {
+    await this.db
+      .update(processedMessages)
+      .set({ expiresAt: this.expiresAt(leaseSeconds), updatedAt: new Date() })
+      .where(
+        and(
+          eq(processedMessages.key, messageId),
+          eq(processedMessages.status, 'in_progress'),
+          eq(processedMessages.ownerId, this.ownerId)
+        )
+      );
+  }
+
+  async complete(messageId: string, ttlSeconds: number): Promise<void> {
+    await this.markProcessed(messageId, ttlSeconds);
+  }
+
+  async release(messageId: string): Promise<void> {
+    await this.db
+      .delete(processedMessages)
+      .where(
+        and(
+          eq(processedMessages.key, messageId),
+          eq(processedMessages.status, 'in_progress'),
+          eq(processedMessages.ownerId, this.ownerId)
+        )
+      );
+  }
+
+  /**
+   * Run work and mark the key processed in the same transaction
+   * If the key is already processed, work is skipped and { duplicate: true } is returned.
+   * If work throws, the transaction (including the processed record) is rolled back.
+   *
+   * @param messageId - Idempotency key (use metadata.idempotencyKey inside a handler)
+   * @param ttlSeconds - How long to remember the key as processed
+   * @param work - Business writes, using the provided transaction
+   */
+  async processInTransaction<T>(
+    messageId: string,
+    ttlSeconds: number,
+    work: (tx: PostgresTransaction) => Promise<T>
+  ): Promise<TransactionalProcessResult<T>> {
+    const { claimed, result } = await this.processBatchInTransaction([messageId], ttlSeconds, (tx) => work(tx));
+    return claimed.length === 0 ? { duplicate: true } : { duplicate: false, result };
+  }
+
+  /**
+   * Run work for the keys not processed yet and mark them processed in the same transaction
+   * Batch version of processInTransaction: work gets only the claimed keys (the others are duplicates)
+   * and is skipped when there are none. If work throws, the whole transaction is rolled back.
+   *
+   * @param messageIds - Idempotency keys of the batch (metadata.idempotencyKey of each message)
+   * @param ttlSeconds - How long to remember the keys as processed
+   * @param work - Business writes for the claimed keys, using the provided transaction
+   */
+  async processBatchInTransaction<T>(
+    messageIds: string[],
+    ttlSeconds: number,
+    work: (tx: PostgresTransaction, claimed: string[]) => Promise<T>
+  ): Promise<BatchTransactionalProcessResult<T>> {
+    // Sorted so concurrent batches lock the keys in the same order; a key can only be upserted once per statement
+    const keys = Array.from(new Set(messageIds)).sort();
+    if (keys.length === 0) {
+      return { claimed: [] };
+    }
+
+    return this.db.transaction(async (tx) => {
+      const now = new Date();
+      const expiresAt = this.expiresAt(ttlSeconds);
+
+      // Concurrent transactions on the same key block on the primary key until the first commits
+      const rows = await tx
+        .insert(processedMessages)
+        .values(keys.map((key) => ({ key, status: 'processed' as const, expiresAt })))
+        .onConflictDoUpdate({
+          target: processedMessages.key,
+          set: { status: 'processed', ownerId: null, expiresAt, updatedAt: now },
+          setWhere: or(ne(processedMessages.status, 'processed'), lte(processedMessages.expiresAt, now)),
+        })
+        .returning({ key: processedMessages.key });
+
+      const claimed = rows.map(({ key }) => key);
+      if (claimed.length === 0) {
+        return { claimed };
+      }
+
+      const result = await work(tx, claimed);
+      return { claimed, result };
+    });
+  }
+
+  /**
+   * Delete expired locks and processed records
+   * @returns Number of rows deleted
+   */
+  async cleanupExpired(): Promise<number> {
+    const deleted = await this.db
+      .delete(processedMessages)
+      .where(lte(processedMessages.expiresAt, new Date()))
+      .returning({ key: processedMessages.key });
+
+    return deleted.length;
+  }
+
+  /**
+   * Periodically delete expired rows
+   * @param intervalMs - Time between cleanups (default: 60000)
+   * @returns Function that stops the cleanup job
+   */
+  startCleanup(intervalMs: number = 60000): () => void {
+    const timer = setInterval(() => {
+      this.cleanupExpired()
+        .then((deleted) => {
+          if (deleted > 0) {
+            this.logger.info('Deleted expired idempotency records', { deleted });
+          }
+        })
+        .catch((error) => {
+          this.logger.error('Idempotency cleanup failed', { error });
+        });
+    }, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  private expiresAt(seconds: number): Date {
+    return new Date(Date.now() + seconds * 1000);
+  }
+}
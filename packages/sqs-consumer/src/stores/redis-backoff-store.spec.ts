@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Redis } from 'ioredis';
+import { RedisBackoffStore } from './redis-backoff-store';
+
+describe('RedisBackoffStore', () => {
+  let mockRedis: { hmget: ReturnType<typeof vi.fn>; eval: ReturnType<typeof vi.fn> };
+  let store: RedisBackoffStore;
+
+  // Field/value pairs passed to the script as a plain object
+  const writtenFields = (call: unknown[]) => {
+    const pairs = call.slice(5) as string[];
+    return Object.fromEntries(pairs.flatMap((value, i) => (i % 2 === 0 ? [[value, pairs[i + 1]]] : [])));
+  };
+
+  beforeEach(() => {
+    mockRedis = { hmget: vi.fn(), eval: vi.fn().mockResolvedValue(1) };
+    store = new RedisBackoffStore(mockRedis as unknown as Redis, 'backoff:', 3600);
+  });
+
+  it('should write the first failure only if no entry exists and expire it after the retry plus the TTL', async () => {
+    mockRedis.hmget.mockResolvedValue([null, null]);
+
+    const nextRetryAt = await store.recordFailure('msg-1', 1000);
+
+    const [call] = mockRedis.eval.mock.calls;
+    expect(call!.slice(1, 5)).toEqual([1, 'backoff:msg-1', '', 3601000]);
+    expect(writtenFields(call!)).toMatchObject({ retryCount: '1', delayMs: '1000', strategy: 'exponential' });
+    expect(nextRetryAt).toBe(Number(writtenFields(call!).lastFailureTime) + 1000);
+  });
+
+  it('should write a later failure only if the retry count it read is unchanged', async () => {
+    mockRedis.hmget.mockResolvedValue(['2', '2000']);
+
+    await store.recordFailure('msg-1', 1000);
+
+    const [call] = mockRedis.eval.mock.calls;
+    expect(call![3]).toBe('2');
+    expect(writtenFields(call!)).toMatchObject({ retryCount: '3', delayMs: '4000' });
+  });
+
+  it('should recompute from a fresh read when another consumer recorded a failure in between', async () => {
+    mockRedis.hmget.mockResolvedValueOnce(['1', '1000']).mockResolvedValueOnce(['2', '2000']);
+    mockRedis.eval.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+    await store.recordFailure('msg-1', 1000);
+
+    expect(mockRedis.eval).toHaveBeenCalledTimes(2);
+    expect(writtenFields(mockRedis.eval.mock.calls[1]!)).toMatchObject({ retryCount: '3', delayMs: '4000' });
+  });
+});
@@ -1,26 +1,45 @@
 import { Redis } from 'ioredis';
 import { BackoffStore, RetryStrategy } from '../interfaces/backoff-store';
+import { calculateBackoffDelay, JitterStrategy } from '../backoff';
 import { addMilliseconds, isAfter } from 'date-fns';
 
 export type TimeUnit = 'ms' | 'sec' | 'min' | 'hour';
 
+// Write the entry only if no other consumer recorded a failure since it was read, and refresh its TTL
+// KEYS[1] = entry key, ARGV[1] = retryCount that was read ('' for none), ARGV[2] = TTL in ms, ARGV[3..] = field/value pairs
+// Returns 1 when written, 0 when the entry changed in between
+const RECORD_FAILURE_SCRIPT = `
+local current = redis.call('hget', KEYS[1], 'retryCount')
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+
+redis.call('hset', KEYS[1], unpack(ARGV, 3))
+redis.call('pexpire', KEYS[1], ARGV[2])
+return 1
+`;
+
 /**
  * Redis-based backoff store
  * Uses Redis for distributed backoff tracking across multiple consumers
  */
 export class RedisBackoffStore implements BackoffStore {
   private readonly keyPrefix: string;
+  private readonly ttlMs: number;
 
   /**
    * Create a new Redis backoff store
    * @param redis - ioredis client instance
    * @param keyPrefix - Prefix for Redis keys (default: 'backoff:')
+   * @param ttlSeconds - How long an entry outlives its next retry time, for messages that never come back (default: 86400)
    */
   constructor(
     private readonly redis: Redis,
-    keyPrefix: string = 'backoff:'
+    keyPrefix: string = 'backoff:',
+    ttlSeconds: number = 86400
   ) {
     this.keyPrefix = keyPrefix;
+    this.ttlMs = ttlSeconds * 1000;
   }
 
   private toMilliseconds(value: number, unit: TimeUnit): number {
@@ -46,17 +65,10 @@ export class RedisBackoffStore implements BackoffStore {
     }
 
     // Parse entry data
-    const retryCount = parseInt(entry.retryCount, 10);
     const lastFailureTime = new Date(parseInt(entry.lastFailureTime, 10));
-    const baseDelay = parseFloat(entry.baseDelay);
-    const baseDelayUnit = entry.baseDelayUnit as TimeUnit;
-    const strategy = entry.strategy as RetryStrategy;
-
-    // Calculate delay based on strategy
-    const baseDelayMs = this.toMilliseconds(baseDelay, baseDelayUnit);
-    const delayMs = strategy === 'fixed' 
-      ? baseDelayMs 
-      : baseDelayMs * Math.pow(2, retryCount - 1);
+    const delayMs = entry.delayMs
+      ? parseFloat(entry.delayMs)
+      : this.legacyDelayMs(entry); // Entries written before delayMs was stored
 
     const nextRetryTime = addMilliseconds(lastFailureTime, delayMs);
     const now = new Date();
@@ -67,30 +79,50 @@ export class RedisBackoffStore implements BackoffStore {
   async recordFailure(
     messageId: string,
     baseDelayMs: number = 1000,
-    strategy: RetryStrategy = 'exponential'
+    strategy: RetryStrategy = 'exponential',
+    jitter: JitterStrategy = 'none'
   ): Promise<number> {
     const key = this.getKey(messageId);
-    
-    // Get current retry count
-    const currentRetryCount = await this.redis.hget(key, 'retryCount');
-    const retryCount = currentRetryCount ? parseInt(currentRetryCount, 10) + 1 : 1;
-    const lastFailureTime = Date.now();
-
-    // Store entry data in Redis hash
-    await this.redis.hset(key, {
-      retryCount: retryCount.toString(),
-      lastFailureTime: lastFailureTime.toString(),
-      baseDelay: baseDelayMs.toString(),
-      baseDelayUnit: 'ms',
-      strategy,
-    });
-
-    // Calculate next retry time
-    const delay = strategy === 'fixed' 
-      ? baseDelayMs 
-      : baseDelayMs * Math.pow(2, retryCount - 1);
 
-    return lastFailureTime + delay;
+    // Replicas may record failures of the same message concurrently: recompute from a fresh read until the write wins
+    for (;;) {
+      // Get current retry count and previous delay (for decorrelated jitter)
+      const [currentRetryCount, previousDelayMs] = await this.redis.hmget(key, 'retryCount', 'delayMs');
+      const retryCount = currentRetryCount ? parseInt(currentRetryCount, 10) + 1 : 1;
+      const lastFailureTime = Date.now();
+
+      const delay = calculateBackoffDelay({
+        baseDelayMs,
+        retryCount: retryCount - 1,
+        strategy,
+        jitter,
+        previousDelayMs: previousDelayMs ? parseFloat(previousDelayMs) : undefined,
+      });
+
+      const written = await this.redis.eval(
+        RECORD_FAILURE_SCRIPT,
+        1,
+        key,
+        currentRetryCount ?? '',
+        Math.ceil(delay + this.ttlMs),
+        'retryCount',
+        retryCount.toString(),
+        'lastFailureTime',
+        lastFailureTime.toString(),
+        'baseDelay',
+        baseDelayMs.toString(),
+        'baseDelayUnit',
+        'ms',
+        'strategy',
+        strategy,
+        'delayMs',
+        delay.toString()
+      );
+
+      if (written === 1) {
+        return lastFailureTime + delay;
+      }
+    }
   }
 
   async getRetryCount(messageId: string): Promise<number> {
@@ -104,6 +136,18 @@ export class RedisBackoffStore implements BackoffStore {
     await this.redis.del(key);
   }
 
+  /**
+   * Recompute the un-jittered delay for entries that have no stored delayMs
+   */
+  private legacyDelayMs(entry: Record<string, string>): number {
+    const baseDelayMs = this.toMilliseconds(parseFloat(entry.baseDelay!), entry.baseDelayUnit as TimeUnit);
+    return calculateBackoffDelay({
+      baseDelayMs,
+      retryCount: parseInt(entry.retryCount!, 10) - 1,
+      strategy: entry.strategy as RetryStrategy,
+    });
+  }
+
   /**
    * Get the full Redis key for a message ID
    * @param messageId - Message identifier
@@ -1,12 +1,37 @@
+import { randomUUID } from 'node:crypto';
 import { Redis } from 'ioredis';
-import { IdempotencyStore } from '../interfaces/idempotency-store';
+import { IdempotencyAcquireResult, IdempotencyStore } from '../interfaces/idempotency-store';
+
+const PROCESSED_VALUE = '1';
+const IN_PROGRESS_PREFIX = 'in_progress:';
+
+// Delete the key only if it still holds our lock (compare-and-delete)
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+// Extend the key only if it still holds our lock (compare-and-expire)
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0
+`;
 
 /**
  * Redis-based idempotency store
  * Uses Redis for distributed idempotency checks across multiple consumers
+ *
+ * Key values:
+ * - '1'                     processed
+ * - 'in_progress:<ownerId>' locked by the store instance with that ownerId
  */
 export class RedisIdempotencyStore implements IdempotencyStore {
   private readonly keyPrefix: string;
+  private readonly ownerId = randomUUID();
 
   /**
    * Create a new Redis idempotency store
@@ -22,15 +47,15 @@ export class RedisIdempotencyStore implements IdempotencyStore {
 
   async hasProcessed(messageId: string): Promise<boolean> {
     const key = this.getKey(messageId);
-    const exists = await this.redis.exists(key);
-    return exists === 1;
+    const value = await this.redis.get(key);
+    return value !== null && !value.startsWith(IN_PROGRESS_PREFIX);
   }
 
   async markProcessed(messageId: string, ttlSeconds: number): Promise<void> {
     const key = this.getKey(messageId);
     // SETEX: Set key with expiration in seconds
     // Value is '1' (we only care about existence, not the value)
-    await this.redis.setex(key, ttlSeconds, '1');
+    await this.redis.setex(key, ttlSeconds, PROCESSED_VALUE);
   }
 
   async remove(messageId: string): Promise<void> {
@@ -38,6 +63,41 @@ export class RedisIdempotencyStore implements IdempotencyStore {
     await this.redis.del(key);
   }
 
+  async acquire(messageId: string, leaseSeconds: number): Promise<IdempotencyAcquireResult> {
+    const key = this.getKey(messageId);
+
+    // SET NX PX: only one consumer can create the lock
+    const acquired = await this.redis.set(key, this.lockValue(), 'PX', Math.ceil(leaseSeconds * 1000), 'NX');
+    if (acquired === 'OK') {
+      return 'acquired';
+    }
+
+    const value = await this.redis.get(key);
+    if (value === null || value.startsWith(IN_PROGRESS_PREFIX)) {
+      // Lock held by someone else (or it expired just now - let the next delivery try again)
+      return 'in_progress';
+    }
+    return 'processed';
+  }
+
+  async renew(messageId: string, leaseSeconds: number): Promise<void> {
+    const key = this.getKey(messageId);
+    await this.redis.eval(RENEW_SCRIPT, 1, key, this.lockValue(), Math.ceil(leaseSeconds * 1000));
+  }
+
+  async complete(messageId: string, ttlSeconds: number): Promise<void> {
+    await this.markProcessed(messageId, ttlSeconds);
+  }
+
+  async release(messageId: string): Promise<void> {
+    const key = this.getKey(messageId);
+    await this.redis.eval(RELEASE_SCRIPT, 1, key, this.lockValue());
+  }
+
+  private lockValue(): string {
+    return `${IN_PROGRESS_PREFIX}${this.ownerId}`;
+  }
+
   /**
    * Get the full Redis key for a message ID
    * @param messageId - Message identifier
@@ -55,4 +115,3 @@ export class RedisIdempotencyStore implements IdempotencyStore {
     await this.redis.quit();
   }
 }
-
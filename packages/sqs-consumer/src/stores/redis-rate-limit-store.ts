@@ -0,0 +1,102 @@
+import { Redis } from 'ioredis';
+import { RateLimitGrant, RateLimitStore, TokenBucket } from '../interfaces/rate-limit-store';
+
+// Refill and take atomically, using the Redis server clock so replicas agree on elapsed time
+// Returns { granted, retryAfterMs }
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2]) / 1000
+local requested = tonumber(ARGV[3])
+
+local time = redis.call('time')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local state = redis.call('hmget', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+local granted = math.min(requested, math.floor(tokens))
+tokens = tokens - granted
+
+redis.call('hset', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+-- A bucket left alone until it is full again holds no state worth keeping
+redis.call('pexpire', KEYS[1], math.ceil(capacity / refillPerMs) + 1000)
+
+local retryAfterMs = 0
+if granted < requested then
+  retryAfterMs = math.ceil((1 - tokens) / refillPerMs)
+end
+return { granted, retryAfterMs }
+`;
+
+// Refill and add the refunded tokens, capped at the capacity
+const REFUND_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2]) / 1000
+local refunded = tonumber(ARGV[3])
+
+local time = redis.call('time')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local state = redis.call('hmget', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs + refunded)
+
+redis.call('hset', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('pexpire', KEYS[1], math.ceil(capacity / refillPerMs) + 1000)
+return 1
+`;
+
+/**
+ * Redis-based token buckets
+ * All consumers using the same Redis and key share one budget, e.g. every replica of a service.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private readonly keyPrefix: string;
+
+  /**
+   * Create a new Redis rate limit store
+   * @param redis - ioredis client instance
+   * @param keyPrefix - Prefix for Redis keys (default: 'rate-limit:')
+   */
+  constructor(
+    private readonly redis: Redis,
+    keyPrefix: string = 'rate-limit:'
+  ) {
+    this.keyPrefix = keyPrefix;
+  }
+
+  async take(key: string, requested: number, bucket: TokenBucket): Promise<RateLimitGrant> {
+    const [granted, retryAfterMs] = (await this.redis.eval(
+      TAKE_SCRIPT,
+      1,
+      `${this.keyPrefix}${key}`,
+      bucket.capacity,
+      bucket.refillPerSecond,
+      requested
+    )) as [number, number];
+
+    return { granted, retryAfterMs };
+  }
+
+  async refund(key: string, tokens: number, bucket: TokenBucket): Promise<void> {
+    await this.redis.eval(
+      REFUND_SCRIPT,
+      1,
+      `${this.keyPrefix}${key}`,
+      bucket.capacity,
+      bucket.refillPerSecond,
+      tokens
+    );
+  }
+
+  /**
+   * Close the Redis connection
+   * Call this when shutting down the application
+   */
+  async disconnect(): Promise<void> {
+    await this.redis.quit();
+  }
+}
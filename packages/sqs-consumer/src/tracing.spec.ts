@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { Message, SQSClient } from '@aws-sdk/client-sqs';
+import { context, propagation, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { SQSConsumer, type BatchMessageHandler, type MessageHandler } from './sqs-consumer';
+import { extractTraceContext } from './tracing';
+
+describe('SQSConsumer - Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  const contextManager = new AsyncLocalStorageContextManager();
+  let mockSend: any;
+
+  const traceId = '0af7651916cd43dd8448eb211c80319c';
+  const producerSpanId = 'b7ad6b7169203331';
+
+  const sqsConfig = {
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789/posts-stream',
+    maxNumberOfMessages: 10,
+    waitTimeSeconds: 20,
+    visibilityTimeout: 30,
+  };
+
+  const createMessage = (id: string, traceparent?: string): Message => ({
+    MessageId: id,
+    ReceiptHandle: `receipt-${id}`,
+    Body: '{}',
+    Attributes: { ApproximateReceiveCount: '1' },
+    MessageAttributes: traceparent ? { traceparent: { DataType: 'String', StringValue: traceparent } } : undefined,
+  });
+
+  const receiveOnce = (messages: Message[]) => {
+    let received = false;
+    mockSend.mockImplementation(async (command: any) => {
+      if (command.constructor.name !== 'ReceiveMessageCommand') {
+        return { Successful: [], Failed: [] };
+      }
+      if (received) {
+        return { Messages: [] };
+      }
+      received = true;
+      return { Messages: messages };
+    });
+  };
+
+  const runConsumer = async (handler: MessageHandler | BatchMessageHandler) => {
+    const consumer = new SQSConsumer({ sqsConfig }, handler);
+    await consumer.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await consumer.stop();
+  };
+
+  const spanNamed = (name: string) => exporter.getFinishedSpans().find((span) => span.name === name);
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  });
+
+  afterAll(() => {
+    trace.disable();
+    propagation.disable();
+    context.disable();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    exporter.reset();
+    mockSend = vi.fn();
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should extract the W3C trace context from the message attributes', () => {
+    const extracted = trace.getSpanContext(extractTraceContext(createMessage('msg-1', `00-${traceId}-${producerSpanId}-01`)));
+
+    expect(extracted?.traceId).toBe(traceId);
+    expect(extracted?.spanId).toBe(producerSpanId);
+    expect(trace.getSpanContext(extractTraceContext(createMessage('msg-2')))).toBeUndefined();
+  });
+
+  it('should process a message in a child span of the producer, with handler spans underneath', async () => {
+    receiveOnce([createMessage('msg-1', `00-${traceId}-${producerSpanId}-01`)]);
+
+    await runConsumer({
+      handle: async () => {
+        trace.getTracer('test').startActiveSpan('db.query', (span) => span.end());
+        return { status: 'success' };
+      },
+    });
+
+    const processSpan = spanNamed('posts-stream process');
+    expect(processSpan?.kind).toBe(SpanKind.CONSUMER);
+    expect(processSpan?.spanContext().traceId).toBe(traceId);
+    expect(processSpan?.parentSpanContext?.spanId).toBe(producerSpanId);
+    expect(processSpan?.attributes).toMatchObject({
+      'messaging.system': 'aws_sqs',
+      'messaging.destination.name': 'posts-stream',
+      'messaging.message.id': 'msg-1',
+      'messaging.sqs.result': 'success',
+    });
+
+    const querySpan = spanNamed('db.query');
+    expect(querySpan?.spanContext().traceId).toBe(traceId);
+    expect(querySpan?.parentSpanContext?.spanId).toBe(processSpan?.spanContext().spanId);
+  });
+
+  it('should mark the span as an error when the message is retried', async () => {
+    receiveOnce([createMessage('msg-1')]);
+
+    await runConsumer({ handle: async () => ({ status: 'retry', reason: 'Database unavailable' }) });
+
+    const processSpan = spanNamed('posts-stream process');
+    expect(processSpan?.attributes['messaging.sqs.result']).toBe('retry');
+    expect(processSpan?.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Database unavailable' });
+  });
+
+  it('should run handleBatch in a batch span linked to the span of each message', async () => {
+    const otherTraceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    receiveOnce([
+      createMessage('msg-1', `00-${traceId}-${producerSpanId}-01`),
+      createMessage('msg-2', `00-${otherTraceId}-00f067aa0ba902b7-01`),
+    ]);
+
+    await runConsumer({
+      handleBatch: async (batch) => {
+        trace.getTracer('test').startActiveSpan('db.query', (span) => span.end());
+        return new Map(batch.map(({ message }) => [message.MessageId!, { status: 'success' as const }]));
+      },
+    });
+
+    const messageSpans = exporter.getFinishedSpans().filter((span) => span.name === 'posts-stream process');
+    expect(messageSpans.map((span) => span.spanContext().traceId)).toEqual([traceId, otherTraceId]);
+
+    const batchSpan = spanNamed('posts-stream process batch');
+    expect(batchSpan?.attributes['messaging.batch.message_count']).toBe(2);
+    expect(batchSpan?.links.map((link) => link.context.spanId)).toEqual(
+      messageSpans.map((span) => span.spanContext().spanId)
+    );
+    expect(spanNamed('db.query')?.parentSpanContext?.spanId).toBe(batchSpan?.spanContext().spanId);
+  });
+});
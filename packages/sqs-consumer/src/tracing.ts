@@ -0,0 +1,97 @@
+import { Message } from '@aws-sdk/client-sqs';
+import {
+  context,
+  propagation,
+  trace,
+  Context,
+  Link,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  TextMapGetter,
+} from '@opentelemetry/api';
+import type { MessageResult } from './sqs-consumer';
+
+const tracer = trace.getTracer('@repo/sqs-consumer');
+
+const messageAttributesGetter: TextMapGetter<Message> = {
+  keys: (message) => Object.keys(message.MessageAttributes ?? {}),
+  get: (message, key) => message.MessageAttributes?.[key]?.StringValue,
+};
+
+/**
+ * Read the trace context the producer injected into the message attributes (W3C `traceparent` / `tracestate`)
+ */
+export function extractTraceContext(message: Message): Context {
+  return propagation.extract(ROOT_CONTEXT, message, messageAttributesGetter);
+}
+
+/**
+ * Start the span for processing a message, as a child of the producer's span
+ * @param queueUrl - Queue the message was received from
+ */
+export function startProcessSpan(queueUrl: string, message: Message): Span {
+  const queueName = queueNameOf(queueUrl);
+  return tracer.startSpan(
+    `${queueName} process`,
+    {
+      kind: SpanKind.CONSUMER,
+      attributes: {
+        'messaging.system': 'aws_sqs',
+        'messaging.operation.type': 'process',
+        'messaging.destination.name': queueName,
+        'messaging.message.id': message.MessageId ?? '',
+      },
+    },
+    extractTraceContext(message)
+  );
+}
+
+/**
+ * Start the span around one handleBatch call
+ * A span has a single parent, so the batch links to the spans of its messages instead.
+ */
+export function startBatchProcessSpan(queueUrl: string, messageSpans: Span[]): Span {
+  const queueName = queueNameOf(queueUrl);
+  const links: Link[] = messageSpans.map((span) => ({ context: span.spanContext() }));
+  return tracer.startSpan(
+    `${queueName} process batch`,
+    {
+      kind: SpanKind.CONSUMER,
+      links,
+      attributes: {
+        'messaging.system': 'aws_sqs',
+        'messaging.operation.type': 'process',
+        'messaging.destination.name': queueName,
+        'messaging.batch.message_count': messageSpans.length,
+      },
+    },
+    ROOT_CONTEXT
+  );
+}
+
+/**
+ * Run `fn` with the span active, so spans started inside it (e.g. database queries) become its children
+ */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return context.with(trace.setSpan(context.active(), span), fn);
+}
+
+/**
+ * Record the handler's result on the span and end it
+ */
+export function endProcessSpan(span: Span, result: MessageResult): void {
+  span.setAttribute('messaging.sqs.result', result.status);
+  if (result.error) {
+    span.recordException(result.error);
+  }
+  if (result.status !== 'success') {
+    span.setStatus({ code: SpanStatusCode.ERROR, message: result.reason });
+  }
+  span.end();
+}
+
+function queueNameOf(queueUrl: string): string {
+  return queueUrl.split('/').pop() || queueUrl;
+}
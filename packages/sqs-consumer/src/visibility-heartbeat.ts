@@ -0,0 +1,90 @@
+import type { Logger } from '@repo/logger';
+
+/**
+ * Handle passed to message handlers (via MessageMetadata) to extend visibility manually
+ */
+export interface MessageHeartbeat {
+  /**
+   * Extend the message's visibility timeout from now
+   * @param visibilityTimeoutSeconds - New timeout (default: the queue's configured visibility timeout)
+   */
+  extend(visibilityTimeoutSeconds?: number): Promise<void>;
+}
+
+export interface VisibilityHeartbeatOptions {
+  visibilityTimeoutSeconds: number; // Timeout applied on each beat
+  intervalSeconds: number; // Time between automatic beats (0 disables automatic beats)
+  maxLeaseSeconds: number; // Stop extending once the message has been held this long in total
+}
+
+const MAX_VISIBILITY_TIMEOUT_SECONDS = 43200; // SQS limit: 12 hours
+
+/**
+ * Periodically extends a message's visibility while its handler is in flight,
+ * so SQS doesn't redeliver it to another consumer mid-processing.
+ */
+export class VisibilityHeartbeat implements MessageHeartbeat {
+  private readonly startedAt = Date.now();
+  private timer?: NodeJS.Timeout;
+  private stopped = false;
+
+  /**
+   * @param logger - Logger bound to the message
+   * @param changeVisibility - Sends ChangeMessageVisibility for the message
+   * @param options - Heartbeat timing
+   */
+  constructor(
+    private readonly logger: Logger,
+    private readonly changeVisibility: (visibilityTimeoutSeconds: number) => Promise<void>,
+    private readonly options: VisibilityHeartbeatOptions
+  ) {}
+
+  /**
+   * Start automatic beats
+   */
+  start(): void {
+    if (this.options.intervalSeconds <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.extend().catch((error) => {
+        this.logger.error('Heartbeat failed', { error });
+      });
+    }, this.options.intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop automatic beats and ignore further manual extensions
+   */
+  stop(): void {
+    this.stopped = true;
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async extend(visibilityTimeoutSeconds: number = this.options.visibilityTimeoutSeconds): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    const elapsedSeconds = (Date.now() - this.startedAt) / 1000;
+    const remainingLeaseSeconds = this.options.maxLeaseSeconds - elapsedSeconds;
+
+    if (remainingLeaseSeconds <= 0) {
+      this.logger.warn('Message reached max lease, no longer extending visibility', {
+        maxLeaseSeconds: this.options.maxLeaseSeconds,
+      });
+      this.stop();
+      return;
+    }
+
+    const timeoutSeconds = Math.min(
+      visibilityTimeoutSeconds,
+      Math.ceil(remainingLeaseSeconds),
+      MAX_VISIBILITY_TIMEOUT_SECONDS
+    );
+
+    await this.changeVisibility(timeoutSeconds);
+  }
+}
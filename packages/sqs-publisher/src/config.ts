@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Accepts real booleans as well as env var strings ('true' / 'false' / '1' / '0' ...)
+const envBoolean = z.union([z.boolean(), z.stringbool()]);
+
+export const sqsPublisherConfigSchema = z.object({
+  queueUrl: z.string().url(),
+  fifo: envBoolean.optional(), // Default: queueUrl ends with .fifo
+  maxRetries: z.coerce.number().int().min(0).default(3),
+  baseDelayMs: z.coerce.number().positive().default(100),
+  maxDelayMs: z.coerce.number().positive().default(5000),
+});
+
+export type SQSPublisherQueueConfig = z.infer<typeof sqsPublisherConfigSchema>;
+
+/**
+ * Build a validated publisher config from env vars, the same way createSQSQueueConfig in @repo/sqs-consumer does:
+ * `${prefix}_QUEUE_URL`, `${prefix}_FIFO`, `${prefix}_PUBLISH_MAX_RETRIES`, `${prefix}_PUBLISH_BASE_DELAY_MS`
+ * and `${prefix}_PUBLISH_MAX_DELAY_MS`. The result can be passed to the SQSPublisher constructor.
+ */
+export function createSQSPublisherConfig(
+  envVars: Record<string, string | undefined>,
+  prefix: string
+): SQSPublisherQueueConfig {
+  const getEnvVar = (key: string): string | undefined => {
+    return envVars[`${prefix}_${key}`];
+  };
+
+  const config = {
+    queueUrl: getEnvVar('QUEUE_URL'),
+    fifo: getEnvVar('FIFO'),
+    maxRetries: getEnvVar('PUBLISH_MAX_RETRIES'),
+    baseDelayMs: getEnvVar('PUBLISH_BASE_DELAY_MS'),
+    maxDelayMs: getEnvVar('PUBLISH_MAX_DELAY_MS'),
+  };
+
+  try {
+    return sqsPublisherConfigSchema.parse(config);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error(`❌ Invalid SQS publisher configuration for prefix '${prefix}':`);
+      error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        console.error(`  ${path}: ${err.message}`);
+      });
+      throw new Error(`Invalid SQS publisher configuration for ${prefix}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Exception for a message over the SQS size limit (256 KB, body and attributes together).
+ * The message is never sent - publish a reference to the data (e.g. an id or S3 key) instead.
+ */
+export class MessageTooLargeException extends Error {
+  constructor(public readonly sizeBytes: number, public readonly maxSizeBytes: number) {
+    super(`Message is ${sizeBytes} bytes, SQS accepts at most ${maxSizeBytes}`);
+    this.name = 'MessageTooLargeException';
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MessageTooLargeException);
+    }
+  }
+}
+
+/**
+ * Exception for a message SQS rejected, or that still failed once retries were exhausted.
+ * `code` is the SQS error code of the failed batch entry (e.g. 'InvalidParameterValue') if SQS returned one,
+ * or 'MessageGroupFailed' for a FIFO message not sent because an earlier message of its group failed.
+ */
+export class PublishException extends Error {
+  constructor(message: string, public readonly code?: string, public readonly cause?: Error) {
+    super(message);
+    this.name = 'PublishException';
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, PublishException);
+    }
+  }
+}
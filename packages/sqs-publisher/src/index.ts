@@ -0,0 +1,25 @@
+/**
+ * @repo/sqs-publisher
+ *
+ * Shared SQS publisher for domain events - batching, retries, envelope attributes and trace propagation
+ */
+
+// Export SQS Publisher
+export { SQSPublisher, MAX_BATCH_SIZE, MAX_MESSAGE_BYTES } from './sqs-publisher';
+export type {
+  DomainEvent,
+  SQSPublisherConfig,
+  SQSPublisherOptions,
+  PublishOptions,
+  PublishEntry,
+  PublishResult,
+  PublishFailure,
+  PublishBatchResult,
+} from './sqs-publisher';
+
+// Export Config
+export { createSQSPublisherConfig, sqsPublisherConfigSchema } from './config';
+export type { SQSPublisherQueueConfig } from './config';
+
+// Export Exceptions
+export { MessageTooLargeException, PublishException } from './exceptions';
@@ -0,0 +1,358 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { context, propagation, trace, ROOT_CONTEXT, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { createLogger, withLogContext } from '@repo/logger';
+import { SQSPublisher, MAX_MESSAGE_BYTES } from './sqs-publisher';
+import { createSQSPublisherConfig } from './config';
+import { MessageTooLargeException, PublishException } from './exceptions';
+
+interface PostCreatedEvent {
+  eventType: 'POST_CREATED';
+  postId: string;
+  userId: string;
+}
+
+interface PostDeletedEvent {
+  eventType: 'POST_DELETED';
+  postId: string;
+}
+
+type PostEvent = PostCreatedEvent | PostDeletedEvent;
+
+const queueUrl = 'http://localhost:4566/000000000000/posts-stream';
+
+const postCreated = (postId: string, userId = 'user-1'): PostCreatedEvent => ({ eventType: 'POST_CREATED', postId, userId });
+
+// SendMessageBatch stub accepting every entry
+const acceptAll = async (command: any) => ({
+  Successful: command.input.Entries.map((entry: any) => ({ Id: entry.Id, MessageId: `msg-${entry.Id}` })),
+  Failed: [],
+});
+
+describe('SQSPublisher', () => {
+  let mockSend: ReturnType<typeof vi.fn>;
+  let writeLog: ReturnType<typeof vi.fn>;
+
+  const createPublisher = (config: Partial<ConstructorParameters<typeof SQSPublisher>[0]> = {}, options = {}) =>
+    new SQSPublisher<PostEvent>(
+      { queueUrl, baseDelayMs: 1, ...config },
+      { logger: createLogger({ format: 'json', write: writeLog }), ...options }
+    );
+
+  const sentEntries = (call = 0) => mockSend.mock.calls[call]?.[0].input.Entries;
+
+  beforeEach(() => {
+    mockSend = vi.fn().mockImplementation(acceptAll);
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+    writeLog = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should publish the event as JSON with the envelope attributes', async () => {
+    const publisher = createPublisher();
+
+    const result = await publisher.publish(postCreated('post-1'), { schemaVersion: 2, correlationId: 'req-1' });
+
+    expect(mockSend.mock.calls[0]![0].constructor.name).toBe('SendMessageBatchCommand');
+    const [entry] = sentEntries();
+    expect(JSON.parse(entry.MessageBody)).toEqual(postCreated('post-1'));
+    expect(entry.MessageAttributes).toEqual({
+      eventType: { DataType: 'String', StringValue: 'POST_CREATED' },
+      eventId: { DataType: 'String', StringValue: result.eventId },
+      schemaVersion: { DataType: 'Number', StringValue: '2' },
+      correlationId: { DataType: 'String', StringValue: 'req-1' },
+    });
+    expect(result).toEqual({ eventId: expect.stringMatching(/^[0-9a-f-]{36}$/), messageId: 'msg-0' });
+    expect(entry.MessageGroupId).toBeUndefined();
+  });
+
+  it('should use the requestId of the log context as the correlationId', async () => {
+    const publisher = createPublisher();
+
+    await withLogContext({ requestId: 'req-from-http' }, () => publisher.publish(postCreated('post-1'), { eventId: 'evt-1' }));
+
+    expect(sentEntries()[0].MessageAttributes).toMatchObject({
+      eventId: { StringValue: 'evt-1' },
+      schemaVersion: { StringValue: '1' },
+      correlationId: { StringValue: 'req-from-http' },
+    });
+  });
+
+  it('should take the attributes from the envelope fields of the event', async () => {
+    const publisher = createPublisher();
+    const event = { ...postCreated('post-1'), eventId: 'evt-1', schemaVersion: 2, correlationId: 'req-1' };
+
+    const result = await withLogContext({ requestId: 'req-from-http' }, () => publisher.publish(event));
+
+    expect(sentEntries()[0].MessageAttributes).toMatchObject({
+      eventId: { StringValue: 'evt-1' },
+      schemaVersion: { StringValue: '2' },
+      correlationId: { StringValue: 'req-1' },
+    });
+    expect(result.eventId).toBe('evt-1');
+  });
+
+  it('should send batches of at most 10 messages in order', async () => {
+    const publisher = createPublisher();
+    const events = Array.from({ length: 23 }, (_, i) => ({ event: postCreated(`post-${i}`) }));
+
+    const { successful, failed } = await publisher.publishBatch(events);
+
+    expect(mockSend.mock.calls.map(([command]) => command.input.Entries.length)).toEqual([10, 10, 3]);
+    expect(JSON.parse(sentEntries(2)[0].MessageBody).postId).toBe('post-20');
+    expect(successful).toHaveLength(23);
+    expect(failed).toEqual([]);
+  });
+
+  it('should split batches that would exceed 256 KB and fail messages that are over it alone', async () => {
+    const publisher = createPublisher();
+    const caption = (kb: number) => 'x'.repeat(kb * 1024);
+
+    const { successful, failed } = await publisher.publishBatch([
+      { event: { ...postCreated('post-1'), userId: caption(100) } },
+      { event: { ...postCreated('post-2'), userId: caption(100) } },
+      { event: { ...postCreated('post-3'), userId: caption(300) }, eventId: 'evt-too-large' },
+      { event: { ...postCreated('post-4'), userId: caption(100) } },
+    ]);
+
+    expect(mockSend.mock.calls.map(([command]) => command.input.Entries.length)).toEqual([2, 1]);
+    expect(successful).toHaveLength(3);
+    expect(failed).toEqual([{ event: expect.objectContaining({ postId: 'post-3' }), eventId: 'evt-too-large', error: expect.any(MessageTooLargeException) }]);
+    expect((failed[0]!.error as MessageTooLargeException).sizeBytes).toBeGreaterThan(MAX_MESSAGE_BYTES);
+  });
+
+  it('should throw MessageTooLargeException from publish without calling SQS', async () => {
+    const publisher = createPublisher();
+
+    await expect(publisher.publish({ ...postCreated('post-1'), userId: 'x'.repeat(MAX_MESSAGE_BYTES) })).rejects.toThrow(
+      MessageTooLargeException
+    );
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('should retry throttled calls with backoff', async () => {
+    const throttled = Object.assign(new Error('Rate exceeded'), { name: 'RequestThrottled', $metadata: { httpStatusCode: 400 } });
+    mockSend.mockRejectedValueOnce(throttled).mockImplementation(acceptAll);
+    const publisher = createPublisher();
+
+    const result = await publisher.publish(postCreated('post-1'));
+
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(result.messageId).toBe('msg-0');
+    expect(JSON.parse(writeLog.mock.calls[0]![0])).toMatchObject({ level: 'warn', msg: 'Retrying SQS publish', attempt: 1, messages: 1 });
+  });
+
+  it('should retry only the entries SQS failed on its side', async () => {
+    mockSend.mockResolvedValueOnce({
+      Successful: [{ Id: '0', MessageId: 'msg-a' }],
+      Failed: [
+        { Id: '1', Code: 'InternalError', Message: 'Internal error', SenderFault: false },
+        { Id: '2', Code: 'InvalidParameterValue', Message: 'Invalid attribute', SenderFault: true },
+      ],
+    });
+    const publisher = createPublisher();
+
+    const { successful, failed } = await publisher.publishBatch([
+      { event: postCreated('post-1') },
+      { event: postCreated('post-2') },
+      { event: postCreated('post-3') },
+    ]);
+
+    expect(sentEntries(1).map((entry: any) => JSON.parse(entry.MessageBody).postId)).toEqual(['post-2']);
+    expect(successful.map(({ messageId }) => messageId)).toEqual(['msg-a', 'msg-0']);
+    expect(failed).toHaveLength(1);
+    expect(failed[0]!.event).toMatchObject({ postId: 'post-3' });
+    expect(failed[0]!.error).toMatchObject({ name: 'PublishException', code: 'InvalidParameterValue' });
+  });
+
+  it('should give up after maxRetries and not retry client errors', async () => {
+    const unavailable = Object.assign(new Error('Service unavailable'), { $metadata: { httpStatusCode: 503 } });
+    const missingQueue = Object.assign(new Error('Queue does not exist'), {
+      name: 'QueueDoesNotExist',
+      $metadata: { httpStatusCode: 400 },
+    });
+    const publisher = createPublisher({ maxRetries: 2 });
+
+    mockSend.mockRejectedValue(unavailable);
+    await expect(publisher.publish(postCreated('post-1'))).rejects.toThrow(PublishException);
+    expect(mockSend).toHaveBeenCalledTimes(3);
+
+    mockSend.mockClear();
+    mockSend.mockRejectedValue(missingQueue);
+    await expect(publisher.publish(postCreated('post-1'))).rejects.toMatchObject({ code: 'QueueDoesNotExist' });
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('should set the group and deduplication ids on a FIFO queue', async () => {
+    const publisher = createPublisher(
+      { queueUrl: `${queueUrl}.fifo` },
+      { messageGroupId: (event: PostEvent) => event.postId }
+    );
+
+    await publisher.publishBatch([
+      { event: postCreated('post-1'), eventId: 'evt-1' },
+      { event: { eventType: 'POST_DELETED', postId: 'post-1' }, eventId: 'evt-2', deduplicationId: 'delete:post-1' },
+    ]);
+
+    expect(sentEntries()).toMatchObject([
+      { MessageGroupId: 'post-1', MessageDeduplicationId: 'evt-1' },
+      { MessageGroupId: 'post-1', MessageDeduplicationId: 'delete:post-1' },
+    ]);
+  });
+
+  describe('FIFO partial failures', () => {
+    const createFifoPublisher = () =>
+      createPublisher({ queueUrl: `${queueUrl}.fifo` }, { messageGroupId: (event: PostEvent) => event.postId });
+
+    // SendMessageBatch stub failing the entries of the given event ids (the deduplication id defaults to the eventId)
+    const failEntries = (failures: Record<string, { SenderFault: boolean }>) => async (command: any) => {
+      const entries = command.input.Entries;
+      const isFailed = (entry: any) => entry.MessageDeduplicationId in failures;
+      return {
+        Successful: entries.filter((entry: any) => !isFailed(entry)).map((entry: any) => ({ Id: entry.Id, MessageId: entry.MessageDeduplicationId })),
+        Failed: entries.filter(isFailed).map((entry: any) => ({
+          Id: entry.Id,
+          Code: 'InternalError',
+          Message: 'Internal error',
+          SenderFault: failures[entry.MessageDeduplicationId]!.SenderFault,
+        })),
+      };
+    };
+
+    it('should not retry a message once a later message of its group was sent', async () => {
+      mockSend.mockImplementationOnce(failEntries({ 'a-1': { SenderFault: false } }));
+      const publisher = createFifoPublisher();
+
+      const { successful, failed } = await publisher.publishBatch([
+        { event: postCreated('a'), eventId: 'a-1' },
+        { event: postCreated('b'), eventId: 'b-1' },
+        { event: postCreated('a'), eventId: 'a-2' },
+      ]);
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(successful.map(({ eventId }) => eventId)).toEqual(['b-1', 'a-2']);
+      expect(failed.map(({ eventId }) => eventId)).toEqual(['a-1']);
+    });
+
+    it('should fail the rest of a group without sending it once a message of the group failed', async () => {
+      // a-1 fails on its side, then on retry for good; c-* fill the first call so a-2 and b-2 go in the second
+      mockSend
+        .mockImplementationOnce(failEntries({ 'a-1': { SenderFault: false } }))
+        .mockImplementationOnce(failEntries({ 'a-1': { SenderFault: true } }))
+        .mockImplementation(acceptAll);
+      const publisher = createFifoPublisher();
+      const fillers = Array.from({ length: 8 }, (_, i) => ({ event: postCreated(`c${i}`), eventId: `c-${i}` }));
+
+      const { successful, failed } = await publisher.publishBatch([
+        { event: postCreated('a'), eventId: 'a-1' },
+        { event: postCreated('b'), eventId: 'b-1' },
+        ...fillers,
+        { event: postCreated('a'), eventId: 'a-2' },
+        { event: postCreated('b'), eventId: 'b-2' },
+      ]);
+
+      // a-1 is retried before the next call, which no longer carries a-2
+      expect(sentEntries(1).map((entry: any) => entry.MessageDeduplicationId)).toEqual(['a-1']);
+      expect(sentEntries(2).map((entry: any) => entry.MessageDeduplicationId)).toEqual(['b-2']);
+      expect(successful.map(({ eventId }) => eventId)).toContain('b-2');
+      expect(failed.map(({ eventId, error }) => [eventId, (error as PublishException).code])).toEqual([
+        ['a-1', 'InternalError'],
+        ['a-2', 'MessageGroupFailed'],
+      ]);
+    });
+  });
+
+  it('should refuse to publish to a FIFO queue without a group id', async () => {
+    const publisher = createPublisher({ fifo: true });
+
+    await expect(publisher.publish(postCreated('post-1'))).rejects.toThrow('A messageGroupId is required');
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+});
+
+describe('createSQSPublisherConfig', () => {
+  it('should read the queue settings from prefixed env vars', () => {
+    const config = createSQSPublisherConfig(
+      {
+        SQS_POSTS_STREAM_QUEUE_URL: `${queueUrl}.fifo`,
+        SQS_POSTS_STREAM_FIFO: 'true',
+        SQS_POSTS_STREAM_PUBLISH_MAX_RETRIES: '5',
+      },
+      'SQS_POSTS_STREAM'
+    );
+
+    expect(config).toEqual({ queueUrl: `${queueUrl}.fifo`, fifo: true, maxRetries: 5, baseDelayMs: 100, maxDelayMs: 5000 });
+  });
+
+  it('should throw for a missing queue URL', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => createSQSPublisherConfig({}, 'SQS_POSTS_STREAM')).toThrow('Invalid SQS publisher configuration for SQS_POSTS_STREAM');
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe('SQSPublisher - Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  const contextManager = new AsyncLocalStorageContextManager();
+  let mockSend: ReturnType<typeof vi.fn>;
+
+  const traceId = '0af7651916cd43dd8448eb211c80319c';
+  const requestSpanId = 'b7ad6b7169203331';
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  });
+
+  afterAll(() => {
+    trace.disable();
+    propagation.disable();
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    mockSend = vi.fn().mockImplementation(acceptAll);
+    vi.spyOn(SQSClient.prototype, 'send').mockImplementation(mockSend);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send each message in a producer span under its own trace context', async () => {
+    const publisher = new SQSPublisher<PostEvent>({ queueUrl }, { logger: createLogger({ write: () => undefined }) });
+    const requestContext = propagation.extract(ROOT_CONTEXT, { traceparent: `00-${traceId}-${requestSpanId}-01` });
+
+    await publisher.publishBatch([{ event: postCreated('post-1'), traceContext: requestContext }, { event: postCreated('post-2') }]);
+
+    const [fromRequest, fromActive] = exporter.getFinishedSpans();
+    expect(fromRequest).toMatchObject({ name: 'posts-stream send', kind: SpanKind.PRODUCER });
+    expect(fromRequest!.spanContext().traceId).toBe(traceId);
+    expect(fromRequest!.parentSpanContext?.spanId).toBe(requestSpanId);
+    expect(fromRequest!.attributes).toMatchObject({ 'messaging.event.type': 'POST_CREATED', 'messaging.message.id': 'msg-0' });
+    expect(fromActive!.spanContext().traceId).not.toBe(traceId);
+
+    const [entry] = mockSend.mock.calls[0]![0].input.Entries;
+    expect(entry.MessageAttributes.traceparent.StringValue).toBe(`00-${traceId}-${fromRequest!.spanContext().spanId}-01`);
+  });
+
+  it('should mark the span as an error when the message fails', async () => {
+    const publisher = new SQSPublisher<PostEvent>({ queueUrl }, { logger: createLogger({ write: () => undefined }) });
+
+    await publisher.publishBatch([{ event: { ...postCreated('post-1'), userId: 'x'.repeat(MAX_MESSAGE_BYTES) } }]);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span!.status).toMatchObject({ code: SpanStatusCode.ERROR });
+    expect(span!.events[0]!.name).toBe('exception');
+  });
+});
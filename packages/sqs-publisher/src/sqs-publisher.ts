@@ -0,0 +1,404 @@
+import { randomUUID } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  MessageAttributeValue,
+  SendMessageBatchCommand,
+  SendMessageBatchRequestEntry,
+  SendMessageBatchResult,
+  SQSClient,
+  SQSClientConfig,
+} from '@aws-sdk/client-sqs';
+import { Context, Span } from '@opentelemetry/api';
+import { createLogger, getLogContext, Logger } from '@repo/logger';
+import { MessageTooLargeException, PublishException } from './exceptions';
+import { endSendSpan, injectTraceContext, startSendSpan } from './tracing';
+
+// SQS limits: entries per SendMessageBatch call, and bytes (body and attributes) per message and per call
+export const MAX_BATCH_SIZE = 10;
+export const MAX_MESSAGE_BYTES = 256 * 1024;
+
+// Error names SQS uses when it throttles a request
+const THROTTLING_ERRORS = new Set(['RequestThrottled', 'ThrottlingException', 'KmsThrottled']);
+
+/**
+ * Event published by SQSPublisher - the message body is the event as JSON
+ * The envelope fields of an EventEnvelope (see @repo/types) are used for the message attributes.
+ */
+export interface DomainEvent {
+  eventType: string;
+  eventId?: string;
+  schemaVersion?: number;
+  correlationId?: string;
+}
+
+export interface SQSPublisherConfig {
+  queueUrl: string;
+  fifo?: boolean; // FIFO queue: messages need a group id and get a deduplication id. Default: queueUrl ends with .fifo
+  maxRetries?: number; // Retries after the first attempt for throttling, 5xx and network errors. Default: 3
+  baseDelayMs?: number; // Backoff before the first retry, doubled per retry (full jitter). Default: 100
+  maxDelayMs?: number; // Upper bound for the backoff. Default: 5000
+}
+
+export interface SQSPublisherOptions<E extends DomainEvent> {
+  sqsClientConfig?: SQSClientConfig;
+  messageGroupId?: (event: E) => string; // FIFO: events of a group are delivered in order. Required for FIFO queues unless passed per publish
+  deduplicationId?: (event: E) => string; // FIFO: SQS drops re-publishes of the same id for 5 minutes. Default: eventId
+  logger?: Logger; // Default: JSON logger named 'SQSPublisher' (LOG_LEVEL / LOG_FORMAT env vars)
+}
+
+export interface PublishOptions {
+  eventId?: string; // Default: event.eventId, else a random UUID. Keep it stable across re-publishes so consumers can drop them
+  schemaVersion?: number; // Version of the event's shape. Default: event.schemaVersion, else 1
+  correlationId?: string; // Default: event.correlationId, else correlationId or requestId of the log context (see withLogContext in @repo/logger)
+  messageGroupId?: string; // Overrides the messageGroupId option
+  deduplicationId?: string; // Overrides the deduplicationId option
+  traceContext?: Context; // Parent of the send span, e.g. the context of the request that created the event. Default: the active context
+}
+
+export type PublishEntry<E> = PublishOptions & { event: E };
+
+export interface PublishResult {
+  eventId: string;
+  messageId: string;
+  sequenceNumber?: string; // FIFO queues only
+}
+
+export interface PublishFailure<E> {
+  event: E;
+  eventId: string;
+  error: Error; // MessageTooLargeException, or PublishException for rejected messages and exhausted retries
+}
+
+export interface PublishBatchResult<E> {
+  successful: PublishResult[];
+  failed: PublishFailure<E>[];
+}
+
+interface OutgoingMessage<E> {
+  event: E;
+  eventId: string;
+  request: Omit<SendMessageBatchRequestEntry, 'Id'>;
+  sizeBytes: number;
+  span: Span;
+}
+
+interface SendFailure<E> {
+  message: OutgoingMessage<E>;
+  error: PublishException;
+  retryable: boolean;
+}
+
+/**
+ * Publishes domain events to an SQS queue - the producer side of @repo/sqs-consumer
+ *
+ * Every message carries envelope attributes (eventType, eventId, schemaVersion, correlationId) and the
+ * trace context of its send span. publishBatch() sends up to 10 messages per SendMessageBatch call,
+ * splitting on the entry and size limits. Throttling, 5xx and network errors are retried with exponential
+ * backoff, both for whole calls and for entries SQS failed on its side; errors caused by the message are not.
+ * On a FIFO queue, once a message fails, the later messages of its group are failed without being sent,
+ * so a retry of the batch can't deliver them out of order.
+ */
+export class SQSPublisher<E extends DomainEvent = DomainEvent> {
+  private readonly client: SQSClient;
+  private readonly queueUrl: string;
+  private readonly fifo: boolean;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly messageGroupId?: (event: E) => string;
+  private readonly deduplicationId?: (event: E) => string;
+  private readonly logger: Logger;
+
+  constructor(config: SQSPublisherConfig, options: SQSPublisherOptions<E> = {}) {
+    this.client = new SQSClient(options.sqsClientConfig || {});
+    this.queueUrl = config.queueUrl;
+    this.fifo = config.fifo ?? config.queueUrl.endsWith('.fifo');
+    this.maxRetries = config.maxRetries ?? 3;
+    this.baseDelayMs = config.baseDelayMs ?? 100;
+    this.maxDelayMs = config.maxDelayMs ?? 5000;
+    this.messageGroupId = options.messageGroupId;
+    this.deduplicationId = options.deduplicationId;
+    this.logger = options.logger ?? createLogger({ name: 'SQSPublisher' });
+  }
+
+  /**
+   * Publish one event
+   * @throws MessageTooLargeException if the message is over 256 KB
+   * @throws PublishException if SQS rejected the message or retries were exhausted
+   */
+  async publish<T extends E>(event: T, options: PublishOptions = {}): Promise<PublishResult> {
+    const { successful, failed } = await this.publishBatch([{ ...options, event }]);
+    if (failed[0]) {
+      throw failed[0].error;
+    }
+    return successful[0]!;
+  }
+
+  /**
+   * Publish events in as few SendMessageBatch calls as the SQS limits allow
+   * Failed messages are reported in `failed` rather than thrown, so the caller can keep them for a later retry.
+   * On a FIFO queue, events are sent in the order given, and a failed event fails the later events of its group.
+   */
+  async publishBatch(entries: PublishEntry<E>[]): Promise<PublishBatchResult<E>> {
+    const result: PublishBatchResult<E> = { successful: [], failed: [] };
+
+    // Build every request first, so a missing FIFO group id throws before any span is started
+    const requests = entries.map((entry) => this.buildRequest(entry));
+    const messages = requests.map(({ entry, eventId, request }) => {
+      const span = startSendSpan(this.queueUrl, entry.event.eventType, entry.traceContext);
+      injectTraceContext(span, request.MessageAttributes!);
+      return { event: entry.event, eventId, request, sizeBytes: messageSize(request), span };
+    });
+
+    // FIFO message groups with a failed message - their later messages must not overtake it
+    const failedGroups = new Set<string>();
+
+    const sendable: OutgoingMessage<E>[] = [];
+    for (const message of messages) {
+      if (message.sizeBytes > MAX_MESSAGE_BYTES) {
+        this.settleFailure(message, new MessageTooLargeException(message.sizeBytes, MAX_MESSAGE_BYTES), result, failedGroups);
+      } else {
+        sendable.push(message);
+      }
+    }
+
+    for (const chunk of chunkMessages(sendable)) {
+      await this.sendChunk(chunk, result, failedGroups);
+    }
+    return result;
+  }
+
+  private buildRequest(entry: PublishEntry<E>) {
+    const { event } = entry;
+    const eventId = entry.eventId ?? event.eventId ?? randomUUID();
+    const schemaVersion = entry.schemaVersion ?? event.schemaVersion ?? 1;
+    const correlationId = entry.correlationId ?? event.correlationId ?? logContextCorrelationId();
+
+    const attributes: Record<string, MessageAttributeValue> = {
+      eventType: { DataType: 'String', StringValue: event.eventType },
+      eventId: { DataType: 'String', StringValue: eventId },
+      schemaVersion: { DataType: 'Number', StringValue: String(schemaVersion) },
+      ...(correlationId && { correlationId: { DataType: 'String', StringValue: correlationId } }),
+    };
+
+    let fifoFields: Pick<SendMessageBatchRequestEntry, 'MessageGroupId' | 'MessageDeduplicationId'> = {};
+    if (this.fifo) {
+      const messageGroupId = entry.messageGroupId ?? this.messageGroupId?.(event);
+      if (!messageGroupId) {
+        throw new Error(`[SQSPublisher] A messageGroupId is required to publish ${event.eventType} to FIFO queue ${this.queueUrl}`);
+      }
+      fifoFields = {
+        MessageGroupId: messageGroupId,
+        MessageDeduplicationId: entry.deduplicationId ?? this.deduplicationId?.(event) ?? eventId,
+      };
+    }
+
+    const request: Omit<SendMessageBatchRequestEntry, 'Id'> = {
+      MessageBody: JSON.stringify(event),
+      MessageAttributes: attributes,
+      ...fifoFields,
+    };
+    return { entry, eventId, request };
+  }
+
+  /**
+   * Send one SendMessageBatch-sized chunk, retrying the retryable failures with backoff
+   * A FIFO failure is only retried if no later message of its group was sent in the same call.
+   */
+  private async sendChunk(
+    chunk: OutgoingMessage<E>[],
+    result: PublishBatchResult<E>,
+    failedGroups: Set<string>
+  ): Promise<void> {
+    let pending = this.skipFailedGroups(chunk, result, failedGroups);
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const failures = await this.sendBatch(pending, result);
+      const exhausted = attempt >= this.maxRetries;
+      const failed = new Set(failures.map(({ message }) => message));
+      const retryable = exhausted
+        ? []
+        : failures.filter((failure) => failure.retryable && !sentLaterInGroup(failure.message, pending, failed));
+
+      for (const failure of failures) {
+        if (!retryable.includes(failure)) {
+          this.settleFailure(failure.message, failure.error, result, failedGroups);
+        }
+      }
+
+      // Keep the send order, which SQS may not follow when listing failed entries
+      const retrying = new Set(retryable.map(({ message }) => message));
+      pending = this.skipFailedGroups(
+        pending.filter((message) => retrying.has(message)),
+        result,
+        failedGroups
+      );
+      if (pending.length === 0) {
+        return;
+      }
+
+      const delayMs = this.backoffDelay(attempt);
+      this.logger.warn('Retrying SQS publish', {
+        queueUrl: this.queueUrl,
+        attempt: attempt + 1,
+        messages: pending.length,
+        delayMs: Math.round(delayMs),
+        error: retryable[0]!.error,
+      });
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Fail the messages of FIFO groups that already have a failed message, returning the rest
+   */
+  private skipFailedGroups(
+    messages: OutgoingMessage<E>[],
+    result: PublishBatchResult<E>,
+    failedGroups: Set<string>
+  ): OutgoingMessage<E>[] {
+    return messages.filter((message) => {
+      const group = message.request.MessageGroupId;
+      if (group === undefined || !failedGroups.has(group)) {
+        return true;
+      }
+      const error = new PublishException(`Not sent: an earlier message of group ${group} failed`, 'MessageGroupFailed');
+      this.settleFailure(message, error, result, failedGroups);
+      return false;
+    });
+  }
+
+  /**
+   * One SendMessageBatch call - records the sent messages and returns the failed ones
+   */
+  private async sendBatch(
+    messages: OutgoingMessage<E>[],
+    result: PublishBatchResult<E>
+  ): Promise<SendFailure<E>[]> {
+    // Entry ids only need to be unique within the call
+    const byId = new Map(messages.map((message, index) => [String(index), message]));
+
+    let response: SendMessageBatchResult;
+    try {
+      response = await this.client.send(
+        new SendMessageBatchCommand({
+          QueueUrl: this.queueUrl,
+          Entries: [...byId].map(([Id, message]) => ({ Id, ...message.request })),
+        })
+      );
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      const exception = new PublishException(`SendMessageBatch failed: ${cause.message}`, cause.name, cause);
+      return messages.map((message) => ({ message, error: exception, retryable: isRetryableError(error) }));
+    }
+
+    for (const entry of response.Successful ?? []) {
+      const message = byId.get(entry.Id ?? '');
+      if (message) {
+        this.settleSuccess(message, { eventId: message.eventId, messageId: entry.MessageId ?? '', sequenceNumber: entry.SequenceNumber }, result);
+      }
+    }
+
+    // SenderFault: the entry itself is invalid - sending it again would fail the same way
+    return (response.Failed ?? []).flatMap((entry) => {
+      const message = byId.get(entry.Id ?? '');
+      if (!message) {
+        return [];
+      }
+      const error = new PublishException(entry.Message ?? `SQS failed the message (${entry.Code})`, entry.Code);
+      return [{ message, error, retryable: !entry.SenderFault }];
+    });
+  }
+
+  private settleSuccess(message: OutgoingMessage<E>, sent: PublishResult, result: PublishBatchResult<E>): void {
+    endSendSpan(message.span, { messageId: sent.messageId });
+    result.successful.push(sent);
+    this.logger.debug('Published event', {
+      eventType: message.event.eventType,
+      eventId: message.eventId,
+      messageId: sent.messageId,
+    });
+  }
+
+  private settleFailure(
+    message: OutgoingMessage<E>,
+    error: Error,
+    result: PublishBatchResult<E>,
+    failedGroups: Set<string>
+  ): void {
+    if (message.request.MessageGroupId !== undefined) {
+      failedGroups.add(message.request.MessageGroupId);
+    }
+    endSendSpan(message.span, { error });
+    result.failed.push({ event: message.event, eventId: message.eventId, error });
+    this.logger.error('Failed to publish event', {
+      queueUrl: this.queueUrl,
+      eventType: message.event.eventType,
+      eventId: message.eventId,
+      error,
+    });
+  }
+
+  // Exponential backoff with full jitter, so publishers throttled together don't retry in lockstep
+  private backoffDelay(attempt: number): number {
+    return Math.random() * Math.min(this.baseDelayMs * Math.pow(2, attempt), this.maxDelayMs);
+  }
+}
+
+/**
+ * Split messages into SendMessageBatch calls of at most 10 entries and 256 KB, keeping their order
+ */
+function chunkMessages<T>(messages: OutgoingMessage<T>[]): OutgoingMessage<T>[][] {
+  const chunks: OutgoingMessage<T>[][] = [];
+  let current: OutgoingMessage<T>[] = [];
+  let currentBytes = 0;
+
+  for (const message of messages) {
+    if (current.length === MAX_BATCH_SIZE || currentBytes + message.sizeBytes > MAX_MESSAGE_BYTES) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(message);
+    currentBytes += message.sizeBytes;
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Whether a message of the same FIFO group, sent after this one in the same call, went through
+ */
+function sentLaterInGroup<T>(message: OutgoingMessage<T>, sent: OutgoingMessage<T>[], failed: Set<OutgoingMessage<T>>): boolean {
+  const group = message.request.MessageGroupId;
+  return (
+    group !== undefined &&
+    sent.slice(sent.indexOf(message) + 1).some((later) => later.request.MessageGroupId === group && !failed.has(later))
+  );
+}
+
+/**
+ * Size SQS counts against the limit: the body plus each attribute's name, type and value
+ */
+function messageSize(request: Omit<SendMessageBatchRequestEntry, 'Id'>): number {
+  let bytes = Buffer.byteLength(request.MessageBody ?? '');
+  for (const [name, value] of Object.entries(request.MessageAttributes ?? {})) {
+    bytes += Buffer.byteLength(name) + Buffer.byteLength(value.DataType ?? '') + Buffer.byteLength(value.StringValue ?? '');
+  }
+  return bytes;
+}
+
+// Throttling, server errors and network errors (no HTTP response) are worth retrying; other client errors are not
+function isRetryableError(error: unknown): boolean {
+  const status = (error as { $metadata?: { httpStatusCode?: number } } | undefined)?.$metadata?.httpStatusCode;
+  const name = error instanceof Error ? error.name : '';
+  return status === undefined || status >= 500 || status === 429 || THROTTLING_ERRORS.has(name);
+}
+
+function logContextCorrelationId(): string | undefined {
+  const { correlationId, requestId } = getLogContext();
+  const id = correlationId ?? requestId;
+  return typeof id === 'string' ? id : undefined;
+}
@@ -0,0 +1,56 @@
+import { MessageAttributeValue } from '@aws-sdk/client-sqs';
+import { context, propagation, trace, Context, Span, SpanKind, SpanStatusCode, TextMapSetter } from '@opentelemetry/api';
+
+const tracer = trace.getTracer('@repo/sqs-publisher');
+
+const messageAttributesSetter: TextMapSetter<Record<string, MessageAttributeValue>> = {
+  set: (attributes, key, value) => {
+    attributes[key] = { DataType: 'String', StringValue: value };
+  },
+};
+
+/**
+ * Start the span for sending a message
+ * @param parentContext - Context the message is sent from (default: the active context)
+ */
+export function startSendSpan(queueUrl: string, eventType: string, parentContext: Context = context.active()): Span {
+  const queueName = queueNameOf(queueUrl);
+  return tracer.startSpan(
+    `${queueName} send`,
+    {
+      kind: SpanKind.PRODUCER,
+      attributes: {
+        'messaging.system': 'aws_sqs',
+        'messaging.operation.type': 'send',
+        'messaging.destination.name': queueName,
+        'messaging.event.type': eventType,
+      },
+    },
+    parentContext
+  );
+}
+
+/**
+ * Write the span's context into the message attributes (W3C `traceparent` / `tracestate`),
+ * so the consumer continues the trace (see extractTraceContext in @repo/sqs-consumer)
+ */
+export function injectTraceContext(span: Span, attributes: Record<string, MessageAttributeValue>): void {
+  propagation.inject(trace.setSpan(context.active(), span), attributes, messageAttributesSetter);
+}
+
+/**
+ * Record the outcome of the send on the span and end it
+ */
+export function endSendSpan(span: Span, outcome: { messageId: string } | { error: Error }): void {
+  if ('messageId' in outcome) {
+    span.setAttribute('messaging.message.id', outcome.messageId);
+  } else {
+    span.recordException(outcome.error);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: outcome.error.message });
+  }
+  span.end();
+}
+
+function queueNameOf(queueUrl: string): string {
+  return queueUrl.split('/').pop() || queueUrl;
+}
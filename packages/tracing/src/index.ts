@@ -0,0 +1,11 @@
+/**
+ * @repo/tracing
+ *
+ * OpenTelemetry SDK setup for the services: HTTP/Express instrumentation and an OTLP or console span exporter
+ *
+ * The shared packages (@repo/database, @repo/sqs-consumer, @repo/sqs-publisher) only depend on
+ * @opentelemetry/api - their spans are no-ops until the application calls startTracing.
+ */
+
+export { startTracing, createSpanProcessor } from './tracing';
+export type { Tracing, TracingOptions, TraceExporter } from './tracing';
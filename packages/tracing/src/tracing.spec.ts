@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { diag } from '@opentelemetry/api';
+import { BatchSpanProcessor, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { createLogger } from '@repo/logger';
+import { createSpanProcessor, startTracing } from './tracing';
+
+describe('createSpanProcessor', () => {
+  it('should batch spans to the OTLP exporter by default', async () => {
+    const processor = createSpanProcessor({ serviceName: 'posts-service' });
+
+    expect(processor).toBeInstanceOf(BatchSpanProcessor);
+    await processor?.shutdown();
+  });
+
+  it('should export each span to stdout for the console exporter', async () => {
+    const processor = createSpanProcessor({ serviceName: 'posts-service', exporter: 'console' });
+
+    expect(processor).toBeInstanceOf(SimpleSpanProcessor);
+    await processor?.shutdown();
+  });
+
+  it('should not create a processor when tracing is disabled', () => {
+    expect(createSpanProcessor({ serviceName: 'posts-service', exporter: 'none' })).toBeUndefined();
+  });
+});
+
+describe('startTracing', () => {
+  afterEach(() => {
+    diag.disable();
+  });
+
+  it('should be a no-op when tracing is disabled', async () => {
+    const tracing = startTracing({ serviceName: 'posts-service', exporter: 'none' });
+
+    await expect(tracing.shutdown()).resolves.toBeUndefined();
+  });
+
+  it('should log OpenTelemetry warnings and errors through the given logger', async () => {
+    const writeLog = vi.fn();
+    const tracing = startTracing({
+      serviceName: 'posts-service',
+      exporter: 'console',
+      logger: createLogger({ format: 'json', write: writeLog }),
+    });
+
+    diag.debug('Span started');
+    diag.error('Export failed', new Error('Connection refused'));
+    await tracing.shutdown();
+
+    const lines = writeLog.mock.calls.map(([line]) => JSON.parse(line));
+    expect(lines).toEqual([
+      expect.objectContaining({ level: 'error', msg: 'Export failed', details: expect.objectContaining({ message: 'Connection refused' }) }),
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { diag, DiagLogger, DiagLogLevel } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { ExpressInstrumentation } from '@opentelemetry/instrumentation-express';
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
+import { NodeSDK } from '@opentelemetry/sdk-node';
+import { BatchSpanProcessor, ConsoleSpanExporter, SimpleSpanProcessor, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { createLogger, LogFields, Logger } from '@repo/logger';
+
+export type TraceExporter = 'otlp' | 'console' | 'none';
+
+export interface TracingOptions {
+  serviceName: string;
+  exporter?: TraceExporter; // 'otlp' to a collector, 'console' to stdout, 'none' to disable tracing. Default: 'otlp'
+  otlpEndpoint?: string; // OTLP/HTTP traces URL. Default: OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, else http://localhost:4318/v1/traces
+  logger?: Logger; // Receives OpenTelemetry warnings and errors, e.g. failed exports. Default: JSON logger named 'Tracing'
+}
+
+export interface Tracing {
+  shutdown(): Promise<void>; // Flush pending spans - call on graceful shutdown
+}
+
+/**
+ * Start the OpenTelemetry SDK for a service
+ * Incoming and outgoing HTTP requests and Express routes are traced automatically; the SQS consumer and
+ * database spans from @repo/sqs-consumer and @repo/database are recorded once this is started.
+ *
+ * Must run before express and http are first imported, so import the module calling it first in the entry point.
+ */
+export function startTracing(options: TracingOptions): Tracing {
+  const spanProcessor = createSpanProcessor(options);
+  if (!spanProcessor) {
+    return { shutdown: async () => undefined };
+  }
+
+  const sdk = new NodeSDK({
+    serviceName: options.serviceName,
+    spanProcessors: [spanProcessor],
+    instrumentations: [
+      new HttpInstrumentation({
+        // Health checks and Prometheus scrapes would drown out the requests we care about
+        ignoreIncomingRequestHook: (request) => request.url === '/health' || request.url === '/metrics',
+      }),
+      new ExpressInstrumentation(),
+    ],
+  });
+  diag.setLogger(toDiagLogger(options.logger ?? createLogger({ name: 'Tracing' })), DiagLogLevel.WARN);
+  sdk.start();
+
+  return { shutdown: () => sdk.shutdown() };
+}
+
+/**
+ * Span processor for the configured exporter, or undefined when tracing is disabled
+ */
+export function createSpanProcessor(options: TracingOptions): SpanProcessor | undefined {
+  switch (options.exporter ?? 'otlp') {
+    case 'otlp':
+      return new BatchSpanProcessor(new OTLPTraceExporter({ url: options.otlpEndpoint }));
+    case 'console':
+      // Export each span as it ends so stdout follows the request
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'none':
+      return undefined;
+  }
+}
+
+/**
+ * Route OpenTelemetry's diagnostics through a structured logger
+ */
+function toDiagLogger(logger: Logger): DiagLogger {
+  return {
+    error: (message, ...args) => logger.error(message, diagFields(args)),
+    warn: (message, ...args) => logger.warn(message, diagFields(args)),
+    info: (message, ...args) => logger.info(message, diagFields(args)),
+    debug: (message, ...args) => logger.debug(message, diagFields(args)),
+    verbose: (message, ...args) => logger.debug(message, diagFields(args)),
+  };
+}
+
+// OpenTelemetry passes extra arguments after the message, usually a single error or string
+function diagFields(args: unknown[]): LogFields | undefined {
+  if (args.length === 0) {
+    return undefined;
+  }
+  return { details: args.length === 1 ? args[0] : args };
+}
@@ -0,0 +1,65 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+
+/**
+ * Standard wrapper of every event published between services
+ *
+ * The envelope fields are the same for every event type; the event's own data is in `payload`, whose shape
+ * is versioned per event type by `schemaVersion`. Older versions are migrated with an UpcasterRegistry.
+ */
+export interface EventEnvelope<T, E extends string = string> {
+  eventId: string; // Unique per event and kept on re-publish, so consumers can drop duplicates
+  eventType: E;
+  schemaVersion: number; // Version of the payload's shape for this eventType
+  occurredAt: string; // ISO 8601 time the event happened
+  producer: string; // Service that emitted the event, e.g. 'posts-service'
+  correlationId?: string; // Request or flow the event is part of
+  payload: T;
+}
+
+export interface CreateEventEnvelopeOptions<T, E extends string> {
+  eventType: E;
+  schemaVersion: number;
+  producer: string;
+  payload: T;
+  correlationId?: string;
+  eventId?: string; // Default: random UUID
+  occurredAt?: Date; // Default: now
+}
+
+/**
+ * Wrap a payload in a new envelope
+ */
+export function createEventEnvelope<T, E extends string>(options: CreateEventEnvelopeOptions<T, E>): EventEnvelope<T, E> {
+  return {
+    eventId: options.eventId ?? randomUUID(),
+    eventType: options.eventType,
+    schemaVersion: options.schemaVersion,
+    occurredAt: (options.occurredAt ?? new Date()).toISOString(),
+    producer: options.producer,
+    ...(options.correlationId && { correlationId: options.correlationId }),
+    payload: options.payload,
+  };
+}
+
+/**
+ * Schema of one version of an enveloped event
+ * @param eventType - Only this eventType is accepted
+ * @param schemaVersion - Only this schemaVersion is accepted
+ * @param payload - Schema of the payload in this version
+ */
+export function eventEnvelopeSchema<E extends string, P extends z.ZodType>(
+  eventType: E,
+  schemaVersion: number,
+  payload: P
+) {
+  return z.object({
+    eventId: z.string().min(1),
+    eventType: z.literal(eventType),
+    schemaVersion: z.literal(schemaVersion),
+    occurredAt: z.iso.datetime({ offset: true }),
+    producer: z.string().min(1),
+    correlationId: z.string().optional(),
+    payload,
+  });
+}
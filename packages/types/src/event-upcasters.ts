@@ -0,0 +1,7 @@
+import { postCreatedUpcasters } from './post-events';
+import { UpcasterRegistry } from './upcasting';
+
+/**
+ * Upcasters of every event type in this package - register new ones here when a schemaVersion is added
+ */
+export const eventUpcasters = new UpcasterRegistry().register(...postCreatedUpcasters);
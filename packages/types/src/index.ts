@@ -1,2 +1,4 @@
+export * from './envelope';
+export * from './upcasting';
+export * from './event-upcasters';
 export * from './post-events';
-
@@ -1,7 +1,57 @@
-export interface PostCreatedEvent {
+import { z } from 'zod';
+import { EventEnvelope, eventEnvelopeSchema } from './envelope';
+import { Upcaster } from './upcasting';
+
+// POST_CREATED
+
+export const POST_CREATED_SCHEMA_VERSION = 2;
+
+export interface PostCreatedPayload {
+  postId: string;
+  userId: string;
+}
+
+// Latest version - the only one producers emit
+export type PostCreatedEvent = EventEnvelope<PostCreatedPayload, 'POST_CREATED'>;
+
+export const postCreatedEventV2Schema = eventEnvelopeSchema(
+  'POST_CREATED',
+  2,
+  z.object({
+    postId: z.string().min(1),
+    userId: z.string().min(1),
+  })
+);
+
+export const postCreatedEventSchema: z.ZodType<PostCreatedEvent> = postCreatedEventV2Schema;
+
+// v1 - published before the envelope, with the fields at the top level
+export interface PostCreatedEventV1 {
   eventType: 'POST_CREATED';
   postId: string;
   userId: string;
   timestamp: string;
 }
 
+export const postCreatedEventV1Schema: z.ZodType<PostCreatedEventV1> = z.object({
+  eventType: z.literal('POST_CREATED'),
+  postId: z.string().min(1),
+  userId: z.string().min(1),
+  timestamp: z.string(),
+});
+
+export const postCreatedUpcasters: Upcaster[] = [
+  {
+    eventType: 'POST_CREATED',
+    fromVersion: 1,
+    schema: postCreatedEventV1Schema,
+    upcast: (event: PostCreatedEventV1): PostCreatedEvent => ({
+      eventId: `POST_CREATED:${event.postId}`, // v1 had no id - a post is only created once
+      eventType: 'POST_CREATED',
+      schemaVersion: 2,
+      occurredAt: event.timestamp,
+      producer: 'posts-service', // The only producer of v1
+      payload: { postId: event.postId, userId: event.userId },
+    }),
+  },
+];
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createEventEnvelope } from './envelope';
+import { eventUpcasters } from './event-upcasters';
+import { postCreatedEventSchema, PostCreatedEventV1 } from './post-events';
+import { UpcasterRegistry } from './upcasting';
+
+const v1Event: PostCreatedEventV1 = {
+  eventType: 'POST_CREATED',
+  postId: 'post-1',
+  userId: 'user-1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+describe('UpcasterRegistry', () => {
+  const registry = new UpcasterRegistry().register(
+    {
+      eventType: 'TEST',
+      fromVersion: 1,
+      schema: z.object({ eventType: z.literal('TEST'), name: z.string() }),
+      upcast: (event: { name: string }) => ({ eventType: 'TEST', schemaVersion: 2, fullName: event.name }),
+    },
+    {
+      eventType: 'TEST',
+      fromVersion: 2,
+      schema: z.object({ eventType: z.literal('TEST'), schemaVersion: z.literal(2), fullName: z.string() }),
+      upcast: (event: { fullName: string }) => ({
+        eventType: 'TEST',
+        schemaVersion: 3,
+        firstName: event.fullName.split(' ')[0],
+      }),
+    }
+  );
+
+  it('should chain upcasters up to the latest version', () => {
+    expect(registry.upcast({ eventType: 'TEST', name: 'Ada Lovelace' })).toEqual({
+      eventType: 'TEST',
+      schemaVersion: 3,
+      firstName: 'Ada',
+    });
+    expect(registry.upcast({ eventType: 'TEST', schemaVersion: 2, fullName: 'Ada Lovelace' })).toEqual({
+      eventType: 'TEST',
+      schemaVersion: 3,
+      firstName: 'Ada',
+    });
+  });
+
+  it('should return latest and unknown events unchanged', () => {
+    const latest = { eventType: 'TEST', schemaVersion: 3, firstName: 'Ada' };
+    const unknown = { eventType: 'OTHER', name: 'Ada' };
+
+    expect(registry.upcast(latest)).toBe(latest);
+    expect(registry.upcast(unknown)).toBe(unknown);
+    expect(registry.upcast('not an event')).toBe('not an event');
+  });
+
+  it('should validate the version an event is upcast from', () => {
+    expect(() => registry.upcast({ eventType: 'TEST', name: 42 })).toThrow(z.ZodError);
+  });
+
+  it('should reject an upcaster that does not return the next version', () => {
+    const broken = new UpcasterRegistry().register({
+      eventType: 'TEST',
+      fromVersion: 1,
+      schema: z.object({ eventType: z.literal('TEST') }),
+      upcast: (event) => event,
+    });
+
+    expect(() => broken.upcast({ eventType: 'TEST' })).toThrow('Upcaster for TEST v1 must return v2');
+  });
+
+  it('should reject two upcasters for the same version', () => {
+    expect(() =>
+      new UpcasterRegistry().register(
+        { eventType: 'TEST', fromVersion: 1, schema: z.object({}), upcast: (event) => event },
+        { eventType: 'TEST', fromVersion: 1, schema: z.object({}), upcast: (event) => event }
+      )
+    ).toThrow('Upcaster for TEST v1 is already registered');
+  });
+
+  describe('schemaFor', () => {
+    const schema = eventUpcasters.schemaFor(postCreatedEventSchema);
+
+    it('should upcast a v1 POST_CREATED event to the latest envelope', () => {
+      const result = schema.safeParse(v1Event);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        eventId: 'POST_CREATED:post-1',
+        eventType: 'POST_CREATED',
+        schemaVersion: 2,
+        occurredAt: '2026-01-01T00:00:00.000Z',
+        producer: 'posts-service',
+        payload: { postId: 'post-1', userId: 'user-1' },
+      });
+    });
+
+    it('should accept the latest version as is', () => {
+      const event = createEventEnvelope({
+        eventType: 'POST_CREATED',
+        schemaVersion: 2,
+        producer: 'posts-service',
+        correlationId: 'req-1',
+        payload: { postId: 'post-1', userId: 'user-1' },
+      });
+
+      expect(schema.parse(event)).toEqual(event);
+    });
+
+    it('should report an invalid old version as a validation issue', () => {
+      const result = schema.safeParse({ ...v1Event, postId: '' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({ path: ['postId'], message: expect.stringContaining('from v1') });
+    });
+
+    it('should reject an unknown version', () => {
+      const event = createEventEnvelope({
+        eventType: 'POST_CREATED',
+        schemaVersion: 3,
+        producer: 'posts-service',
+        payload: { postId: 'post-1', userId: 'user-1' },
+      });
+
+      expect(schema.safeParse(event).success).toBe(false);
+    });
+  });
+});
+
+describe('createEventEnvelope', () => {
+  it('should fill in the eventId and occurredAt', () => {
+    const event = createEventEnvelope({
+      eventType: 'POST_CREATED',
+      schemaVersion: 2,
+      producer: 'posts-service',
+      occurredAt: new Date('2026-01-01T00:00:00.000Z'),
+      payload: { postId: 'post-1', userId: 'user-1' },
+    });
+
+    expect(event.eventId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(event.occurredAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(event).not.toHaveProperty('correlationId');
+    expect(postCreatedEventSchema.safeParse(event).success).toBe(true);
+  });
+});
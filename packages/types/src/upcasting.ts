@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+/**
+ * Migrates one version of an event to the next
+ */
+export interface Upcaster<From = unknown, To = unknown> {
+  eventType: string;
+  fromVersion: number;
+  schema: z.ZodType<From>; // Schema of the version migrated from - the event is validated before upcast() runs
+  // Method syntax keeps the parameter bivariant, so upcasters of specific versions fit in an Upcaster[]
+  upcast(event: From): To; // Must return the event at fromVersion + 1
+}
+
+/**
+ * Migrates events published with an older schemaVersion to the latest shape
+ *
+ * Upcasters are chained: a v1 event goes through the v1 -> v2 upcaster, then v2 -> v3, and so on until
+ * there is no upcaster for its version. Events without a schemaVersion predate the envelope and are v1.
+ * Producers only emit the latest version, so consumers handle a single shape while old messages are
+ * still in the queue.
+ */
+export class UpcasterRegistry {
+  private readonly upcasters = new Map<string, Upcaster>();
+
+  /**
+   * Register upcasters
+   * @throws Error if an upcaster is already registered for the same eventType and fromVersion
+   */
+  register(...upcasters: Upcaster[]): this {
+    for (const upcaster of upcasters) {
+      const key = upcasterKey(upcaster.eventType, upcaster.fromVersion);
+      if (this.upcasters.has(key)) {
+        throw new Error(`[UpcasterRegistry] Upcaster for ${upcaster.eventType} v${upcaster.fromVersion} is already registered`);
+      }
+      this.upcasters.set(key, upcaster);
+    }
+    return this;
+  }
+
+  /**
+   * Migrate an event to the latest version known to the registry
+   * Events of other types or already at the latest version are returned as is.
+   * @throws ZodError if the event doesn't match the schema of a version it is migrated from
+   */
+  upcast(event: unknown): unknown {
+    let current = event;
+    for (let upcaster = this.upcasterFor(current); upcaster; upcaster = this.upcasterFor(current)) {
+      current = upcaster.upcast(upcaster.schema.parse(current));
+      if (schemaVersionOf(current) !== upcaster.fromVersion + 1) {
+        throw new Error(
+          `[UpcasterRegistry] Upcaster for ${upcaster.eventType} v${upcaster.fromVersion} must return v${upcaster.fromVersion + 1}`
+        );
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Schema that upcasts the input before validating it against the latest version
+   * Use it wherever events are read, e.g. as the schema of a MessageRouter route.
+   */
+  schemaFor<T>(latestSchema: z.ZodType<T>): z.ZodType<T> {
+    return z.preprocess((input, ctx) => {
+      try {
+        return this.upcast(input);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          for (const issue of error.issues) {
+            ctx.addIssue({ ...issue, message: `${issue.message} (upcasting from v${schemaVersionOf(input)})` });
+          }
+        } else {
+          ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : String(error) });
+        }
+        return z.NEVER;
+      }
+    }, latestSchema);
+  }
+
+  private upcasterFor(event: unknown): Upcaster | undefined {
+    const eventType = (event as { eventType?: unknown } | null)?.eventType;
+    if (typeof eventType !== 'string') {
+      return undefined;
+    }
+    return this.upcasters.get(upcasterKey(eventType, schemaVersionOf(event)));
+  }
+}
+
+function upcasterKey(eventType: string, fromVersion: number): string {
+  return `${eventType}@${fromVersion}`;
+}
+
+// Events published before the envelope have no schemaVersion
+function schemaVersionOf(event: unknown): number {
+  const schemaVersion = (event as { schemaVersion?: unknown } | null)?.schemaVersion;
+  return typeof schemaVersion === 'number' ? schemaVersion : 1;
+}